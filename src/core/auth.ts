@@ -6,16 +6,17 @@ import {
   Query,
   GoogleLoginResponse,
   AuthCallbacks,
+  AuthState,
+  AuthStateListener,
+  AuthStatus,
   Response,
   LoginResult,
   TwoFAVerifyResponse,
+  TOTPEnrollment,
+  TOTPConfirmation,
+  LinkedProvider,
 } from "../types/types.js";
-import {
-  buildFilterQuery,
-  getFromLocalStorage,
-  mergeUserData,
-  setToLocalStorage,
-} from "../utils/utils.js";
+import { buildFilterQuery, decodeJwt, mergeUserData } from "../utils/utils.js";
 
 import {
   RegisterParams,
@@ -26,7 +27,44 @@ import {
   GoogleLoginParams,
   GithubLoginParams,
   Verify2FAParams,
+  ProviderCredential,
 } from "../types/params.js";
+import {
+  HttpTransport,
+  RequestOptions,
+  TransportRequest,
+} from "./transport.js";
+import { IterateOptions, Paginator } from "../utils/pagination.js";
+import { AuthError, CocobaseError } from "./errors.js";
+import { StorageAdapter, createDefaultStorage } from "./storage.js";
+import { SessionChange, TabSync } from "./tabsync.js";
+import { OAuthClient } from "./oauth.js";
+import type { WithFilesOptions } from "./files.js";
+import { validateFiles } from "./validation.js";
+import { TwoFactorChallenge } from "./twofactor.js";
+
+/**
+ * Options for token expiry handling.
+ */
+export interface SessionOptions {
+  /** Refresh the token before it expires (default: true) */
+  autoRefresh?: boolean;
+  /**
+   * How long before expiry `onSessionExpiring` fires and the token is
+   * refreshed, in milliseconds (default: 60000)
+   */
+  refreshBeforeMs?: number;
+  /** Refresh the token and retry once when a request fails with 401 (default: true) */
+  refreshOnUnauthorized?: boolean;
+}
+
+const REFRESH_PATH = "/auth-collections/refresh-token";
+// Endpoints that issue tokens; a 401 from them means bad credentials
+const SESSION_ENDPOINTS =
+  /^\/auth-collections\/(login|signup|refresh-token|[\w-]+\/verify|[\w-]+-verify)$/;
+// setTimeout overflows above ~24.8 days; longer waits are re-armed
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
 /**
  * Authentication handler for Cocobase client.
  *
@@ -45,20 +83,78 @@ export class AuthHandler {
   private token?: string;
   user?: AppUser;
   private callbacks: AuthCallbacks = {};
+  private transport: HttpTransport;
+  private storage: StorageAdapter;
+  private storageKeyPrefix: string;
+  private session: Required<SessionOptions>;
+  private sessionTimer?: ReturnType<typeof setTimeout>;
+  private expiringToken?: string;
+  private refreshing?: Promise<string>;
+  private refreshSupported = true;
+  private tabSync?: TabSync;
+  private pendingChange?: SessionChange;
+  private authStatus: AuthStatus = "initializing";
+  // The 2FA challenge of the latest login, which drives `awaiting_2fa`
+  private challenge?: TwoFactorChallenge;
+  // Each listener with the last state it was given
+  private stateListeners = new Map<AuthStateListener, AuthState>();
+  private stateEmitQueued = false;
+  /** OAuth providers and the redirect sign-in flow */
+  readonly oauth: OAuthClient;
 
   /**
    * Creates a new AuthHandler instance.
    *
    * @param config - Cocobase configuration
+   * @param transport - Shared HTTP transport (a private one is created if omitted)
    */
-  constructor(config: CocobaseConfig) {
+  constructor(config: CocobaseConfig, transport?: HttpTransport) {
     this.baseURL = config.baseURL ?? "https://api.cocobase.buzz";
     this.apiKey = config.apiKey;
+    this.storage = config.storage ?? createDefaultStorage();
+    this.storageKeyPrefix = config.storageKeyPrefix ?? "cocobase-";
+    this.transport =
+      transport ??
+      new HttpTransport({
+        baseURL: this.baseURL,
+        headers: () => ({
+          ...(this.apiKey ? { "x-api-key": `${this.apiKey}` } : {}),
+          ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+        }),
+        fetch: config.fetch,
+        interceptors: config.interceptors,
+        retry: config.retry,
+        timeoutMs: config.timeoutMs,
+      });
+    this.session = {
+      autoRefresh: config.session?.autoRefresh ?? true,
+      refreshBeforeMs: config.session?.refreshBeforeMs ?? 60000,
+      refreshOnUnauthorized: config.session?.refreshOnUnauthorized ?? true,
+    };
+    this.transport.interceptors.error.use((error, request) =>
+      this.retryUnauthorized(error, request),
+    );
+    if (config.syncTabs ?? typeof window !== "undefined") {
+      this.tabSync = new TabSync(`${this.storageKeyPrefix}session`, (change) =>
+        this.applyRemoteChange(change),
+      );
+    }
+    this.oauth = new OAuthClient({
+      exchange: (path, body, options) =>
+        this.providerLogin(path, body, options),
+      link: (provider, credential, options) =>
+        this.linkProvider(provider, credential, options),
+      storage: this.storage,
+      storageKeyPrefix: this.storageKeyPrefix,
+      providers: config.oauth,
+    });
   }
 
   /**
    * Register callbacks for authentication events.
    * This allows your application to respond to auth state changes in a framework-agnostic way.
+   * A later call replaces callbacks with the same name; use `subscribe` to register
+   * independent listeners.
    *
    * @param callbacks - Object containing callback functions for various auth events
    *
@@ -114,6 +210,48 @@ export class AuthHandler {
     this.callbacks = {};
   }
 
+  /**
+   * Where the client is in the authentication lifecycle: `initializing` until
+   * `initAuth` completes, then `authenticated`, `unauthenticated`, or
+   * `awaiting_2fa` while a login waits for its 2FA code.
+   */
+  get status(): AuthStatus {
+    return this.authStatus;
+  }
+
+  /**
+   * Subscribes to authentication state changes.
+   *
+   * The listener is called right away with the current state, then whenever
+   * the status, user or token changes. Changes made together (such as the
+   * token and user on login) are delivered as one update. Any number of
+   * listeners can be registered.
+   *
+   * @param listener - Called with the current `{ status, user, token }`
+   * @returns Function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = db.auth.subscribe(({ status, user }) => {
+   *   if (status === 'initializing') showSpinner();
+   *   else if (status === 'authenticated') showApp(user);
+   *   else if (status === 'awaiting_2fa') show2FAForm();
+   *   else showLogin();
+   * });
+   *
+   * // Later
+   * unsubscribe();
+   * ```
+   */
+  subscribe(listener: AuthStateListener): () => void {
+    const state = this.getState();
+    this.stateListeners.set(listener, state);
+    this.notifyListener(listener, state);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
   /**
    * Gets the current authentication token.
    *
@@ -124,16 +262,99 @@ export class AuthHandler {
   }
 
   /**
-   * Sets the authentication token and stores it in local storage.
-   
+   * Sets the authentication token and persists it to storage.
+   *
    * @param token - JWT authentication token
    */
   setToken(token: string) {
     this.token = token;
-    setToLocalStorage("cocobase-token", token);
+    this.persist("token", token);
+    this.scheduleSessionCheck();
+    this.setStatus("authenticated");
+    this.broadcast({ event: "update", token });
     this.callbacks.onTokenChange?.(token);
   }
 
+  /**
+   * Gets the expiry time of the current token, read from its `exp` claim.
+   *
+   * @returns The expiry time, or undefined if there is no token or it has no `exp` claim
+   */
+  getTokenExpiry(): Date | undefined {
+    const exp = this.token ? decodeJwt(this.token)?.exp : undefined;
+    return typeof exp === "number" ? new Date(exp * 1000) : undefined;
+  }
+
+  /**
+   * Checks if the current token has expired.
+   *
+   * @param leewayMs - Treat the token as expired this many milliseconds early (default: 0)
+   * @returns True if the token has expired; false if it is valid, has no expiry or there is no token
+   *
+   * @example
+   * ```typescript
+   * if (db.auth.isTokenExpired(30_000)) {
+   *   await db.auth.refreshSession();
+   * }
+   * ```
+   */
+  isTokenExpired(leewayMs: number = 0): boolean {
+    const expiry = this.getTokenExpiry();
+    return !!expiry && expiry.getTime() - leewayMs <= Date.now();
+  }
+
+  /**
+   * Exchanges the current token for a new one.
+   *
+   * This runs automatically shortly before the token expires and when a request
+   * fails with 401 (see the `session` config option). Concurrent calls share
+   * one request.
+   *
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise resolving to the new token
+   * @throws {AuthError} If there is no session or the server rejects the token
+   *
+   * @example
+   * ```typescript
+   * const token = await db.auth.refreshSession();
+   * ```
+   */
+  refreshSession(options?: RequestOptions): Promise<string> {
+    if (!this.token) {
+      return Promise.reject(new AuthError("User is not authenticated"));
+    }
+    if (!this.refreshing) {
+      this.refreshing = this.request<TokenResponse>(
+        "POST",
+        REFRESH_PATH,
+        {},
+        false,
+        options,
+      )
+        .then((response) => {
+          this.setToken(response.access_token!);
+          if (response.user) {
+            this.setUser(response.user);
+          }
+          return response.access_token!;
+        })
+        .catch((error) => {
+          // The backend has no refresh endpoint; stop trying
+          if (
+            error instanceof CocobaseError &&
+            (error.statusCode === 404 || error.statusCode === 405)
+          ) {
+            this.refreshSupported = false;
+          }
+          throw error;
+        })
+        .finally(() => {
+          this.refreshing = undefined;
+        });
+    }
+    return this.refreshing;
+  }
+
   /**
    * Updates the current user object.
    *
@@ -141,7 +362,9 @@ export class AuthHandler {
    */
   setUser(user: AppUser) {
     this.user = user;
-    setToLocalStorage("cocobase-user", JSON.stringify(user));
+    this.persist("user", JSON.stringify(user));
+    this.queueStateChange();
+    this.broadcast({ event: "update", user });
   }
 
   /**
@@ -154,94 +377,352 @@ export class AuthHandler {
   }
 
   /**
-   * Makes an authenticated request to the API.
-   *
-   * @private
-   * @param method - HTTP method
-   * @param path - API endpoint path
-   * @param body - Request body
-   * @param useDataKey - Whether to wrap body in data key
-   * @returns Promise resolving to response data
+   * Writes a session value to storage, or removes it when `value` is omitted.
+   * Synchronous storages are updated immediately; failures are logged rather
+   * than thrown.
    */
-  private async request<T>(
-    method: "GET" | "POST" | "PATCH" | "DELETE",
-    path: string,
-    body?: unknown,
-    useDataKey: boolean = true,
-  ): Promise<T> {
-    const url = `${this.baseURL}${path}`;
-    const data = useDataKey ? { data: body } : body;
+  private persist(name: "token" | "user", value?: string): void {
+    const key = `${this.storageKeyPrefix}${name}`;
+    const warn = (err: unknown) =>
+      console.warn("Error writing auth session:", err);
     try {
-      const res = await fetch(url, {
-        method,
-        headers: {
-          "Content-Type": "application/json",
-          ...(this.apiKey ? { "x-api-key": `${this.apiKey}` } : {}),
-          ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
-        },
-        ...(body ? { body: JSON.stringify(data) } : {}),
-      });
+      const result =
+        value === undefined
+          ? this.storage.remove(key)
+          : this.storage.set(key, value);
+      Promise.resolve(result).catch(warn);
+    } catch (err) {
+      warn(err);
+    }
+  }
 
-      if (!res.ok) {
-        const errorText = await res.text();
-        let errorDetail;
+  /**
+   * Arms a timer for the next expiry milestone of the current token: the
+   * `onSessionExpiring` warning (and refresh), then the expiry itself.
+   */
+  private scheduleSessionCheck(): void {
+    clearTimeout(this.sessionTimer);
+    this.sessionTimer = undefined;
+    const expiry = this.getTokenExpiry();
+    if (!expiry) return;
+
+    let delay = expiry.getTime() - Date.now();
+    if (this.expiringToken !== this.token) {
+      delay -= this.session.refreshBeforeMs;
+    }
+    const timer = setTimeout(
+      () => this.checkSession(),
+      Math.min(Math.max(0, delay), MAX_TIMER_DELAY),
+    );
+    // Don't keep Node.js processes alive just to watch the token
+    (timer as { unref?: () => void }).unref?.();
+    this.sessionTimer = timer;
+  }
+
+  private async checkSession(): Promise<void> {
+    const expiry = this.getTokenExpiry();
+    if (!expiry) return;
+    if (expiry.getTime() <= Date.now()) {
+      this.expireSession();
+      return;
+    }
+
+    const token = this.token;
+    const expiring =
+      expiry.getTime() - Date.now() <= this.session.refreshBeforeMs;
+    if (expiring && this.expiringToken !== token) {
+      this.expiringToken = token;
+      this.callbacks.onSessionExpiring?.(expiry);
+      if (this.session.autoRefresh && this.refreshSupported) {
         try {
-          errorDetail = JSON.parse(errorText);
-        } catch {
-          errorDetail = errorText;
+          await this.refreshSession();
+          return;
+        } catch (err) {
+          console.warn("Error refreshing auth session:", err);
         }
+      }
+    }
+    if (this.token === token) {
+      this.scheduleSessionCheck();
+    }
+  }
 
-        const errorMessage = {
-          statusCode: res.status,
-          url,
-          method,
-          error: errorDetail,
-          suggestions: this.getErrorSuggestion(res.status, method),
-        };
+  /**
+   * Refreshes the token once and retries a request that failed with 401.
+   * Clears the session only if the refresh itself is rejected with 401; a
+   * retry that still fails, e.g. because of a bad API key, keeps the user
+   * signed in.
+   */
+  private async retryUnauthorized(
+    error: unknown,
+    request: TransportRequest,
+  ): Promise<globalThis.Response | void> {
+    if (
+      !(error instanceof AuthError) ||
+      error.statusCode !== 401 ||
+      !this.token ||
+      !this.session.refreshOnUnauthorized ||
+      SESSION_ENDPOINTS.test(request.url)
+    ) {
+      return;
+    }
 
-        throw new Error(
-          `Request failed:\n${JSON.stringify(errorMessage, null, 2)}`,
-        );
+    if (!this.refreshSupported) return;
+    let token: string;
+    try {
+      token = await this.refreshSession();
+    } catch (refreshError) {
+      if (
+        refreshError instanceof CocobaseError &&
+        refreshError.statusCode === 401
+      ) {
+        this.expireSession();
       }
+      return;
+    }
 
-      return res.json() as Promise<T>;
-    } catch (error) {
-      if (error instanceof Error) {
-        throw error;
+    // Requests that set their own Authorization header get the new token too
+    const headers = { ...request.headers };
+    for (const name of Object.keys(headers)) {
+      if (name.toLowerCase() === "authorization") {
+        headers[name] = `Bearer ${token}`;
       }
-      throw new Error(
-        `Unexpected error during ${method} request to ${url}: ${error}`,
-      );
     }
+    return this.transport.send({ ...request, headers });
   }
 
   /**
-   * Provides error suggestions based on HTTP status codes.
+   * Clears the token and user from memory and, unless `persist` is false,
+   * from storage.
+   */
+  private clearSession(persist: boolean = true): void {
+    clearTimeout(this.sessionTimer);
+    this.sessionTimer = undefined;
+    this.expiringToken = undefined;
+    this.token = undefined;
+    this.user = undefined;
+    if (persist) {
+      this.persist("token");
+      this.persist("user");
+    }
+    this.setStatus("unauthenticated");
+  }
+
+  private expireSession(): void {
+    if (!this.token) return;
+    this.clearSession();
+    this.broadcast({ event: "logout" });
+    this.callbacks.onSessionExpired?.();
+    this.callbacks.onTokenChange?.(undefined);
+  }
+
+  private getState(): AuthState {
+    return { status: this.authStatus, user: this.user, token: this.token };
+  }
+
+  private setStatus(status: AuthStatus): void {
+    this.authStatus = status;
+    this.queueStateChange();
+  }
+
+  /**
+   * Delivers the current state to listeners at the end of the tick, skipping
+   * listeners that already have it.
+   */
+  private queueStateChange(): void {
+    if (this.stateEmitQueued) return;
+    this.stateEmitQueued = true;
+    queueMicrotask(() => {
+      this.stateEmitQueued = false;
+      const state = this.getState();
+      for (const [listener, last] of [...this.stateListeners]) {
+        if (
+          last.status === state.status &&
+          last.user === state.user &&
+          last.token === state.token
+        ) {
+          continue;
+        }
+        this.stateListeners.set(listener, state);
+        this.notifyListener(listener, state);
+      }
+    });
+  }
+
+  private notifyListener(listener: AuthStateListener, state: AuthState): void {
+    try {
+      listener(state);
+    } catch (err) {
+      console.error("Error in auth state listener:", err);
+    }
+  }
+
+  /**
+   * Exchanges a provider credential for a session and signs the user in.
+   */
+  private async providerLogin(
+    path: string,
+    body: Record<string, unknown>,
+    options?: RequestOptions,
+  ): Promise<AppUser> {
+    const response = await this.request<{
+      access_token: string;
+      user: AppUser;
+    }>("POST", path, body, false, options);
+
+    this.token = response.access_token;
+    this.setToken(response.access_token);
+    this.setUser(response.user);
+
+    // Trigger login callback
+    this.callbacks.onLogin?.(response.user, response.access_token);
+    this.broadcast({ event: "login", token: this.token, user: this.user });
+
+    return response.user;
+  }
+
+  /**
+   * Stores the session from a token response and announces the login.
+   */
+  private async startSession(response: TokenResponse): Promise<AppUser> {
+    this.token = response.access_token!;
+    this.setToken(this.token);
+    if (!response.user) {
+      await this.getCurrentUser();
+    } else {
+      this.setUser(response.user);
+    }
+
+    // Trigger login callback
+    this.callbacks.onLogin?.(this.user!, this.token);
+    this.broadcast({ event: "login", token: this.token, user: this.user });
+
+    return this.user!;
+  }
+
+  /**
+   * Wraps a "2FA required" login response in a challenge bound to this client.
+   * While it is the latest challenge, the status leaves `awaiting_2fa` when it
+   * can no longer succeed and returns to it after a resend.
+   */
+  private createChallenge(
+    email: string,
+    response: TokenResponse,
+  ): TwoFactorChallenge {
+    const challenge: TwoFactorChallenge = new TwoFactorChallenge({
+      email,
+      message: response.message,
+      expiresInMs:
+        response.expires_in !== undefined
+          ? response.expires_in * 1000
+          : undefined,
+      maxAttempts: response.max_attempts,
+      verify: (code, options) => this.verify2FALogin({ email, code }, options),
+      resend: (options) => this.send2FACode(email, options),
+      onUsableChange: (usable) => {
+        if (this.challenge !== challenge) return;
+        const signedOut = this.token ? "authenticated" : "unauthenticated";
+        if (!usable && this.authStatus === "awaiting_2fa") {
+          this.setStatus(signedOut);
+        } else if (usable && this.authStatus === signedOut) {
+          this.setStatus("awaiting_2fa");
+        }
+      },
+    });
+    this.challenge = challenge;
+    return challenge;
+  }
+
+  /**
+   * Queues a session change for the other tabs. Changes made in the same tick,
+   * such as the token and user set on login, go out as one message.
+   */
+  private broadcast(change: SessionChange): void {
+    if (!this.tabSync) return;
+    const pending = this.pendingChange;
+    this.pendingChange =
+      change.event === "logout" || !pending || pending.event === "logout"
+        ? change
+        : {
+            ...pending,
+            ...change,
+            event: pending.event === "login" ? "login" : change.event,
+          };
+    if (!pending) {
+      queueMicrotask(() => {
+        const next = this.pendingChange;
+        this.pendingChange = undefined;
+        if (next) this.tabSync?.post(next);
+      });
+    }
+  }
+
+  /**
+   * Applies a session change made in another tab and fires the matching
+   * callbacks. Storage is left alone, since the other tab already wrote it.
+   */
+  private applyRemoteChange(change: SessionChange): void {
+    if (change.event === "logout") {
+      if (!this.token && !this.user) return;
+      this.clearSession(false);
+      this.callbacks.onLogout?.();
+      this.callbacks.onTokenChange?.(undefined);
+      return;
+    }
+
+    const tokenChanged =
+      change.token !== undefined && change.token !== this.token;
+    if (tokenChanged) {
+      this.token = change.token;
+      this.scheduleSessionCheck();
+      this.authStatus = "authenticated";
+    }
+    if (change.user) {
+      this.user = change.user;
+    }
+    this.queueStateChange();
+
+    if (change.event === "login" && this.user && this.token) {
+      this.callbacks.onLogin?.(this.user, this.token);
+    }
+    if (tokenChanged) {
+      this.callbacks.onTokenChange?.(this.token);
+    }
+    if (change.event === "update" && change.user) {
+      this.callbacks.onUserUpdate?.(change.user);
+    }
+  }
+
+  /**
+   * Makes an authenticated request to the API.
    *
    * @private
-   * @param status - HTTP status code
-   * @param method - HTTP method used
-   * @returns Suggestion string
+   * @param method - HTTP method
+   * @param path - API endpoint path
+   * @param body - Request body
+   * @param useDataKey - Whether to wrap body in data key
+   * @param options - Per-call request options
+   * @returns Promise resolving to response data
    */
-  private getErrorSuggestion(status: number, method: string): string {
-    switch (status) {
-      case 401:
-        return "Check if your API key is valid and properly set";
-      case 403:
-        return "You don't have permission to perform this action. Verify your access rights";
-      case 404:
-        return "The requested resource was not found. Verify the path and ID are correct";
-      case 405:
-        return `The ${method} method is not allowed for this endpoint. Check the API documentation for supported methods`;
-      case 429:
-        return "You've exceeded the rate limit. Please wait before making more requests";
-      default:
-        return "Check the API documentation and verify your request format";
-    }
+  private async request<T>(
+    method: "GET" | "POST" | "PATCH" | "DELETE",
+    path: string,
+    body?: unknown,
+    useDataKey: boolean = true,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const data = useDataKey ? { data: body } : body;
+    return this.transport.request<T>({
+      method,
+      url: path,
+      headers: {},
+      ...(body ? { body: data } : {}),
+      ...options,
+    });
   }
 
   /**
-   * Initializes authentication by restoring the session from local storage.
+   * Initializes authentication by restoring the session from storage.
    * Call this method when your application loads to restore user sessions.
    *
    * @example
@@ -253,18 +734,27 @@ export class AuthHandler {
    * ```
    */
   async initAuth() {
-    const token = getFromLocalStorage("cocobase-token");
-    const user = getFromLocalStorage("cocobase-user");
-    if (token) {
-      this.token = token;
-      if (user) {
-        this.user = JSON.parse(user) as AppUser;
+    this.setStatus("initializing");
+    try {
+      const token = await this.storage.get(`${this.storageKeyPrefix}token`);
+      const user = await this.storage.get(`${this.storageKeyPrefix}user`);
+      this.token = token ?? undefined;
+      if (this.isTokenExpired()) {
+        // Restoring an expired session would only fail with 401 later
+        this.expireSession();
+      } else if (token) {
+        this.scheduleSessionCheck();
+        if (user) {
+          this.user = JSON.parse(user) as AppUser;
+        } else {
+          this.user = undefined;
+          await this.getCurrentUser();
+        }
       } else {
-        this.user = undefined;
-        await this.getCurrentUser();
+        this.token = undefined;
       }
-    } else {
-      this.token = undefined;
+    } finally {
+      this.setStatus(this.token ? "authenticated" : "unauthenticated");
     }
 
     // Trigger auth state change callback
@@ -275,6 +765,7 @@ export class AuthHandler {
    * Authenticates a user with email and password.
    *
    * @param params - Login parameters
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    * @returns Promise resolving to LoginResult indicating success or 2FA requirement
    *
    * @example
@@ -287,54 +778,168 @@ export class AuthHandler {
    * if (result.requires_2fa) {
    *   // Show 2FA input form to user
    *   console.log(result.message); // "2FA code sent to your email"
-   *   // Later, call verify2FALogin with the code
+   *   // Later, complete the login with the code
+   *   await result.challenge.verify(code);
    * } else {
    *   // Login successful
    *   console.log('Logged in as:', result.user?.email);
    * }
    * ```
    */
-  async login(params: LoginParams): Promise<LoginResult> {
+  async login(
+    params: LoginParams,
+    options?: RequestOptions,
+  ): Promise<LoginResult> {
     const { email, password } = params;
     const response = await this.request<TokenResponse>(
       "POST",
       `/auth-collections/login`,
       { email, password },
       false, // Do not use data key for auth endpoints
+      options,
     );
 
     // Check if 2FA is required
     if (response.requires_2fa) {
+      this.setStatus("awaiting_2fa");
       return {
         requires_2fa: true,
         message: response.message,
+        challenge: this.createChallenge(email, response),
       };
     }
 
     // Normal login flow
-    this.token = response.access_token!;
-    this.setToken(this.token);
-    if (!response.user) {
-      await this.getCurrentUser();
-    } else {
-      this.setUser(response.user);
-    }
-
-    // Trigger login callback
-    if (this.user) {
-      this.callbacks.onLogin?.(this.user, this.token);
-    }
-
     return {
       requires_2fa: false,
-      user: this.user,
+      user: await this.startSession(response),
     };
   }
 
+  /**
+   * Emails the user a sign-in link. Opening it lands on `redirectUrl`, where
+   * `completeMagicLink` signs the user in.
+   *
+   * @param email - User's email address
+   * @param redirectUrl - Page of your app the link opens
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise that resolves when the email is sent
+   *
+   * @example
+   * ```typescript
+   * await db.auth.sendMagicLink('user@example.com', 'https://app.example.com/auth/magic');
+   * ```
+   */
+  async sendMagicLink(
+    email: string,
+    redirectUrl: string,
+    options?: RequestOptions,
+  ): Promise<void> {
+    await this.request<void>(
+      "POST",
+      `/auth-collections/magic-link/send`,
+      { email, redirect_url: redirectUrl },
+      false,
+      options,
+    );
+  }
+
+  /**
+   * Signs the user in from the page a magic link opened.
+   *
+   * @param url - The page URL (or its query string) containing the link's `token`
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise resolving to the signed-in user
+   *
+   * @throws {AuthError} If the URL has no token, or the link is invalid or expired
+   *
+   * @example
+   * ```typescript
+   * // On https://app.example.com/auth/magic
+   * const user = await db.auth.completeMagicLink(window.location.href);
+   * ```
+   */
+  async completeMagicLink(
+    url: string | URL | URLSearchParams,
+    options?: RequestOptions,
+  ): Promise<AppUser> {
+    const params =
+      url instanceof URLSearchParams
+        ? url
+        : url instanceof URL
+          ? url.searchParams
+          : new URLSearchParams(url.includes("?") ? url.split("?")[1] : url);
+    const token = params.get("token");
+    if (!token) {
+      throw new AuthError("Magic link URL has no token");
+    }
+    const response = await this.request<TokenResponse>(
+      "POST",
+      `/auth-collections/magic-link/verify`,
+      { token },
+      false,
+      options,
+    );
+    return this.startSession(response);
+  }
+
+  /**
+   * Starts a passwordless login by emailing the user a one-time code.
+   * Finish with `verifyEmailCode`.
+   *
+   * @param email - User's email address
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise that resolves when the code is sent
+   *
+   * @example
+   * ```typescript
+   * await db.auth.loginWithEmailCode('user@example.com');
+   * const user = await db.auth.verifyEmailCode('user@example.com', '123456');
+   * ```
+   */
+  async loginWithEmailCode(
+    email: string,
+    options?: RequestOptions,
+  ): Promise<void> {
+    await this.request<void>(
+      "POST",
+      `/auth-collections/email-code/send`,
+      { email },
+      false,
+      options,
+    );
+  }
+
+  /**
+   * Completes a passwordless login with the code sent by `loginWithEmailCode`.
+   *
+   * @param email - User's email address
+   * @param code - Code from the email
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise resolving to the signed-in user
+   *
+   * @throws {AuthError} If the code is wrong or expired
+   */
+  async verifyEmailCode(
+    email: string,
+    code: string,
+    options?: RequestOptions,
+  ): Promise<AppUser> {
+    const response = await this.request<TokenResponse>(
+      "POST",
+      `/auth-collections/email-code/verify`,
+      { email, code },
+      false,
+      options,
+    );
+    return this.startSession(response);
+  }
+
   /**
    * Registers a new user with email, password, and optional additional data.
    *
    * @param params - Registration parameters
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    * @returns Promise resolving to LoginResult (registration may require 2FA if enabled)
    *
    * @example
@@ -353,20 +958,26 @@ export class AuthHandler {
    * }
    * ```
    */
-  async register(params: RegisterParams): Promise<LoginResult> {
+  async register(
+    params: RegisterParams,
+    options?: RequestOptions,
+  ): Promise<LoginResult> {
     const { email, password, data, roles, phone_number } = params;
     const response = await this.request<TokenResponse>(
       "POST",
       `/auth-collections/signup`,
       { email, password, data, roles, phone_number },
       false, // Do not use data key for auth endpoints
+      options,
     );
 
     // Check if 2FA is required
     if (response.requires_2fa) {
+      this.setStatus("awaiting_2fa");
       return {
         requires_2fa: true,
         message: response.message,
+        challenge: this.createChallenge(email, response),
       };
     }
 
@@ -381,6 +992,7 @@ export class AuthHandler {
     // Trigger register callback
     if (this.user) {
       this.callbacks.onRegister?.(this.user, this.token);
+      this.broadcast({ event: "login", token: this.token, user: this.user });
     }
 
     return {
@@ -394,9 +1006,12 @@ export class AuthHandler {
    *
    * This method verifies the Google ID token and either creates a new user
    * or logs in an existing user who registered with Google OAuth.
+   * An email already registered with another sign-in method is rejected; sign
+   * in with that method and call `linkProvider('google', ...)` instead.
    *
    * @param idToken - Google ID token obtained from Google Sign-In
    * @param platform - Optional platform identifier ('web', 'mobile', 'ios', 'android')
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    * @returns Promise resolving to the authenticated user object
    *
    * @throws {Error} If Google Sign-In is not enabled in project settings
@@ -419,26 +1034,16 @@ export class AuthHandler {
    * const user = await db.auth.loginWithGoogle({ idToken, platform: 'mobile' });
    * ```
    */
-  async loginWithGoogle(params: GoogleLoginParams): Promise<AppUser> {
+  async loginWithGoogle(
+    params: GoogleLoginParams,
+    options?: RequestOptions,
+  ): Promise<AppUser> {
     const { idToken, platform } = params;
-    const response = await this.request<{
-      access_token: string;
-      user: AppUser;
-    }>(
-      "POST",
+    return this.providerLogin(
       "/auth-collections/google-verify",
       { id_token: idToken, platform },
-      false,
+      options,
     );
-
-    this.token = response.access_token;
-    this.setToken(response.access_token);
-    this.setUser(response.user);
-
-    // Trigger login callback
-    this.callbacks.onLogin?.(response.user, response.access_token);
-
-    return response.user;
   }
 
   /**
@@ -446,10 +1051,13 @@ export class AuthHandler {
    *
    * This method exchanges the GitHub authorization code for a user session.
    * It creates a new user or logs in an existing user who registered with GitHub OAuth.
+   * An email already registered with another sign-in method is rejected; sign
+   * in with that method and call `linkProvider('github', ...)` instead.
    *
    * @param code - GitHub authorization code from OAuth callback
    * @param redirectUri - The redirect URI used in the OAuth flow (must match the one registered)
    * @param platform - Optional platform identifier ('web', 'mobile', 'ios', 'android')
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    * @returns Promise resolving to the authenticated user object
    *
    * @throws {Error} If GitHub Sign-In is not enabled in project settings
@@ -478,32 +1086,142 @@ export class AuthHandler {
    * }
    * ```
    */
-  async loginWithGithub(params: GithubLoginParams): Promise<AppUser> {
+  async loginWithGithub(
+    params: GithubLoginParams,
+    options?: RequestOptions,
+  ): Promise<AppUser> {
     const { code, redirectUri, platform } = params;
-    const response = await this.request<{
-      access_token: string;
-      user: AppUser;
-    }>(
-      "POST",
+    return this.providerLogin(
       "/auth-collections/github-verify",
       { code, redirect_uri: redirectUri, platform },
-      false,
+      options,
     );
+  }
 
-    this.token = response.access_token;
-    this.setToken(response.access_token);
-    this.setUser(response.user);
+  /**
+   * Lists the sign-in methods attached to the current user's account.
+   *
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise resolving to the linked providers, including "password"
+   *   if the account has one
+   *
+   * @example
+   * ```typescript
+   * const providers = await db.auth.listLinkedProviders();
+   * const hasGithub = providers.some((p) => p.provider === 'github');
+   * ```
+   */
+  listLinkedProviders(options?: RequestOptions): Promise<LinkedProvider[]> {
+    if (!this.token) {
+      return Promise.reject(new AuthError("User is not authenticated"));
+    }
+    return this.request<LinkedProvider[]>(
+      "GET",
+      "/auth-collections/providers",
+      undefined,
+      false,
+      options,
+    );
+  }
 
-    // Trigger login callback
-    this.callbacks.onLogin?.(response.user, response.access_token);
+  /**
+   * Attaches a provider to the current user's account, so they can sign in
+   * with it as well as their existing method.
+   *
+   * Use this when `loginWithGoogle` or `loginWithGithub` fails because the
+   * email is already registered with another method: sign in that way first,
+   * then link the provider. For a redirect flow started with
+   * `oauth.getAuthorizeUrl`, use `oauth.handleLinkCallback` instead.
+   *
+   * @param provider - Provider name, e.g. "google", "github", "apple"
+   * @param credential - ID token or authorization code from the provider
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise resolving to the account's linked providers
+   *
+   * @throws {AuthError} If the user is not authenticated or the credential is invalid
+   * @throws {CocobaseError} If the provider account is already linked to another user
+   *
+   * @example
+   * ```typescript
+   * // Google Identity Services callback, while signed in with a password
+   * await db.auth.linkProvider('google', { idToken: response.credential });
+   *
+   * // GitHub authorization code
+   * await db.auth.linkProvider('github', {
+   *   code,
+   *   redirectUri: 'https://app.example.com/settings/link',
+   * });
+   * ```
+   */
+  linkProvider(
+    provider: string,
+    credential: ProviderCredential,
+    options?: RequestOptions,
+  ): Promise<LinkedProvider[]> {
+    if (!this.token) {
+      return Promise.reject(new AuthError("User is not authenticated"));
+    }
+    const body =
+      "idToken" in credential
+        ? { id_token: credential.idToken }
+        : {
+            code: credential.code,
+            redirect_uri: credential.redirectUri,
+            ...(credential.codeVerifier
+              ? { code_verifier: credential.codeVerifier }
+              : {}),
+          };
+    return this.request<LinkedProvider[]>(
+      "POST",
+      `/auth-collections/providers/${encodeURIComponent(provider)}`,
+      body,
+      false,
+      options,
+    );
+  }
 
-    return response.user;
+  /**
+   * Detaches a provider from the current user's account.
+   *
+   * The server refuses to remove the account's last sign-in method.
+   *
+   * @param provider - Provider name, e.g. "google", "github", "apple", "password"
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise resolving to the account's remaining linked providers
+   *
+   * @throws {AuthError} If the user is not authenticated
+   * @throws {CocobaseError} If the provider is the only sign-in method left
+   *
+   * @example
+   * ```typescript
+   * await db.auth.unlinkProvider('github');
+   * ```
+   */
+  unlinkProvider(
+    provider: string,
+    options?: RequestOptions,
+  ): Promise<LinkedProvider[]> {
+    if (!this.token) {
+      return Promise.reject(new AuthError("User is not authenticated"));
+    }
+    return this.request<LinkedProvider[]>(
+      "DELETE",
+      `/auth-collections/providers/${encodeURIComponent(provider)}`,
+      undefined,
+      false,
+      options,
+    );
   }
 
   /**
    * Register a new user with file uploads (avatar, cover photo, etc.)
    *
+   * Pass `onProgress` to follow the upload and `signal` to cancel it. Pass
+   * `rules` to check the files first: broken rules throw a
+   * `FileValidationError` listing every violation, and nothing is sent.
+   *
    * @param params - Registration parameters with files
+   * @param options - Optional per-call options (signal, timeoutMs, retry, onProgress, rules)
    *
    * @example
    * ```typescript
@@ -522,12 +1240,23 @@ export class AuthHandler {
    *   data: { username: 'johndoe' },
    *   files: { avatar: avatarFile, cover_photo: coverFile }
    * });
+   *
+   * // Only accept small images as avatars
+   * await db.auth.registerWithFiles(
+   *   { email, password, files: { avatar: avatarFile } },
+   *   { rules: { avatar: { maxSize: 1024 * 1024, accept: 'image/*' } } }
+   * );
    * ```
    */
   async registerWithFiles(
     params: RegisterWithFilesParams,
+    options: WithFilesOptions = {},
   ): Promise<LoginResult> {
     const { email, password, data, roles, files } = params;
+    const { rules, ...uploadOptions } = options;
+    if (files && rules) {
+      await validateFiles(files, rules);
+    }
     const formData = new FormData();
 
     // Add JSON data
@@ -546,27 +1275,21 @@ export class AuthHandler {
       }
     }
 
-    const url = `${this.baseURL}/auth-collections/signup`;
-    const res = await fetch(url, {
+    const response = await this.transport.request<TokenResponse>({
       method: "POST",
-      headers: {
-        ...(this.apiKey ? { "x-api-key": `${this.apiKey}` } : {}),
-      },
+      url: "/auth-collections/signup",
+      headers: {},
       body: formData,
+      ...uploadOptions,
     });
 
-    if (!res.ok) {
-      const errorText = await res.text();
-      throw new Error(`Registration failed: ${errorText}`);
-    }
-
-    const response = (await res.json()) as TokenResponse;
-
     // Check if 2FA is required
     if (response.requires_2fa) {
+      this.setStatus("awaiting_2fa");
       return {
         requires_2fa: true,
         message: response.message,
+        challenge: this.createChallenge(email, response),
       };
     }
 
@@ -576,6 +1299,7 @@ export class AuthHandler {
 
     // Trigger register callback
     this.callbacks.onRegister?.(response.user!, response.access_token!);
+    this.broadcast({ event: "login", token: this.token, user: this.user });
 
     return {
       requires_2fa: false,
@@ -593,13 +1317,8 @@ export class AuthHandler {
    * ```
    */
   logout() {
-    this.token = undefined;
-    this.user = undefined;
-    // Clear local storage
-    if (typeof localStorage !== "undefined") {
-      localStorage.removeItem("cocobase-token");
-      localStorage.removeItem("cocobase-user");
-    }
+    this.clearSession();
+    this.broadcast({ event: "logout" });
 
     // Trigger logout callback
     this.callbacks.onLogout?.();
@@ -626,6 +1345,7 @@ export class AuthHandler {
   /**
    * Fetches the current authenticated user's data from the server.
    *
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    * @returns Promise resolving to the current user object
    *
    * @example
@@ -634,13 +1354,19 @@ export class AuthHandler {
    * console.log('Current user:', user.email);
    * ```
    */
-  async getCurrentUser(): Promise<AppUser> {
+  async getCurrentUser(options?: RequestOptions): Promise<AppUser> {
     if (!this.token) {
-      throw new Error("User is not authenticated");
+      throw new AuthError("User is not authenticated");
     }
-    const user = await this.request("GET", `/auth-collections/user`);
+    const user = await this.request(
+      "GET",
+      `/auth-collections/user`,
+      undefined,
+      true,
+      options,
+    );
     if (!user) {
-      throw new Error("Failed to fetch current user");
+      throw new CocobaseError("Failed to fetch current user");
     }
     this.user = user as AppUser;
     this.setUser(user as AppUser);
@@ -651,6 +1377,7 @@ export class AuthHandler {
    * Updates the current user's profile data.
    *
    * @param params - Update parameters
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    * @returns Promise resolving to the updated user object
    *
    * @example
@@ -666,10 +1393,13 @@ export class AuthHandler {
    * await db.auth.updateUser({ password: 'newpassword123' });
    * ```
    */
-  async updateUser(params: UpdateUserParams): Promise<AppUser> {
+  async updateUser(
+    params: UpdateUserParams,
+    options?: RequestOptions,
+  ): Promise<AppUser> {
     const { data, email, password } = params;
     if (!this.token) {
-      throw new Error("User is not authenticated");
+      throw new AuthError("User is not authenticated");
     }
 
     // Build request body by excluding null or undefined values
@@ -683,6 +1413,7 @@ export class AuthHandler {
       "/auth-collections/user",
       body,
       false,
+      options,
     );
 
     this.user = user as AppUser;
@@ -697,7 +1428,11 @@ export class AuthHandler {
   /**
    * Update current user with file uploads
    *
+   * Pass `onProgress` to follow the upload and `signal` to cancel it. Pass
+   * `rules` to check the files first, as with `registerWithFiles`.
+   *
    * @param params - Update parameters with files
+   * @param options - Optional per-call options (signal, timeoutMs, retry, onProgress, rules)
    *
    * @example
    * ```typescript
@@ -722,10 +1457,15 @@ export class AuthHandler {
    */
   async updateUserWithFiles(
     params: UpdateUserWithFilesParams,
+    options: WithFilesOptions = {},
   ): Promise<AppUser> {
     const { data, email, password, files } = params;
+    const { rules, ...uploadOptions } = options;
     if (!this.token) {
-      throw new Error("User is not authenticated");
+      throw new AuthError("User is not authenticated");
+    }
+    if (files && rules) {
+      await validateFiles(files, rules);
     }
 
     const formData = new FormData();
@@ -754,21 +1494,13 @@ export class AuthHandler {
       }
     }
 
-    const url = `${this.baseURL}/auth-collections/user`;
-    const res = await fetch(url, {
+    const user = await this.transport.request<AppUser>({
       method: "PATCH",
-      headers: {
-        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
-      },
+      url: "/auth-collections/user",
+      headers: {},
       body: formData,
+      ...uploadOptions,
     });
-
-    if (!res.ok) {
-      const errorText = await res.text();
-      throw new Error(`User update failed: ${errorText}`);
-    }
-
-    const user = (await res.json()) as AppUser;
     this.user = user;
     this.setUser(user);
 
@@ -793,7 +1525,7 @@ export class AuthHandler {
    */
   hasRole(role: string): boolean {
     if (!this.user) {
-      throw new Error("User is not authenticated");
+      throw new AuthError("User is not authenticated");
     }
     return this.user.roles.includes(role);
   }
@@ -803,6 +1535,7 @@ export class AuthHandler {
    *
    * @template T - The type of user data
    * @param query - Optional query parameters for filtering, sorting, and pagination
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    * @returns Promise resolving to a list of users
    *
    * @example
@@ -813,19 +1546,51 @@ export class AuthHandler {
    * });
    * ```
    */
-  listUsers<T = any>(query?: Query): Promise<AppUserList> {
+  listUsers<T = any>(
+    query?: Query,
+    options?: RequestOptions,
+  ): Promise<AppUserList> {
     const query_str = buildFilterQuery(query);
     const url = `/auth-collections/users${query_str ? `?${query_str}` : ""}`;
     console.log("request going to ", url);
-    return this.request<AppUserList>("GET", url);
+    return this.request<AppUserList>("GET", url, undefined, true, options);
+  }
+
+  /**
+   * Iterates over every user matching a query, following `has_more`.
+   *
+   * @param query - Optional query parameters; `offset` sets where to start
+   * @param options - Page size, prefetch concurrency, item cap and request options
+   * @returns Async iterable of users; call `.pages()` to iterate page by page
+   *
+   * @example
+   * ```typescript
+   * for await (const user of db.auth.iterateUsers({ filters: { status: 'active' } })) {
+   *   console.log(user.email);
+   * }
+   * ```
+   */
+  iterateUsers(query?: Query, options?: IterateOptions): Paginator<AppUser> {
+    return new Paginator<AppUser>(
+      async (offset, limit, requestOptions) => {
+        const page = await this.listUsers(
+          { ...query, offset, limit },
+          requestOptions,
+        );
+        return { items: page.data, hasMore: page.has_more };
+      },
+      query,
+      options,
+    );
   }
 
-  requestPasswordReset(email: string): Promise<any> {
+  requestPasswordReset(email: string, options?: RequestOptions): Promise<any> {
     return this.request(
       "POST",
       "/auth-collections/forgot-password",
       { email },
       false,
+      options,
     );
   }
 
@@ -834,6 +1599,7 @@ export class AuthHandler {
    *
    * @template T - The type of user data
    * @param userId - Unique ID of the user
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    * @returns Promise resolving to the user object
    *
    * @example
@@ -842,8 +1608,17 @@ export class AuthHandler {
    * console.log('User:', user.email);
    * ```
    */
-  getUserById<T = any>(userId: string): Promise<AppUser> {
-    return this.request<AppUser>("GET", `/auth-collections/users/${userId}`);
+  getUserById<T = any>(
+    userId: string,
+    options?: RequestOptions,
+  ): Promise<AppUser> {
+    return this.request<AppUser>(
+      "GET",
+      `/auth-collections/users/${userId}`,
+      undefined,
+      true,
+      options,
+    );
   }
 
   // ADDITIONAL SECURITY METHODS
@@ -859,12 +1634,13 @@ export class AuthHandler {
    * console.log('2FA enabled for user');
    * ```
    */
-  enable2FA(): Promise<void> {
+  enable2FA(options?: RequestOptions): Promise<void> {
     return this.request<void>(
       "POST",
       `/auth-collections/2fa/enable`,
       {},
       false,
+      options,
     );
   }
 
@@ -879,12 +1655,70 @@ export class AuthHandler {
    * console.log('2FA disabled for user');
    * ```
    */
-  disable2FA(): Promise<void> {
+  disable2FA(options?: RequestOptions): Promise<void> {
     return this.request<void>(
       "POST",
       `/auth-collections/2fa/disable`,
       {},
       false,
+      options,
+    );
+  }
+
+  /**
+   * Starts enrolling an authenticator app (TOTP) as the current user's second factor.
+   *
+   * Show `otpauth_uri` as a QR code (or `secret` for manual entry), then call
+   * `confirmTOTP` with a code from the app to turn it on.
+   *
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise resolving to the secret and otpauth URI
+   *
+   * @example
+   * ```typescript
+   * const { secret, otpauth_uri } = await db.auth.enrollTOTP();
+   * renderQRCode(otpauth_uri);
+   * ```
+   */
+  enrollTOTP(options?: RequestOptions): Promise<TOTPEnrollment> {
+    if (!this.token) {
+      return Promise.reject(new AuthError("User is not authenticated"));
+    }
+    return this.request<TOTPEnrollment>(
+      "POST",
+      `/auth-collections/2fa/totp/enroll`,
+      {},
+      false,
+      options,
+    );
+  }
+
+  /**
+   * Finishes authenticator app enrollment with a code from the app.
+   *
+   * @param code - Current 6-digit code shown by the authenticator app
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise resolving to recovery codes; show them to the user once
+   *
+   * @example
+   * ```typescript
+   * const { recovery_codes } = await db.auth.confirmTOTP('123456');
+   * showRecoveryCodes(recovery_codes);
+   * ```
+   */
+  confirmTOTP(
+    code: string,
+    options?: RequestOptions,
+  ): Promise<TOTPConfirmation> {
+    if (!this.token) {
+      return Promise.reject(new AuthError("User is not authenticated"));
+    }
+    return this.request<TOTPConfirmation>(
+      "POST",
+      `/auth-collections/2fa/totp/confirm`,
+      { code },
+      false,
+      options,
     );
   }
 
@@ -899,7 +1733,7 @@ export class AuthHandler {
    * console.log('2FA code sent to user');
    * ```
    */
-  send2FACode(email: string): Promise<void> {
+  send2FACode(email: string, options?: RequestOptions): Promise<void> {
     return this.request<void>(
       "POST",
       `/auth-collections/2fa/send-code`,
@@ -907,6 +1741,7 @@ export class AuthHandler {
         email,
       },
       false,
+      options,
     );
   }
 
@@ -915,6 +1750,7 @@ export class AuthHandler {
    * Call this after login() returns requires_2fa: true and the user provides the 2FA code.
    *
    * @param params - 2FA verification parameters
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    * @returns Promise resolving to the authenticated user
    *
    * @example
@@ -929,13 +1765,17 @@ export class AuthHandler {
    * }
    * ```
    */
-  async verify2FALogin(params: Verify2FAParams): Promise<AppUser> {
+  async verify2FALogin(
+    params: Verify2FAParams,
+    options?: RequestOptions,
+  ): Promise<AppUser> {
     const { email, code } = params;
     const response = await this.request<TwoFAVerifyResponse>(
       "POST",
       `/auth-collections/2fa/verify`,
       { email, code },
       false,
+      options,
     );
 
     this.token = response.access_token;
@@ -944,6 +1784,7 @@ export class AuthHandler {
 
     // Trigger login callback
     this.callbacks.onLogin?.(response.user, response.access_token);
+    this.broadcast({ event: "login", token: this.token, user: this.user });
 
     return response.user;
   }
@@ -959,12 +1800,13 @@ export class AuthHandler {
    * console.log('Verification email requested');
    * ```
    */
-  requestEmailVerification(): Promise<Response> {
+  requestEmailVerification(options?: RequestOptions): Promise<Response> {
     return this.request<Response>(
       "POST",
       `/auth-collections/verify-email/send`,
       {},
       false,
+      options,
     );
   }
 
@@ -972,6 +1814,7 @@ export class AuthHandler {
    * Verifies the user's email using the provided token.
    *
    * @param token - Verification token
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    * @returns Promise that resolves when the email is verified
    *
    * @example
@@ -980,12 +1823,13 @@ export class AuthHandler {
    * console.log('Email verified');
    * ```
    */
-  verifyEmail(token: string): Promise<Response> {
+  verifyEmail(token: string, options?: RequestOptions): Promise<Response> {
     return this.request<Response>(
       "POST",
       `/auth-collections/verify-email/verify`,
       { token },
       false,
+      options,
     );
   }
 
@@ -999,12 +1843,13 @@ export class AuthHandler {
    * console.log('Verification email resent');
    * ```
    */
-  resendVerificationEmail(): Promise<void> {
+  resendVerificationEmail(options?: RequestOptions): Promise<void> {
     return this.request<void>(
       "POST",
       `/auth-collections/verify-email/resend`,
       {},
       false,
+      options,
     );
   }
 }
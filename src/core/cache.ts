@@ -0,0 +1,270 @@
+import { RequestOptions, abortReason } from "./transport.js";
+
+/**
+ * Options for the client-side query cache.
+ */
+export interface QueryCacheOptions {
+  /** How long a result is served without refetching, in milliseconds (default: 30000) */
+  ttlMs?: number;
+  /**
+   * How long after `ttlMs` an expired result may still be served while it is
+   * refreshed in the background, in milliseconds (default: 0)
+   */
+  staleWhileRevalidateMs?: number;
+  /** Maximum number of cached results; the least recently used is evicted first (default: 100) */
+  maxEntries?: number;
+}
+
+/**
+ * Request options for cached read methods.
+ */
+export interface CachedRequestOptions extends RequestOptions {
+  /**
+   * Set to `false` to skip the cached result for this call. The fresh result
+   * still replaces the cached one.
+   */
+  cache?: boolean;
+}
+
+/**
+ * Counters describing how the cache has been used.
+ */
+export interface QueryCacheStats {
+  /** Fresh results served from the cache */
+  hits: number;
+  /** Expired results served while being revalidated */
+  staleHits: number;
+  /** Lookups that went to the server */
+  misses: number;
+  /** Entries dropped to stay within `maxEntries` */
+  evictions: number;
+  /** Entries dropped by `invalidate()` and mutations */
+  invalidations: number;
+  /** Background refreshes started for stale entries */
+  revalidations: number;
+  /** Number of entries currently cached */
+  size: number;
+  /** Share of lookups answered from the cache (0 to 1) */
+  hitRate: number;
+}
+
+interface CacheEntry {
+  collection: string;
+  value: unknown;
+  storedAt: number;
+}
+
+/**
+ * In-memory cache for read queries, keyed by collection and query string.
+ *
+ * Enable it with the `cache` config option; the client then serves
+ * `listDocuments`, `countDocuments` and `aggregateDocuments` from the cache and
+ * drops a collection's entries whenever a document in it is created, updated
+ * or deleted through the client.
+ *
+ * Cached values are shared between callers, so treat them as read-only.
+ *
+ * @example
+ * ```typescript
+ * const db = new Cocobase({
+ *   apiKey: 'your-api-key',
+ *   cache: { ttlMs: 60_000, staleWhileRevalidateMs: 300_000, maxEntries: 200 }
+ * });
+ *
+ * await db.listDocuments('posts', { limit: 10 }); // network
+ * await db.listDocuments('posts', { limit: 10 }); // cache
+ *
+ * console.log(db.cache?.stats());
+ * ```
+ */
+export class QueryCache {
+  private ttlMs: number;
+  private staleWhileRevalidateMs: number;
+  private maxEntries: number;
+  private entries = new Map<string, CacheEntry>();
+  private pending = new Map<string, Promise<unknown>>();
+  // Bumped on invalidation so requests started earlier don't store stale results
+  private generations = new Map<string, number>();
+  private epoch = 0;
+  private counters = {
+    hits: 0,
+    staleHits: 0,
+    misses: 0,
+    evictions: 0,
+    invalidations: 0,
+    revalidations: 0,
+  };
+
+  constructor(options: QueryCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 30000;
+    this.staleWhileRevalidateMs = options.staleWhileRevalidateMs ?? 0;
+    this.maxEntries = Math.max(1, options.maxEntries ?? 100);
+  }
+
+  /**
+   * Returns the cached result for a key, or loads and caches it.
+   *
+   * Concurrent misses for the same key share one load. Failed loads are not
+   * cached. Since the load is shared, it should not depend on one caller's
+   * signal: pass the caller's `signal` here instead, so aborting it only
+   * rejects that caller.
+   *
+   * @param collection - Collection the result belongs to, used for invalidation
+   * @param key - Cache key, unique per query within the collection
+   * @param load - Loads the result from the server
+   * @param useCached - Set to false to skip the cached result (default: true)
+   * @param signal - Aborts this caller's wait for the result
+   * @returns Promise resolving to the cached or loaded result
+   */
+  async fetch<T>(
+    collection: string,
+    key: string,
+    load: () => Promise<T>,
+    useCached: boolean = true,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (signal?.aborted) {
+      throw abortReason(signal);
+    }
+    const cacheKey = `${collection}\u0000${key}`;
+    const entry = this.entries.get(cacheKey);
+
+    if (useCached && entry) {
+      const age = Date.now() - entry.storedAt;
+      if (age < this.ttlMs) {
+        this.counters.hits++;
+        this.touch(cacheKey, entry);
+        return entry.value as T;
+      }
+      if (age < this.ttlMs + this.staleWhileRevalidateMs) {
+        this.counters.staleHits++;
+        this.touch(cacheKey, entry);
+        if (!this.pending.has(cacheKey)) {
+          this.counters.revalidations++;
+          // Keep serving the stale value if the refresh fails
+          this.load(collection, cacheKey, load).catch(() => {});
+        }
+        return entry.value as T;
+      }
+    }
+
+    this.counters.misses++;
+    const pending = useCached ? this.pending.get(cacheKey) : undefined;
+    return abortable(
+      (pending ?? this.load(collection, cacheKey, load)) as Promise<T>,
+      signal
+    );
+  }
+
+  /**
+   * Drops cached results.
+   *
+   * @param collection - Only drop this collection's results (default: all)
+   */
+  invalidate(collection?: string): void {
+    for (const [key, entry] of this.entries) {
+      if (collection === undefined || entry.collection === collection) {
+        this.entries.delete(key);
+        this.counters.invalidations++;
+      }
+    }
+    if (collection === undefined) {
+      this.epoch++;
+    } else {
+      this.generations.set(collection, this.generation(collection) + 1);
+    }
+    for (const key of this.pending.keys()) {
+      if (collection === undefined || key.startsWith(`${collection}\u0000`)) {
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drops every cached result and resets the statistics.
+   */
+  clear(): void {
+    this.invalidate();
+    this.resetStats();
+  }
+
+  /**
+   * Returns usage statistics, for tuning `ttlMs` and `maxEntries`.
+   */
+  stats(): QueryCacheStats {
+    const { hits, staleHits, misses } = this.counters;
+    const lookups = hits + staleHits + misses;
+    return {
+      ...this.counters,
+      size: this.entries.size,
+      hitRate: lookups === 0 ? 0 : (hits + staleHits) / lookups,
+    };
+  }
+
+  /**
+   * Resets the statistics counters.
+   */
+  resetStats(): void {
+    for (const name of Object.keys(this.counters)) {
+      this.counters[name as keyof typeof this.counters] = 0;
+    }
+  }
+
+  private async load<T>(
+    collection: string,
+    cacheKey: string,
+    load: () => Promise<T>
+  ): Promise<T> {
+    const epoch = this.epoch;
+    const generation = this.generation(collection);
+    const promise = load();
+    this.pending.set(cacheKey, promise);
+    try {
+      const value = await promise;
+      if (this.epoch === epoch && this.generation(collection) === generation) {
+        this.store(collection, cacheKey, value);
+      }
+      return value;
+    } finally {
+      if (this.pending.get(cacheKey) === promise) {
+        this.pending.delete(cacheKey);
+      }
+    }
+  }
+
+  private store(collection: string, cacheKey: string, value: unknown): void {
+    this.entries.delete(cacheKey);
+    this.entries.set(cacheKey, { collection, value, storedAt: Date.now() });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.counters.evictions++;
+    }
+  }
+
+  // Moves an entry to the most recently used position
+  private touch(cacheKey: string, entry: CacheEntry): void {
+    this.entries.delete(cacheKey);
+    this.entries.set(cacheKey, entry);
+  }
+
+  private generation(collection: string): number {
+    return this.generations.get(collection) ?? 0;
+  }
+}
+
+/**
+ * Rejects when `signal` aborts, without cancelling the underlying promise.
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() =>
+      signal.removeEventListener("abort", onAbort)
+    );
+  });
+}
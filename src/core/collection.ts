@@ -0,0 +1,208 @@
+import type {
+  AggregateParams,
+  AggregateResults,
+  Document,
+  Query,
+} from "../types/types.js";
+import type { RequestOptions } from "./transport.js";
+import type { CachedRequestOptions } from "./cache.js";
+import type { IterateOptions, Paginator } from "../utils/pagination.js";
+import type { CollectionWatcher } from "../realtime/websockets.js";
+import type { Cocobase } from "./core.js";
+
+/**
+ * A collection bound to a name and a document type.
+ *
+ * Returned by `db.collection<T>(name)`. Every method delegates to the
+ * matching `Cocobase` method, so the collection name and document type only
+ * have to be declared once.
+ *
+ * @template T - The type of the document data
+ *
+ * @example
+ * ```typescript
+ * interface Post {
+ *   title: string;
+ *   published: boolean;
+ * }
+ *
+ * const posts = db.collection<Post>('posts');
+ *
+ * const post = await posts.create({ title: 'Hello', published: false });
+ * await posts.update(post.id, { published: true });
+ *
+ * const published = await posts.list({ filters: { published: true } });
+ * published.forEach((doc) => console.log(doc.data.title));
+ * ```
+ */
+export class CollectionHandle<T = any> {
+  /** Name of the collection */
+  readonly name: string;
+  private client: Cocobase;
+
+  /**
+   * Creates a new collection handle. Use `db.collection<T>(name)` instead.
+   *
+   * @param client - Cocobase client the handle delegates to
+   * @param name - Collection name
+   */
+  constructor(client: Cocobase, name: string) {
+    this.client = client;
+    this.name = name;
+  }
+
+  /**
+   * Retrieves a single document by ID.
+   *
+   * @param docId - Unique ID of the document
+   * @param options - Optional per-call request options
+   * @returns Promise resolving to the document
+   */
+  get(docId: string, options?: RequestOptions): Promise<Document<T>> {
+    return this.client.getDocument<T>(this.name, docId, options);
+  }
+
+  /**
+   * Lists documents with optional filtering, sorting and pagination.
+   *
+   * @param query - Optional query parameters
+   * @param options - Optional per-call request options
+   * @returns Promise resolving to an array of documents
+   */
+  list(query?: Query, options?: CachedRequestOptions): Promise<Document<T>[]> {
+    return this.client.listDocuments<T>(this.name, query, options);
+  }
+
+  /**
+   * Iterates over every document matching the query, fetching pages on demand.
+   *
+   * @param query - Optional query parameters
+   * @param options - Page size, prefetch concurrency, item cap and request options
+   * @returns Async iterable of documents
+   */
+  iterate(query?: Query, options?: IterateOptions): Paginator<Document<T>> {
+    return this.client.iterateDocuments<T>(this.name, query, options);
+  }
+
+  /**
+   * Creates a new document.
+   *
+   * @param data - Document data to store
+   * @param options - Optional per-call request options
+   * @returns Promise resolving to the created document
+   */
+  create(data: T, options?: RequestOptions): Promise<Document<T>> {
+    return this.client.createDocument<T>(this.name, data, options);
+  }
+
+  /**
+   * Updates an existing document.
+   *
+   * @param docId - Unique ID of the document to update
+   * @param data - Fields to update
+   * @param options - Optional per-call request options
+   * @returns Promise resolving to the updated document
+   */
+  update(
+    docId: string,
+    data: Partial<T>,
+    options?: RequestOptions
+  ): Promise<Document<T>> {
+    return this.client.updateDocument<T>(this.name, docId, data, options);
+  }
+
+  /**
+   * Deletes a document.
+   *
+   * @param docId - Unique ID of the document to delete
+   * @param options - Optional per-call request options
+   * @returns Promise resolving to a success status object
+   */
+  delete(
+    docId: string,
+    options?: RequestOptions
+  ): Promise<{ success: boolean }> {
+    return this.client.deleteDocument(this.name, docId, options);
+  }
+
+  /**
+   * Counts documents matching the query.
+   *
+   * @param query - Optional query parameters
+   * @param options - Optional per-call request options
+   * @returns Promise resolving to the count
+   */
+  count(
+    query?: Query,
+    options?: CachedRequestOptions
+  ): Promise<{ count: number }> {
+    return this.client.countDocuments(this.name, query, options);
+  }
+
+  /**
+   * Runs an aggregation over a field.
+   *
+   * @param params - Field, operation and optional query
+   * @param options - Optional per-call request options
+   * @returns Promise resolving to the aggregation result
+   */
+  aggregate(
+    params: AggregateParams & { field: keyof T & string },
+    options?: CachedRequestOptions
+  ): Promise<AggregateResults> {
+    return this.client.aggregateDocuments(this.name, params, options);
+  }
+
+  /**
+   * Creates several documents in one request.
+   *
+   * @param documents - Documents to create
+   * @param options - Optional per-call request options
+   * @returns Promise resolving to the created documents
+   */
+  createMany(
+    documents: T[],
+    options?: RequestOptions
+  ): Promise<Document<T>[]> {
+    return this.client.createDocuments<T>(this.name, documents, options);
+  }
+
+  /**
+   * Updates several documents in one request.
+   *
+   * @param updates - Object mapping document IDs to the fields to update
+   * @param options - Optional per-call request options
+   * @returns Promise resolving to the updated documents
+   */
+  updateMany(
+    updates: Record<string, Partial<T>>,
+    options?: RequestOptions
+  ): Promise<Document<T>[]> {
+    return this.client.updateDocuments<T>(this.name, updates, options);
+  }
+
+  /**
+   * Deletes several documents in one request.
+   *
+   * @param docIds - IDs of the documents to delete
+   * @param options - Optional per-call request options
+   * @returns Promise resolving to the batch status
+   */
+  deleteMany(
+    docIds: string[],
+    options?: RequestOptions
+  ): Promise<{ status: string; message: string; count: number }> {
+    return this.client.deleteDocuments(this.name, docIds, options);
+  }
+
+  /**
+   * Creates a realtime watcher for this collection.
+   * Call `connect()` on the returned watcher to start receiving events.
+   *
+   * @param filters - Optional filters for the events to receive
+   * @returns CollectionWatcher instance
+   */
+  watch(filters?: Record<string, any>): CollectionWatcher {
+    return this.client.realtime.collection(this.name, filters);
+  }
+}
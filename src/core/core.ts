@@ -25,6 +25,18 @@ import {
 } from "../utils/utils.js";
 import { CloudFunction } from "./functions.js";
 import AuthHandler from "./auth.js";
+import {
+  FileHandler,
+  UpdateWithFilesOptions,
+  WithFilesOptions,
+} from "./files.js";
+import { HttpTransport, RequestOptions } from "./transport.js";
+import { validateFiles } from "./validation.js";
+import { CollectionHandle } from "./collection.js";
+import { IterateOptions, Paginator } from "../utils/pagination.js";
+import { CachedRequestOptions, QueryCache } from "./cache.js";
+import { DocumentLoader } from "./loader.js";
+import { MutationInput, OfflineQueue } from "./offline.js";
 import {
   CollectionWatcher,
   ProjectBroadcast,
@@ -70,6 +82,28 @@ export class Cocobase {
   projectId?: string;
   functions: CloudFunction;
   auth: AuthHandler;
+  /**
+   * File storage. Use `db.files.resume(file)` for chunked, resumable uploads of large files.
+   */
+  files: FileHandler;
+  /**
+   * Shared HTTP transport used by every request this client makes.
+   * Register interceptors on `db.transport.interceptors` to add headers, log or rewrite requests.
+   */
+  transport: HttpTransport;
+  /**
+   * Query result cache, present when the `cache` config option is set.
+   * Call `db.cache.stats()` to tune it or `db.cache.invalidate()` to drop results.
+   */
+  cache?: QueryCache;
+  /**
+   * Offline mutation queue, present when the `offline` config option is set.
+   * Listen for `synced`, `conflict` and `failed` events with `db.offline.on(...)`.
+   */
+  offline?: OfflineQueue;
+  private dedupeRequests: boolean;
+  private inflight = new Map<string, Promise<unknown>>();
+  private loader?: DocumentLoader;
   /**
    * Realtime helper factories. Use `db.realtime.collection(...)`, `db.realtime.broadcast(...)`, `db.realtime.room(...)`, `db.realtime.game(...)`, or `db.realtime.listRooms()`.
    */
@@ -80,7 +114,7 @@ export class Cocobase {
     ) => CollectionWatcher;
     broadcast: (userId?: string, userName?: string) => ProjectBroadcast;
     room: (roomId: string, userId?: string, userName?: string) => RoomChat;
-    listRooms: () => Promise<any>;
+    listRooms: (options?: RequestOptions) => Promise<any>;
     /**
      * Create a multiplayer game client for WebSocket-based games.
      *
@@ -112,6 +146,7 @@ export class Cocobase {
      * List available game rooms for discovery.
      *
      * @param publicOnly - Only list public rooms (default: true)
+     * @param options - Optional per-call request options (signal, timeoutMs, retry)
      * @returns Promise resolving to room list
      *
      * @example
@@ -122,7 +157,10 @@ export class Cocobase {
      * });
      * ```
      */
-    listGameRooms: (publicOnly?: boolean) => Promise<RoomListResponse>;
+    listGameRooms: (
+      publicOnly?: boolean,
+      options?: RequestOptions
+    ) => Promise<RoomListResponse>;
   };
   /**
    * Creates a new Cocobase client instance.
@@ -131,6 +169,12 @@ export class Cocobase {
    * @param config.apiKey - Your Cocobase API key (required for most operations)
    * @param config.projectId - Your Cocobase project ID (required for cloud functions)
    * @param config.baseURL - Optional custom base URL (defaults to https://api.cocobase.buzz)
+   * @param config.fetch - Optional custom fetch implementation
+   * @param config.interceptors - Optional request/response/error interceptors
+   * @param config.cache - Optional query result cache for list, count and aggregate calls
+   * @param config.dedupeRequests - Share identical concurrent GET requests (default: false)
+   * @param config.batchGetDocument - Batch same-tick `getDocument` calls (default: false)
+   * @param config.offline - Optional offline queue for document writes
    *
    * @example
    * ```typescript
@@ -144,10 +188,68 @@ export class Cocobase {
     this.baseURL = config.baseURL ?? BASEURL;
     this.apiKey = config.apiKey;
     this.projectId = config.projectId;
-    this.auth = new AuthHandler(config);
+    this.transport = new HttpTransport({
+      baseURL: this.baseURL,
+      headers: () => {
+        const token = this.auth.getToken();
+        return {
+          ...(this.apiKey ? { "x-api-key": `${this.apiKey}` } : {}),
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        };
+      },
+      fetch: config.fetch,
+      interceptors: config.interceptors,
+      retry: config.retry,
+      timeoutMs: config.timeoutMs,
+    });
+    if (config.cache) {
+      this.cache = new QueryCache(config.cache === true ? {} : config.cache);
+    }
+    if (config.offline) {
+      this.offline = new OfflineQueue(
+        (mutation, options) => this.sendMutation(mutation, options),
+        config.offline === true ? {} : config.offline,
+        config.storageKeyPrefix
+      );
+      this.offline.on("synced", ({ mutation }) =>
+        this.cache?.invalidate(mutation.collection)
+      );
+    }
+    this.dedupeRequests = config.dedupeRequests ?? false;
+    if (config.batchGetDocument) {
+      this.loader = new DocumentLoader(
+        (collection, ids) =>
+          this.request<Document<any>[]>(
+            "GET",
+            `/collections/${collection}/documents?${buildFilterQuery({
+              filters: { id_in: ids.join(",") },
+              limit: ids.length,
+            })}`
+          ),
+        (collection, id) =>
+          this.request<Document<any>>(
+            "GET",
+            `/collections/${collection}/documents/${id}`
+          ),
+        config.batchGetDocument === true ? {} : config.batchGetDocument
+      );
+    }
+    this.auth = new AuthHandler(config, this.transport);
+    if (this.cache) {
+      // Drop the previous session's results on login, logout, refresh or switch
+      let token = this.auth.getToken();
+      this.auth.subscribe((state) => {
+        if (state.token !== token) {
+          token = state.token;
+          this.cache?.invalidate();
+        }
+      });
+    }
+    this.files = new FileHandler(config, this.transport);
     this.functions = new CloudFunction(
       config.projectId || "project id required",
-      () => this.auth.getToken()
+      () => this.auth.getToken(),
+      this.transport
     );
     // realtime factories bound to this client configuration
     this.realtime = {
@@ -157,15 +259,22 @@ export class Cocobase {
         new ProjectBroadcast(this.apiKey || "", userId, userName),
       room: (roomId: string, userId?: string, userName?: string) =>
         new RoomChat(roomId, this.apiKey || "", userId, userName),
-      listRooms: async () => listRooms(this.apiKey || ""),
+      listRooms: async (options?: RequestOptions) =>
+        listRooms(this.apiKey || "", this.transport, options),
       game: (functionName: string) =>
         new GameClient(
           this.projectId || "",
           functionName,
           this.auth.getToken()
         ),
-      listGameRooms: (publicOnly = true) =>
-        listGameRooms(this.projectId || "", this.apiKey, publicOnly),
+      listGameRooms: (publicOnly = true, options?: RequestOptions) =>
+        listGameRooms(
+          this.projectId || "",
+          this.apiKey,
+          publicOnly,
+          this.transport,
+          options
+        ),
     };
   }
 
@@ -174,79 +283,156 @@ export class Cocobase {
     method: "GET" | "POST" | "PATCH" | "DELETE",
     path: string,
     body?: unknown,
-    useDataKey: boolean = true
+    useDataKey: boolean = true,
+    options: RequestOptions = {}
   ): Promise<T> {
-    const url = `${this.baseURL}${path}`;
     const data = useDataKey ? { data: body } : body;
-    try {
-      const res = await fetch(url, {
+    const send = () =>
+      this.transport.request<T>({
         method,
-        headers: {
-          "Content-Type": "application/json",
-          ...(this.apiKey ? { "x-api-key": `${this.apiKey}` } : {}),
-          ...(this.auth.getToken()
-            ? { Authorization: `Bearer ${this.auth.getToken()}` }
-            : {}),
-        },
-        ...(body ? { body: JSON.stringify(data) } : {}),
+        url: path,
+        headers: {},
+        ...(body ? { body: data } : {}),
+        ...options,
       });
 
-      if (!res.ok) {
-        const errorText = await res.text();
-        let errorDetail;
-        try {
-          errorDetail = JSON.parse(errorText);
-        } catch {
-          errorDetail = errorText;
-        }
+    // Requests with their own options may be cancelled, time out or retry
+    // differently from the one they would share, so they are never shared
+    if (
+      method !== "GET" ||
+      !this.dedupeRequests ||
+      options.signal ||
+      options.timeoutMs !== undefined ||
+      options.retry !== undefined
+    ) {
+      return send();
+    }
+    // Requests made with different tokens may get different responses
+    const key = `${this.auth.getToken() ?? ""}\u0000${path}`;
+    const pending = this.inflight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+    const promise = send().finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+    return promise;
+  }
 
-        const errorMessage = {
-          statusCode: res.status,
-          url,
-          method,
-          error: errorDetail,
-          suggestions: this.getErrorSuggestion(res.status, method),
-        };
+  /**
+   * Serves a read from the query cache when it is enabled.
+   *
+   * Results are keyed by session, so one user is never served another's.
+   */
+  private cached<T>(
+    collection: string,
+    key: string,
+    options: CachedRequestOptions = {},
+    load: (options: RequestOptions) => Promise<T>
+  ): Promise<T> {
+    const { cache, ...requestOptions } = options;
+    if (!this.cache) {
+      return load(requestOptions);
+    }
+    // The load is shared with concurrent callers, so each applies its own signal
+    const { signal, ...sharedOptions } = requestOptions;
+    return this.cache.fetch(
+      collection,
+      `${this.auth.getToken() ?? ""}\u0000${key}`,
+      () => load(sharedOptions),
+      cache !== false,
+      signal
+    );
+  }
 
-        throw new Error(
-          `Request failed:\n${JSON.stringify(errorMessage, null, 2)}`
-        );
-      }
+  /**
+   * Runs a write and drops the collection's cached query results.
+   */
+  private async mutate<T>(
+    collection: string,
+    run: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await run();
+    } finally {
+      this.cache?.invalidate(collection);
+    }
+  }
 
-      return res.json() as Promise<T>;
-    } catch (error) {
-      if (error instanceof Error) {
-        throw error;
-      }
-      throw new Error(
-        `Unexpected error during ${method} request to ${url}: ${error}`
-      );
+  /**
+   * Sends a document write, through the offline queue when it is enabled.
+   */
+  private write<T>(
+    mutation: MutationInput,
+    options?: RequestOptions
+  ): Promise<T> {
+    if (this.offline) {
+      return this.offline.submit<T>(mutation, options);
     }
+    return this.sendMutation(mutation, options) as Promise<T>;
   }
 
-  private getErrorSuggestion(status: number, method: string): string {
-    switch (status) {
-      case 401:
-        return "Check if your API key is valid and properly set";
-      case 403:
-        return "You don't have permission to perform this action. Verify your access rights";
-      case 404:
-        return "The requested resource was not found. Verify the path and ID are correct";
-      case 405:
-        return `The ${method} method is not allowed for this endpoint. Check the API documentation for supported methods`;
-      case 429:
-        return "You've exceeded the rate limit. Please wait before making more requests";
-      default:
-        return "Check the API documentation and verify your request format";
+  private sendMutation(
+    mutation: MutationInput,
+    options?: RequestOptions
+  ): Promise<unknown> {
+    switch (mutation.type) {
+      case "create":
+        return this.request(
+          "POST",
+          `/collections/documents?collection=${mutation.collection}`,
+          mutation.data,
+          true,
+          options
+        );
+      case "update":
+        return this.request(
+          "PATCH",
+          `/collections/${mutation.collection}/documents/${mutation.docId}`,
+          mutation.data,
+          true,
+          options
+        );
+      case "delete":
+        return this.request(
+          "DELETE",
+          `/collections/${mutation.collection}/documents/${mutation.docId}`,
+          undefined,
+          true,
+          options
+        );
     }
   }
 
+  /**
+   * Returns a handle bound to a collection and document type, so the
+   * collection name and generic only have to be declared once.
+   *
+   * @template T - The type of the document data
+   * @param name - Name of the collection
+   * @returns Collection handle wrapping the document methods
+   *
+   * @example
+   * ```typescript
+   * const posts = db.collection<Post>('posts');
+   * const post = await posts.get('post-123');
+   * console.log(post.data.title);
+   * ```
+   */
+  collection<T = any>(name: string): CollectionHandle<T> {
+    return new CollectionHandle<T>(this, name);
+  }
+
   /**
    * Retrieves a single document by ID from a collection.
    *
+   * With the `batchGetDocument` config option, calls made in the same tick
+   * without `options` are batched into one request per collection; IDs
+   * missing from the batch reject with a `NotFoundError`.
+   *
    * @template T - The type of the document data
    * @param collection - Name of the collection
    * @param docId - Unique ID of the document
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    * @returns Promise resolving to the document with metadata
    *
    * @example
@@ -257,20 +443,31 @@ export class Cocobase {
    */
   async getDocument<T = any>(
     collection: string,
-    docId: string
+    docId: string,
+    options?: RequestOptions
   ): Promise<Document<T>> {
+    if (this.loader && !options) {
+      return this.loader.load<T>(collection, docId);
+    }
     return this.request<Document<T>>(
       "GET",
-      `/collections/${collection}/documents/${docId}`
+      `/collections/${collection}/documents/${docId}`,
+      undefined,
+      true,
+      options
     );
   }
 
   /**
    * Creates a new document in a collection.
    *
+   * With the `offline` option enabled, resolves with an optimistic document
+   * with a temporary ID while offline and sends the write later.
+   *
    * @template T - The type of the document data
    * @param collection - Name of the collection
    * @param data - Document data to store
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    * @returns Promise resolving to the created document with metadata
    *
    * @example
@@ -284,21 +481,27 @@ export class Cocobase {
    */
   async createDocument<T = any>(
     collection: string,
-    data: T
+    data: T,
+    options?: RequestOptions
   ): Promise<Document<T>> {
-    return this.request<Document<T>>(
-      "POST",
-      `/collections/documents?collection=${collection}`,
-      data
+    return this.mutate(collection, () =>
+      this.write<Document<T>>({ type: "create", collection, data }, options)
     );
   }
 
   /**
    * Create a document with file uploads
    *
+   * Pass `onProgress` to follow the upload and `signal` to cancel it; with an
+   * array of files, progress is reported per file.
+   *
+   * Pass `rules` to check the files first: broken rules throw a
+   * `FileValidationError` listing every violation, and nothing is sent.
+   *
    * @param collection - Collection name
    * @param data - Document data (JSON object)
    * @param files - Object mapping field names to File objects
+   * @param options - Optional per-call options (signal, timeoutMs, retry, onProgress, rules)
    *
    * @example
    * ```typescript
@@ -319,13 +522,26 @@ export class Cocobase {
    *     gallery: [img1, img2, img3] // Array for multiple files
    *   }
    * );
+   *
+   * // Reject oversize or non-image files before uploading
+   * await db.createDocumentWithFiles('products', product, files, {
+   *   rules: {
+   *     main_image: { maxSize: 5 * 1024 * 1024, accept: 'image/*', sniff: true },
+   *     gallery: { maxCount: 10, accept: ['.jpg', '.png', '.webp'] }
+   *   }
+   * });
    * ```
    */
   async createDocumentWithFiles<T = any>(
     collection: string,
     data: T,
-    files: Record<string, File | File[]>
+    files: Record<string, File | File[]>,
+    options: WithFilesOptions = {}
   ): Promise<Document<T>> {
+    const { rules, ...uploadOptions } = options;
+    if (rules) {
+      await validateFiles(files, rules);
+    }
     const formData = new FormData();
 
     // Add JSON data
@@ -344,33 +560,28 @@ export class Cocobase {
       }
     }
 
-    const url = `${this.baseURL}/collections/documents?collection=${collection}`;
-    const res = await fetch(url, {
-      method: "POST",
-      headers: {
-        ...(this.apiKey ? { "x-api-key": `${this.apiKey}` } : {}),
-        ...(this.auth.getToken()
-          ? { Authorization: `Bearer ${this.auth.getToken()}` }
-          : {}),
-      },
-      body: formData,
-    });
-
-    if (!res.ok) {
-      const errorText = await res.text();
-      throw new Error(`File upload failed: ${errorText}`);
-    }
-
-    return res.json() as Promise<Document<T>>;
+    return this.mutate(collection, () =>
+      this.transport.request<Document<T>>({
+        method: "POST",
+        url: `/collections/documents?collection=${collection}`,
+        headers: {},
+        body: formData,
+        ...uploadOptions,
+      })
+    );
   }
 
   /**
    * Updates an existing document in a collection.
    *
+   * With the `offline` option enabled, resolves with an optimistic document
+   * while offline and sends the write later.
+   *
    * @template T - The type of the document data
    * @param collection - Name of the collection
    * @param docId - Unique ID of the document to update
    * @param data - Partial document data to update (only specified fields are updated)
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    * @returns Promise resolving to the updated document with metadata
    *
    * @example
@@ -384,22 +595,32 @@ export class Cocobase {
   async updateDocument<T = any>(
     collection: string,
     docId: string,
-    data: Partial<T>
+    data: Partial<T>,
+    options?: RequestOptions
   ): Promise<Document<T>> {
-    return this.request<Document<T>>(
-      "PATCH",
-      `/collections/${collection}/documents/${docId}`,
-      data
+    return this.mutate(collection, () =>
+      this.write<Document<T>>(
+        { type: "update", collection, docId, data },
+        options
+      )
     );
   }
 
   /**
    * Update a document with file uploads
    *
+   * Pass `onProgress` to follow the upload and `signal` to cancel it; with an
+   * array of files, progress is reported per file.
+   *
+   * Pass `deleteReplacedFiles: true` to delete the stored files that the
+   * update replaces in the document's file fields afterwards.
+   * Pass `rules` to check the files first, as with `createDocumentWithFiles`.
+   *
    * @param collection - Collection name
    * @param docId - Document ID
    * @param data - Partial document data to update (optional)
    * @param files - Object mapping field names to File objects (optional)
+   * @param options - Optional per-call options (signal, timeoutMs, retry, onProgress, rules, deleteReplacedFiles)
    *
    * @example
    * ```typescript
@@ -420,8 +641,13 @@ export class Cocobase {
     collection: string,
     docId: string,
     data?: Partial<T>,
-    files?: Record<string, File | File[]>
+    files?: Record<string, File | File[]>,
+    options: UpdateWithFilesOptions = {}
   ): Promise<Document<T>> {
+    const { deleteReplacedFiles = false, rules, ...uploadOptions } = options;
+    if (files && rules) {
+      await validateFiles(files, rules);
+    }
     const formData = new FormData();
 
     // Add JSON data if provided
@@ -442,31 +668,45 @@ export class Cocobase {
       }
     }
 
-    const url = `${this.baseURL}/collections/${collection}/documents/${docId}`;
-    const res = await fetch(url, {
-      method: "PATCH",
-      headers: {
-        ...(this.apiKey ? { "x-api-key": `${this.apiKey}` } : {}),
-        ...(this.auth.getToken()
-          ? { Authorization: `Bearer ${this.auth.getToken()}` }
-          : {}),
-      },
-      body: formData,
-    });
+    // Remember the current file URLs, to delete the ones the update replaces.
+    // If the document can't be read, the update goes ahead without deleting.
+    const fields = files ? Object.keys(files) : [];
+    const before =
+      deleteReplacedFiles && fields.length > 0
+        ? await this.getDocument<Record<string, unknown>>(collection, docId, {
+            signal: uploadOptions.signal,
+            timeoutMs: uploadOptions.timeoutMs,
+          }).catch(() => undefined)
+        : undefined;
 
-    if (!res.ok) {
-      const errorText = await res.text();
-      throw new Error(`File upload failed: ${errorText}`);
+    const updated = await this.mutate(collection, () =>
+      this.transport.request<Document<T>>({
+        method: "PATCH",
+        url: `/collections/${collection}/documents/${docId}`,
+        headers: {},
+        body: formData,
+        ...uploadOptions,
+      })
+    );
+    if (before) {
+      await this.files.deleteReplaced(
+        fields,
+        before.data,
+        updated.data as Record<string, unknown> | undefined
+      );
     }
-
-    return res.json() as Promise<Document<T>>;
+    return updated;
   }
 
   /**
    * Deletes a document from a collection.
    *
+   * With the `offline` option enabled, resolves immediately while offline and
+   * sends the delete later.
+   *
    * @param collection - Name of the collection
    * @param docId - Unique ID of the document to delete
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    * @returns Promise resolving to a success status object
    *
    * @example
@@ -476,11 +716,14 @@ export class Cocobase {
    */
   async deleteDocument(
     collection: string,
-    docId: string
+    docId: string,
+    options?: RequestOptions
   ): Promise<{ success: boolean }> {
-    return this.request(
-      "DELETE",
-      `/collections/${collection}/documents/${docId}`
+    return this.mutate(collection, () =>
+      this.write<{ success: boolean }>(
+        { type: "delete", collection, docId },
+        options
+      )
     );
   }
 
@@ -490,6 +733,7 @@ export class Cocobase {
    * @template T - The type of the document data
    * @param collection - Name of the collection
    * @param query - Optional query parameters for filtering, sorting, and pagination
+   * @param options - Optional per-call request options (signal, timeoutMs, retry, cache)
    * @returns Promise resolving to an array of documents
    *
    * @example
@@ -511,13 +755,63 @@ export class Cocobase {
    */
   async listDocuments<T = any>(
     collection: string,
-    query?: Query
+    query?: Query,
+    options?: CachedRequestOptions
   ): Promise<Document<T>[]> {
     const query_str = buildFilterQuery(query);
 
-    return this.request<Document<T>[]>(
-      "GET",
-      `/collections/${collection}/documents${query_str ? `?${query_str}` : ""}`
+    return this.cached(collection, `list?${query_str}`, options, (opts) =>
+      this.request<Document<T>[]>(
+        "GET",
+        `/collections/${collection}/documents${
+          query_str ? `?${query_str}` : ""
+        }`,
+        undefined,
+        true,
+        opts
+      )
+    );
+  }
+
+  /**
+   * Iterates over every document matching a query, fetching pages on demand.
+   *
+   * @template T - The type of the document data
+   * @param collection - Name of the collection
+   * @param query - Optional query parameters; `offset` sets where to start
+   * @param options - Page size, prefetch concurrency, item cap and request options
+   * @returns Async iterable of documents; call `.pages()` to iterate page by page
+   *
+   * @example
+   * ```typescript
+   * for await (const post of db.iterateDocuments<Post>('posts', {
+   *   filters: { published: true }
+   * }, { pageSize: 200 })) {
+   *   console.log(post.data.title);
+   * }
+   *
+   * // Page by page, prefetching the next page, stopping after 1000 documents
+   * const pages = db.iterateDocuments('posts', {}, { concurrency: 2, maxItems: 1000 }).pages();
+   * for await (const page of pages) {
+   *   await exportBatch(page.items);
+   * }
+   * ```
+   */
+  iterateDocuments<T = any>(
+    collection: string,
+    query?: Query,
+    options?: IterateOptions
+  ): Paginator<Document<T>> {
+    return new Paginator<Document<T>>(
+      async (offset, limit, requestOptions) => ({
+        items: await this.listDocuments<T>(
+          collection,
+          { ...query, offset, limit },
+          requestOptions
+        ),
+      }),
+      query,
+      options
     );
   }
 
@@ -667,25 +961,33 @@ export class Cocobase {
   // BATCH OPERATIONS
   async deleteDocuments(
     collection: string,
-    docIds: string[]
+    docIds: string[],
+    options?: RequestOptions
   ): Promise<{ status: string; message: string; count: number }> {
-    return this.request<{ status: string; message: string; count: number }>(
-      "POST",
-      `/collections/${collection}/batch/documents/delete`,
-      { document_ids: docIds },
-      false
+    return this.mutate(collection, () =>
+      this.request<{ status: string; message: string; count: number }>(
+        "POST",
+        `/collections/${collection}/batch/documents/delete`,
+        { document_ids: docIds },
+        false,
+        options
+      )
     );
   }
 
   async createDocuments<T = any>(
     collection: string,
-    documents: T[]
+    documents: T[],
+    options?: RequestOptions
   ): Promise<Document<T>[]> {
-    return this.request<Document<T>[]>(
-      "POST",
-      `/collections/${collection}/batch/documents/create`,
-      { documents },
-      false
+    return this.mutate(collection, () =>
+      this.request<Document<T>[]>(
+        "POST",
+        `/collections/${collection}/batch/documents/create`,
+        { documents },
+        false,
+        options
+      )
     );
   }
   /**
@@ -694,16 +996,21 @@ export class Cocobase {
    * @param collection - Collection name
    * @param updates - Object mapping document IDs to partial update objects.
    *   Example: { "docId1": { fieldA: "value" }, "docId2": { fieldB: 2 } }
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    */
   async updateDocuments<T = any>(
     collection: string,
-    updates: Record<string, Partial<T>>
+    updates: Record<string, Partial<T>>,
+    options?: RequestOptions
   ): Promise<Document<T>[]> {
-    return this.request<Document<T>[]>(
-      "POST",
-      `/collections/${collection}/batch/documents/update`,
-      { updates },
-      false
+    return this.mutate(collection, () =>
+      this.request<Document<T>[]>(
+        "POST",
+        `/collections/${collection}/batch/documents/update`,
+        { updates },
+        false,
+        options
+      )
     );
   }
   /**
@@ -715,27 +1022,44 @@ export class Cocobase {
    */
   async countDocuments(
     collection: string,
-    query?: Query
+    query?: Query,
+    options?: CachedRequestOptions
   ): Promise<{ count: number }> {
     const query_str = buildFilterQuery(query);
-    return this.request<{ count: number }>(
-      "GET",
-      `/collections/${collection}/query/documents/count${
-        query_str ? `?${query_str}` : ""
-      }`
+    return this.cached(collection, `count?${query_str}`, options, (opts) =>
+      this.request<{ count: number }>(
+        "GET",
+        `/collections/${collection}/query/documents/count${
+          query_str ? `?${query_str}` : ""
+        }`,
+        undefined,
+        true,
+        opts
+      )
     );
   }
 
   async aggregateDocuments(
     collection: string,
-    params: AggregateParams
+    params: AggregateParams,
+    options?: CachedRequestOptions
   ): Promise<AggregateResults> {
     const query_str = buildFilterQuery(params.query);
-    return (await this.request<any>(
-      "GET",
-      `/collections/${collection}/query/documents/aggregate?field=${
-        params.field
-      }&operation=${params.operation}&${query_str ? `${query_str}` : ""}`
-    )) as AggregateResults;
+    const path = `/collections/${collection}/query/documents/aggregate?field=${
+      params.field
+    }&operation=${params.operation}&${query_str ? `${query_str}` : ""}`;
+    return this.cached(
+      collection,
+      `aggregate?field=${params.field}&operation=${params.operation}&${query_str}`,
+      options,
+      async (opts) =>
+        (await this.request<any>(
+          "GET",
+          path,
+          undefined,
+          true,
+          opts
+        )) as AggregateResults
+    );
   }
 }
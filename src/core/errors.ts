@@ -0,0 +1,240 @@
+import type { FileViolation } from "./validation.js";
+
+/**
+ * Fields carried by every Cocobase error.
+ */
+export interface CocobaseErrorInit {
+  /** HTTP status code, if the server responded */
+  statusCode?: number;
+  /** Request URL */
+  url?: string;
+  /** HTTP method */
+  method?: string;
+  /** Error detail returned by the server (parsed JSON when possible) */
+  detail?: unknown;
+  /** Hint on how to resolve the error */
+  suggestion?: string;
+  /** Underlying error, e.g. the network failure */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors thrown by the SDK.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await db.getDocument('posts', id);
+ * } catch (err) {
+ *   if (err instanceof NotFoundError) {
+ *     showNotFound();
+ *   } else if (err instanceof CocobaseError) {
+ *     console.error(err.statusCode, err.detail, err.suggestion);
+ *   }
+ * }
+ * ```
+ */
+export class CocobaseError extends Error {
+  statusCode?: number;
+  url?: string;
+  method?: string;
+  detail?: unknown;
+  suggestion?: string;
+  cause?: unknown;
+
+  constructor(message: string, init: CocobaseErrorInit = {}) {
+    super(message);
+    this.name = "CocobaseError";
+    this.statusCode = init.statusCode;
+    this.url = init.url;
+    this.method = init.method;
+    this.detail = init.detail;
+    this.suggestion = init.suggestion;
+    this.cause = init.cause;
+  }
+
+  /**
+   * Plain object representation, matching the shape of the legacy
+   * `Request failed:` error payload.
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      name: this.name,
+      message: this.message,
+      statusCode: this.statusCode,
+      url: this.url,
+      method: this.method,
+      error: this.detail,
+      suggestions: this.suggestion,
+    };
+  }
+}
+
+/**
+ * The requested resource does not exist (404).
+ */
+export class NotFoundError extends CocobaseError {
+  constructor(message: string, init: CocobaseErrorInit = {}) {
+    super(message, init);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * The request is not authenticated or not allowed (401, 403), or a method
+ * that needs a logged-in user was called without one.
+ */
+export class AuthError extends CocobaseError {
+  constructor(message: string, init: CocobaseErrorInit = {}) {
+    super(message, init);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * A 2FA code was rejected, or the challenge can no longer be completed.
+ */
+export class TwoFactorError extends AuthError {
+  /** Why verification failed */
+  reason: "invalid_code" | "expired" | "too_many_attempts";
+
+  constructor(
+    message: string,
+    init: CocobaseErrorInit & {
+      reason: "invalid_code" | "expired" | "too_many_attempts";
+    }
+  ) {
+    super(message, init);
+    this.name = "TwoFactorError";
+    this.reason = init.reason;
+  }
+}
+
+/**
+ * The rate limit was exceeded (429) and retries were exhausted.
+ */
+export class RateLimitError extends CocobaseError {
+  /** Delay the server asked for before retrying, in milliseconds */
+  retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    init: CocobaseErrorInit & { retryAfterMs?: number } = {}
+  ) {
+    super(message, init);
+    this.name = "RateLimitError";
+    this.retryAfterMs = init.retryAfterMs;
+  }
+}
+
+/**
+ * The server rejected the request payload (400, 422).
+ */
+export class ValidationError extends CocobaseError {
+  constructor(message: string, init: CocobaseErrorInit = {}) {
+    super(message, init);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Files broke the rules passed to a `*WithFiles` method or `validateFiles`.
+ * Thrown before anything is sent.
+ */
+export class FileValidationError extends ValidationError {
+  /** Every broken rule, in field order */
+  violations: FileViolation[];
+
+  constructor(violations: FileViolation[], init: CocobaseErrorInit = {}) {
+    super(
+      `File validation failed: ${violations.map((v) => v.message).join("; ")}`,
+      {
+        detail: violations,
+        suggestion: "Check the listed files against the field rules",
+        ...init,
+      }
+    );
+    this.name = "FileValidationError";
+    this.violations = violations;
+  }
+
+  /** Names of the fields with at least one violation */
+  get fields(): string[] {
+    return [...new Set(this.violations.map((v) => v.field))];
+  }
+}
+
+/**
+ * The request never reached the server or the connection failed.
+ */
+export class NetworkError extends CocobaseError {
+  constructor(message: string, init: CocobaseErrorInit = {}) {
+    super(message, init);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * The request did not complete within its timeout.
+ */
+export class TimeoutError extends CocobaseError {
+  /** Timeout that was exceeded, in milliseconds */
+  timeoutMs?: number;
+
+  constructor(
+    message: string,
+    init: CocobaseErrorInit & { timeoutMs?: number } = {}
+  ) {
+    super(message, init);
+    this.name = "TimeoutError";
+    this.timeoutMs = init.timeoutMs;
+  }
+}
+
+/**
+ * Creates the error class matching an HTTP status code.
+ *
+ * @param init - Error fields; `statusCode` selects the class
+ * @returns Typed Cocobase error
+ */
+export function createHttpError(
+  init: CocobaseErrorInit & { statusCode: number; retryAfterMs?: number }
+): CocobaseError {
+  const message = `${init.method ?? "Request"} ${init.url ?? ""} failed with status ${
+    init.statusCode
+  }: ${describeDetail(init.detail)}`;
+
+  switch (init.statusCode) {
+    case 400:
+    case 422:
+      return new ValidationError(message, init);
+    case 401:
+    case 403:
+      return new AuthError(message, init);
+    case 404:
+      return new NotFoundError(message, init);
+    case 429:
+      return new RateLimitError(message, init);
+    default:
+      return new CocobaseError(message, init);
+  }
+}
+
+/**
+ * Extracts a readable message from a server error body.
+ */
+function describeDetail(detail: unknown): string {
+  if (detail === undefined || detail === null || detail === "") {
+    return "no details provided";
+  }
+  if (typeof detail === "string") {
+    return detail;
+  }
+  if (typeof detail === "object") {
+    const body = detail as Record<string, unknown>;
+    if (typeof body.detail === "string") return body.detail;
+    if (typeof body.message === "string") return body.message;
+    if (typeof body.error === "string") return body.error;
+  }
+  return JSON.stringify(detail);
+}
@@ -1,12 +1,14 @@
-import { BASEURL } from "../utils/utils.js";
 import { Cocobase } from "./core.js";
+import type { UploadOptions } from "./upload.js";
 
 /**
  * Response from a successful file upload.
  */
-interface UploadedFile {
+export interface UploadedFile {
   /** Public URL of the uploaded file */
   url: string;
+  /** ID of the file, for `db.files.get`, `delete` and `replace` */
+  id?: string;
 }
 
 /**
@@ -16,10 +18,12 @@ interface UploadedFile {
  * with a specific document. For document-related file uploads, use methods like
  * `createDocumentWithFiles` or `updateDocumentWithFiles` instead.
  *
+ * @deprecated Use `db.files.upload()` instead. This method will be removed in a future version.
  * @param cb - Cocobase client instance
  * @param file - File object to upload
+ * @param options - Optional per-call options (signal, timeoutMs, retry, onProgress)
  * @returns Promise resolving to an object containing the file URL
- * @throws Error if the upload fails or API key is missing
+ * @throws {CocobaseError} If the upload fails or API key is missing
  *
  * @example
  * ```typescript
@@ -27,25 +31,18 @@ interface UploadedFile {
  * const fileInput = document.querySelector('input[type="file"]');
  * const file = fileInput.files[0];
  *
- * const { url } = await uploadFile(db, file);
+ * const { url } = await uploadFile(db, file, {
+ *   onProgress: ({ loaded, total }) => console.log(`${Math.round((loaded / total) * 100)}%`),
+ * });
  * console.log('File uploaded to:', url);
  * ```
  */
-const uploadFile = async (cb: Cocobase, file: File): Promise<UploadedFile> => {
-  const formData = new FormData();
-  formData.append("file", file);
-
-  const req = await fetch(BASEURL + "/collections/file", {
-    method: "POST",
-    body: formData,
-    headers: {
-      "x-api-key": cb.apiKey!,
-    },
-  });
-  if (!req.ok) {
-    throw new Error("File upload failed");
-  }
-  return (await req.json()) as UploadedFile;
+const uploadFile = async (
+  cb: Cocobase,
+  file: File,
+  options?: UploadOptions
+): Promise<UploadedFile> => {
+  return cb.files.upload(file, options);
 };
 
 export { uploadFile };
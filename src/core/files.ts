@@ -0,0 +1,751 @@
+import type {
+  CocobaseConfig,
+  FileMetadata,
+  Query,
+} from "../types/types.js";
+import { buildFilterQuery } from "../utils/utils.js";
+import type { UploadedFile } from "./file.js";
+import type { HttpTransport, RequestOptions } from "./transport.js";
+import type { UploadOptions } from "./upload.js";
+import type { FileRules } from "./validation.js";
+import { CocobaseError, NotFoundError, ValidationError } from "./errors.js";
+import { StorageAdapter, createDefaultStorage } from "./storage.js";
+
+/**
+ * Data accepted by `db.files.upload`: a `File` or `Blob`, binary data (a
+ * Node `Buffer`, `Uint8Array` or `ArrayBuffer`), a `ReadableStream` of bytes,
+ * or, with the `readFile` config option, the path of a file on disk.
+ */
+export type FileInput =
+  | Blob
+  | ArrayBuffer
+  | ArrayBufferView
+  | ReadableStream<Uint8Array>
+  | string;
+
+/**
+ * Options for `db.files.upload`.
+ */
+export interface FileUploadOptions extends UploadOptions {
+  /**
+   * File name stored with the upload (default: the File's name or the path's
+   * base name, otherwise "upload")
+   */
+  filename?: string;
+  /**
+   * Content type stored with the upload (default: the Blob's type, otherwise
+   * guessed from the file name)
+   */
+  contentType?: string;
+}
+
+/**
+ * Options for `createDocumentWithFiles`, `auth.registerWithFiles` and
+ * `auth.updateUserWithFiles`.
+ */
+export interface WithFilesOptions extends UploadOptions {
+  /**
+   * Per-field rules checked before anything is sent; broken rules throw a
+   * `FileValidationError`
+   */
+  rules?: FileRules;
+}
+
+/**
+ * Options for `updateDocumentWithFiles`.
+ */
+export interface UpdateWithFilesOptions extends WithFilesOptions {
+  /**
+   * Delete the stored files that the update replaces in the document's file
+   * fields (default: false). Costs one extra request to read the document
+   * first; leave off when files are shared between documents.
+   */
+  deleteReplacedFiles?: boolean;
+}
+
+/**
+ * Options for chunked uploads.
+ *
+ * `retry` applies to each chunk separately (default: 5 attempts), and
+ * `onProgress` reports bytes of the whole file.
+ */
+export interface ChunkedUploadOptions extends FileUploadOptions {
+  /** Size of each chunk in bytes (default: 5 MB) */
+  chunkSize?: number;
+  /** Number of chunks sent in parallel (default: 3) */
+  concurrency?: number;
+  /**
+   * Identifies the file when resuming, e.g. a content hash
+   * (default: name, size and last-modified time)
+   */
+  fingerprint?: string;
+}
+
+/**
+ * State of a chunked upload, persisted so it can be resumed after a reload
+ * or a dropped connection.
+ */
+export interface UploadSession {
+  /** Server-side ID of the upload */
+  uploadId: string;
+  /** Identifies the file the session belongs to */
+  fingerprint: string;
+  /** File name */
+  filename: string;
+  /** Content type */
+  contentType: string;
+  /** File size in bytes */
+  size: number;
+  /** Chunk size in bytes */
+  chunkSize: number;
+  /** Number of chunks */
+  totalChunks: number;
+  /** Indexes of the chunks the server has received */
+  uploadedChunks: number[];
+}
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const FILES_PATH = "/collections/file";
+const UPLOADS_PATH = `${FILES_PATH}/uploads`;
+
+// Content types guessed from file extensions when none is given
+const CONTENT_TYPES: Record<string, string> = {
+  avif: "image/avif",
+  csv: "text/csv",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  gif: "image/gif",
+  gz: "application/gzip",
+  heic: "image/heic",
+  html: "text/html",
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  json: "application/json",
+  m4a: "audio/mp4",
+  mov: "video/quicktime",
+  mp3: "audio/mpeg",
+  mp4: "video/mp4",
+  pdf: "application/pdf",
+  png: "image/png",
+  svg: "image/svg+xml",
+  txt: "text/plain",
+  wav: "audio/wav",
+  webm: "video/webm",
+  webp: "image/webp",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  zip: "application/zip",
+};
+
+/**
+ * File storage API, available as `db.files`.
+ *
+ * `upload` sends a file in one request. Large files can be sent in chunks: a dropped connection only costs the
+ * chunks in flight, and an interrupted upload picks up where it stopped,
+ * even after a page reload.
+ *
+ * @example
+ * ```typescript
+ * // Upload a video in 8 MB chunks, resuming a previous attempt if there is one
+ * const { url } = await db.files.resume(videoFile, {
+ *   chunkSize: 8 * 1024 * 1024,
+ *   onProgress: ({ loaded, total }) => setProgress(loaded / total),
+ * });
+ * ```
+ */
+export class FileHandler {
+  private transport: HttpTransport;
+  private storage: StorageAdapter;
+  private storageKeyPrefix: string;
+  private readFile?: (path: string) => Promise<Blob>;
+
+  /**
+   * Creates a new FileHandler instance.
+   *
+   * @param config - Cocobase configuration
+   * @param transport - Shared HTTP transport
+   */
+  constructor(config: CocobaseConfig, transport: HttpTransport) {
+    this.transport = transport;
+    this.storage = config.storage ?? createDefaultStorage();
+    this.storageKeyPrefix = config.storageKeyPrefix ?? "cocobase-";
+    this.readFile = config.readFile;
+  }
+
+  /**
+   * Uploads a single file to Cocobase cloud storage.
+   *
+   * The request goes to the client's `baseURL` with its API key and the
+   * signed-in user's token. For document-related file uploads, use
+   * `createDocumentWithFiles` or `updateDocumentWithFiles` instead; for large
+   * files, `resume`.
+   *
+   * @param input - File, Blob, Buffer, Uint8Array, ReadableStream or, with the
+   *   `readFile` config option, a file path
+   * @param options - File name, content type and per-call options (signal,
+   *   timeoutMs, retry, onProgress)
+   * @returns Promise resolving to the uploaded file
+   * @throws {ValidationError} If the input is not a supported type, or is a
+   *   path without the `readFile` config option
+   * @throws {CocobaseError} If a file path cannot be read or the upload fails
+   *
+   * @example
+   * ```typescript
+   * // Browser
+   * const { url } = await db.files.upload(input.files[0]);
+   *
+   * // Node, with `readFile` from "cocobase/node" in the config
+   * await db.files.upload('./report.pdf');
+   * await db.files.upload(buffer, { filename: 'avatar.png' });
+   * ```
+   */
+  async upload(
+    input: FileInput,
+    options: FileUploadOptions = {}
+  ): Promise<UploadedFile> {
+    return this.sendFile<UploadedFile>("POST", FILES_PATH, input, options);
+  }
+
+  /**
+   * Lists stored files.
+   *
+   * @param query - Optional filters, sorting and pagination, e.g.
+   *   `{ filters: { content_type__startswith: 'image/' }, limit: 20 }`
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise resolving to the files' metadata
+   *
+   * @example
+   * ```typescript
+   * const mine = await db.files.list({
+   *   filters: { owner: db.auth.getUser()?.id },
+   *   sort: 'created_at',
+   *   order: 'desc',
+   * });
+   * ```
+   */
+  async list(
+    query?: Query,
+    options?: RequestOptions
+  ): Promise<FileMetadata[]> {
+    const queryStr = buildFilterQuery(query);
+    return this.transport.request<FileMetadata[]>({
+      method: "GET",
+      url: `${FILES_PATH}${queryStr ? `?${queryStr}` : ""}`,
+      headers: {},
+      ...options,
+    });
+  }
+
+  /**
+   * Reads a stored file's metadata.
+   *
+   * @param id - File ID
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise resolving to the file's URL, name, size, content type,
+   *   upload time and owner
+   * @throws {NotFoundError} If there is no file with this ID
+   *
+   * @example
+   * ```typescript
+   * const { size, content_type } = await db.files.get(fileId);
+   * ```
+   */
+  async get(id: string, options?: RequestOptions): Promise<FileMetadata> {
+    return this.transport.request<FileMetadata>({
+      method: "GET",
+      url: `${FILES_PATH}/${encodeURIComponent(id)}`,
+      headers: {},
+      ...options,
+    });
+  }
+
+  /**
+   * Deletes a stored file.
+   *
+   * @param idOrUrl - File ID, or the file's public URL
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise resolving to a success status object
+   * @throws {NotFoundError} If there is no such file
+   *
+   * @example
+   * ```typescript
+   * await db.files.delete(fileId);
+   * await db.files.delete(post.data.cover);
+   * ```
+   */
+  async delete(
+    idOrUrl: string,
+    options?: RequestOptions
+  ): Promise<{ success: boolean }> {
+    const url = isURL(idOrUrl)
+      ? `${FILES_PATH}?url=${encodeURIComponent(idOrUrl)}`
+      : `${FILES_PATH}/${encodeURIComponent(idOrUrl)}`;
+    return this.transport.request<{ success: boolean }>({
+      method: "DELETE",
+      url,
+      headers: {},
+      ...options,
+    });
+  }
+
+  /**
+   * Replaces the contents of a stored file, keeping its ID.
+   *
+   * Accepts the same inputs and options as `upload`.
+   *
+   * @param id - File ID
+   * @param input - New contents
+   * @param options - File name, content type and per-call options (signal,
+   *   timeoutMs, retry, onProgress)
+   * @returns Promise resolving to the updated metadata
+   * @throws {NotFoundError} If there is no file with this ID
+   *
+   * @example
+   * ```typescript
+   * const updated = await db.files.replace(fileId, croppedAvatar);
+   * ```
+   */
+  async replace(
+    id: string,
+    input: FileInput,
+    options: FileUploadOptions = {}
+  ): Promise<FileMetadata> {
+    return this.sendFile<FileMetadata>(
+      "PUT",
+      `${FILES_PATH}/${encodeURIComponent(id)}`,
+      input,
+      options
+    );
+  }
+
+  /**
+   * Deletes files that a document update replaced: the URLs in `files`
+   * fields of `before` that are no longer in `after`. Failures are ignored,
+   * since the update itself succeeded.
+   *
+   * @internal
+   */
+  async deleteReplaced(
+    fields: string[],
+    before: Record<string, unknown> | undefined,
+    after: Record<string, unknown> | undefined
+  ): Promise<void> {
+    const urls = (value: unknown): string[] =>
+      (Array.isArray(value) ? value : [value]).filter(
+        (item): item is string => typeof item === "string" && isURL(item)
+      );
+    const orphaned = new Set<string>();
+    for (const field of fields) {
+      const kept = urls(after?.[field]);
+      for (const url of urls(before?.[field])) {
+        if (!kept.includes(url)) orphaned.add(url);
+      }
+    }
+    await Promise.allSettled([...orphaned].map((url) => this.delete(url)));
+  }
+
+  /**
+   * Starts a chunked upload session on the server and persists it.
+   *
+   * Most callers want `resume`, which also sends the chunks and completes the
+   * upload; use the lower-level methods to control each step.
+   *
+   * @param file - File or Blob to upload
+   * @param options - Chunk size, file name and content type
+   * @returns Promise resolving to the new session
+   *
+   * @example
+   * ```typescript
+   * const session = await db.files.startUpload(file, { chunkSize: 1024 * 1024 });
+   * for (let i = 0; i < session.totalChunks; i++) {
+   *   await db.files.uploadChunk(session, file, i);
+   * }
+   * const { url } = await db.files.complete(session);
+   * ```
+   */
+  async startUpload(
+    file: Blob,
+    options: ChunkedUploadOptions = {}
+  ): Promise<UploadSession> {
+    const filename = options.filename ?? (file as File).name ?? "upload";
+    const contentType =
+      options.contentType || file.type || "application/octet-stream";
+    const response = await this.transport.request<{
+      upload_id: string;
+      chunk_size?: number;
+    }>({
+      method: "POST",
+      url: UPLOADS_PATH,
+      headers: {},
+      body: {
+        filename,
+        size: file.size,
+        content_type: contentType,
+        chunk_size: options.chunkSize ?? DEFAULT_CHUNK_SIZE,
+      },
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      retry: options.retry,
+    });
+
+    // The server may pick a different chunk size
+    const chunkSize =
+      response.chunk_size ?? options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const session: UploadSession = {
+      uploadId: response.upload_id,
+      fingerprint: options.fingerprint ?? fingerprintOf(file),
+      filename,
+      contentType,
+      size: file.size,
+      chunkSize,
+      totalChunks: Math.max(1, Math.ceil(file.size / chunkSize)),
+      uploadedChunks: [],
+    };
+    await this.saveSession(session);
+    return session;
+  }
+
+  /**
+   * Sends one chunk of the file and records it in the persisted session.
+   *
+   * Network failures and 429/5xx responses are retried for this chunk only.
+   *
+   * @param session - Session from `startUpload` or `getSession`
+   * @param file - The same file the session was started with
+   * @param index - Chunk index, from 0 to `session.totalChunks - 1`
+   * @param options - Optional per-call options (signal, timeoutMs, retry, onProgress)
+   */
+  async uploadChunk(
+    session: UploadSession,
+    file: Blob,
+    index: number,
+    options: UploadOptions = {}
+  ): Promise<void> {
+    if (index < 0 || index >= session.totalChunks) {
+      throw new CocobaseError(
+        `Chunk ${index} is out of range; the upload has ${session.totalChunks} chunks`
+      );
+    }
+    const start = index * session.chunkSize;
+    const end = Math.min(start + session.chunkSize, session.size);
+    await this.transport.request<unknown>({
+      method: "PUT",
+      url: `${UPLOADS_PATH}/${session.uploadId}/chunks/${index}`,
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Range": `bytes ${start}-${end - 1}/${session.size}`,
+      },
+      body: file.slice(start, end),
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      retry: options.retry ?? { maxAttempts: 5 },
+      onProgress: options.onProgress,
+    });
+
+    if (!session.uploadedChunks.includes(index)) {
+      session.uploadedChunks.push(index);
+      session.uploadedChunks.sort((a, b) => a - b);
+    }
+    await this.saveSession(session);
+  }
+
+  /**
+   * Finishes a chunked upload once every chunk has been sent, and forgets the
+   * persisted session.
+   *
+   * @param session - Session whose chunks have all been sent
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise resolving to the uploaded file
+   */
+  async complete(
+    session: UploadSession,
+    options: RequestOptions = {}
+  ): Promise<UploadedFile> {
+    const result = await this.transport.request<UploadedFile>({
+      method: "POST",
+      url: `${UPLOADS_PATH}/${session.uploadId}/complete`,
+      headers: {},
+      body: {},
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      retry: options.retry,
+    });
+    await this.storage.remove(this.sessionKey(session.fingerprint));
+    return result;
+  }
+
+  /**
+   * Uploads a file in chunks, continuing a persisted session for the same
+   * file if there is one, and completes the upload.
+   *
+   * Chunks the server already has are skipped. If the server no longer knows
+   * the session, a new one is started. Aborting `signal` stops the upload;
+   * calling `resume` again with the same file continues it.
+   *
+   * @param file - File or Blob to upload
+   * @param options - Chunk size, parallelism, retries, progress and cancellation
+   * @returns Promise resolving to the uploaded file
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * const { url } = await db.files.resume(file, {
+   *   concurrency: 4,
+   *   signal: controller.signal,
+   *   onProgress: ({ loaded, total }) => console.log(`${loaded}/${total}`),
+   * });
+   * ```
+   */
+  async resume(
+    file: Blob,
+    options: ChunkedUploadOptions = {}
+  ): Promise<UploadedFile> {
+    const fingerprint = options.fingerprint ?? fingerprintOf(file);
+    let session = await this.getSession(fingerprint);
+    if (session && session.size === file.size) {
+      try {
+        // The server is the source of truth for which chunks arrived
+        const status = await this.transport.request<{
+          received_chunks: number[];
+        }>({
+          method: "GET",
+          url: `${UPLOADS_PATH}/${session.uploadId}`,
+          headers: {},
+          signal: options.signal,
+          timeoutMs: options.timeoutMs,
+        });
+        session.uploadedChunks = [...status.received_chunks].sort(
+          (a, b) => a - b
+        );
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) throw error;
+        session = undefined;
+      }
+    } else {
+      session = undefined;
+    }
+    session ??= await this.startUpload(file, { ...options, fingerprint });
+
+    await this.uploadChunks(session, file, options);
+    return this.complete(session, options);
+  }
+
+  /**
+   * Reads the persisted session for a file, if an upload of it was started.
+   *
+   * @param fileOrFingerprint - The file, or the fingerprint it was uploaded with
+   * @returns Promise resolving to the session, or undefined
+   */
+  async getSession(
+    fileOrFingerprint: Blob | string
+  ): Promise<UploadSession | undefined> {
+    const fingerprint =
+      typeof fileOrFingerprint === "string"
+        ? fileOrFingerprint
+        : fingerprintOf(fileOrFingerprint);
+    try {
+      const raw = await this.storage.get(this.sessionKey(fingerprint));
+      return raw ? (JSON.parse(raw) as UploadSession) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Sends one file as multipart form data under the `file` field.
+   */
+  private async sendFile<T>(
+    method: "POST" | "PUT",
+    url: string,
+    input: FileInput,
+    options: FileUploadOptions
+  ): Promise<T> {
+    const { filename, contentType, ...requestOptions } = options;
+    const file = await toBlob(input, contentType, this.readFile);
+    const name =
+      filename ??
+      (input as File).name ??
+      (typeof input === "string" ? baseName(input) : "upload");
+
+    const formData = new FormData();
+    formData.append("file", withContentType(file, contentType, name), name);
+    return this.transport.request<T>({
+      method,
+      url,
+      headers: {},
+      body: formData,
+      signal: requestOptions.signal,
+      timeoutMs: requestOptions.timeoutMs,
+      retry: requestOptions.retry,
+      onProgress: requestOptions.onProgress,
+    });
+  }
+
+  /**
+   * Sends the chunks the session is missing, `concurrency` at a time.
+   */
+  private async uploadChunks(
+    session: UploadSession,
+    file: Blob,
+    options: ChunkedUploadOptions
+  ): Promise<void> {
+    const pending: number[] = [];
+    for (let i = 0; i < session.totalChunks; i++) {
+      if (!session.uploadedChunks.includes(i)) pending.push(i);
+    }
+
+    const chunkBytes = (index: number) =>
+      Math.min(session.chunkSize, session.size - index * session.chunkSize);
+    let done = session.uploadedChunks.reduce(
+      (sum, index) => sum + chunkBytes(index),
+      0
+    );
+    const inFlight = new Map<number, number>();
+    const report = () => {
+      if (!options.onProgress) return;
+      let loaded = done;
+      inFlight.forEach((bytes) => (loaded += bytes));
+      options.onProgress({
+        loaded,
+        total: session.size,
+        file: {
+          field: "file",
+          name: session.filename,
+          index: 0,
+          loaded,
+          total: session.size,
+        },
+      });
+    };
+    report();
+
+    let failure: unknown;
+    const worker = async () => {
+      while (pending.length > 0 && failure === undefined) {
+        const index = pending.shift()!;
+        inFlight.set(index, 0);
+        try {
+          await this.uploadChunk(session, file, index, {
+            signal: options.signal,
+            timeoutMs: options.timeoutMs,
+            retry: options.retry,
+            onProgress: options.onProgress
+              ? ({ loaded, total }) => {
+                  // Scale the request body to the chunk's bytes
+                  inFlight.set(
+                    index,
+                    total > 0 ? (loaded / total) * chunkBytes(index) : 0
+                  );
+                  report();
+                }
+              : undefined,
+          });
+          done += chunkBytes(index);
+        } catch (error) {
+          failure ??= error;
+        } finally {
+          inFlight.delete(index);
+        }
+        report();
+      }
+    };
+    const workers = Math.max(
+      1,
+      Math.min(options.concurrency ?? 3, pending.length)
+    );
+    await Promise.all(Array.from({ length: workers }, worker));
+    if (failure !== undefined) {
+      throw failure;
+    }
+  }
+
+  private sessionKey(fingerprint: string): string {
+    return `${this.storageKeyPrefix}upload:${fingerprint}`;
+  }
+
+  private async saveSession(session: UploadSession): Promise<void> {
+    await this.storage.set(
+      this.sessionKey(session.fingerprint),
+      JSON.stringify(session)
+    );
+  }
+}
+
+/**
+ * Reads any supported input into a Blob. Paths are read with `readFile`, so
+ * that `fs` stays out of browser bundles.
+ */
+async function toBlob(
+  input: FileInput,
+  contentType?: string,
+  readFile?: (path: string) => Promise<Blob>
+): Promise<Blob> {
+  if (typeof Blob !== "undefined" && input instanceof Blob) {
+    return input;
+  }
+  if (input instanceof ArrayBuffer || ArrayBuffer.isView(input)) {
+    return new Blob([input as BlobPart], { type: contentType });
+  }
+  if (
+    typeof ReadableStream !== "undefined" &&
+    input instanceof ReadableStream
+  ) {
+    return new Response(input).blob();
+  }
+  if (typeof input === "string") {
+    if (!readFile) {
+      throw new ValidationError(
+        'File paths need the `readFile` config option; in Node.js, pass `readFile` from "cocobase/node", otherwise a File or Blob'
+      );
+    }
+    try {
+      return await readFile(input);
+    } catch (error) {
+      throw new CocobaseError(`Could not read file "${input}"`, {
+        cause: error,
+        suggestion: "Check that the path exists and is readable",
+      });
+    }
+  }
+  throw new ValidationError(
+    "Unsupported upload input; pass a File, Blob, Buffer, Uint8Array, ArrayBuffer, ReadableStream or file path"
+  );
+}
+
+/**
+ * Sets the content type of a Blob that has none, from the explicit option or
+ * the file name.
+ */
+function withContentType(
+  file: Blob,
+  contentType: string | undefined,
+  filename: string
+): Blob {
+  const type = contentType || file.type || guessContentType(filename);
+  return type && type !== file.type ? new Blob([file], { type }) : file;
+}
+
+/**
+ * Guesses a content type from a file name's extension.
+ *
+ * @internal
+ */
+export function guessContentType(filename: string): string | undefined {
+  const extension = filename.split(".").pop()?.toLowerCase() ?? "";
+  return CONTENT_TYPES[extension];
+}
+
+function isURL(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+function baseName(path: string): string {
+  return path.split(/[\\/]/).pop() || "upload";
+}
+
+/**
+ * Identifies a file by name, size, type and modification time.
+ */
+function fingerprintOf(file: Blob): string {
+  const { name, lastModified } = file as Partial<File>;
+  return [name ?? "blob", file.size, file.type, lastModified ?? 0].join(":");
+}
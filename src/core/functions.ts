@@ -1,3 +1,6 @@
+import { HttpTransport, RequestOptions } from "./transport.js";
+import { CocobaseError } from "./errors.js";
+
 const BASEURL = "https://cloud.cocobase.buzz";
 
 /**
@@ -52,21 +55,28 @@ interface FunctionResponse<T> {
 export class CloudFunction {
   projectId: string;
   private getToken: () => string | undefined;
+  private transport: HttpTransport;
 
   /**
    * Creates a new CloudFunction client.
    *
    * @param projectId - Your Cocobase project ID
    * @param getToken - Function that returns the current authentication token
-   * @throws Error if projectId is empty or invalid
+   * @param transport - Shared HTTP transport (a private one is created if omitted)
+   * @throws {CocobaseError} If projectId is empty or invalid
    */
-  constructor(projectId: string, getToken: () => string | undefined) {
+  constructor(
+    projectId: string,
+    getToken: () => string | undefined,
+    transport?: HttpTransport
+  ) {
     this.projectId = projectId;
     this.getToken = getToken;
+    this.transport = transport ?? new HttpTransport({ baseURL: BASEURL });
 
     // Validate projectId
     if (!projectId || projectId.trim() === "") {
-      throw new Error(
+      throw new CocobaseError(
         "CloudFunction requires a valid projectId. Please provide projectId in CocobaseConfig."
       );
     }
@@ -78,8 +88,9 @@ export class CloudFunction {
    * @template T - The expected return type of the function
    * @param functionName - Name of the cloud function to execute
    * @param params - Optional parameters including payload and HTTP method
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
    * @returns Promise resolving to the function response with result and metadata
-   * @throws Error if projectId is invalid
+   * @throws {CocobaseError} If projectId is invalid or the function request fails
    *
    * @example
    * ```typescript
@@ -101,11 +112,12 @@ export class CloudFunction {
    */
   async execute<T>(
     functionName: string,
-    params?: FunctionParams
+    params?: FunctionParams,
+    options?: RequestOptions
   ): Promise<FunctionResponse<T>> {
     // Validate projectId again in case it was modified
     if (!this.projectId || this.projectId.trim() === "") {
-      throw new Error(
+      throw new CocobaseError(
         "Invalid projectId. Please ensure projectId is set in CocobaseConfig."
       );
     }
@@ -115,31 +127,29 @@ export class CloudFunction {
     // Default to GET if no params provided, otherwise use specified method or POST
     const method = params?.method ?? (params?.payload ? "POST" : "GET");
 
-    const fetchOptions: RequestInit = {
-      method,
-      headers: {
-        "Content-Type": "application/json",
-      },
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
     };
 
     // Get the latest token dynamically
     const token = this.getToken();
     if (token) {
-      fetchOptions.headers = {
-        ...fetchOptions.headers,
-        Authorization: `Bearer ${token}`,
-      };
+      headers.Authorization = `Bearer ${token}`;
     }
 
     // Only add body for POST/PUT requests with payload
-    if (method === "POST" && params?.payload) {
-      fetchOptions.body = JSON.stringify({
-        payload: params.payload,
-      });
-    }
+    const body =
+      method === "POST" && params?.payload
+        ? { payload: params.payload }
+        : undefined;
 
-    const res = await fetch(url, fetchOptions);
-    const data = await res.json();
-    return data as FunctionResponse<T>;
+    return this.transport.request<FunctionResponse<T>>({
+      method,
+      url,
+      headers,
+      body,
+      useDefaultHeaders: false,
+      ...options,
+    });
   }
 }
@@ -0,0 +1,129 @@
+import type { Document } from "../types/types.js";
+import { NotFoundError } from "./errors.js";
+
+/**
+ * Options for batching `getDocument` calls.
+ */
+export interface DocumentLoaderOptions {
+  /** Maximum number of IDs fetched in one request (default: 100) */
+  maxBatchSize?: number;
+}
+
+/**
+ * Fetches several documents of a collection in one request.
+ */
+export type BatchDocumentFetcher = (
+  collection: string,
+  ids: string[]
+) => Promise<Document<any>[]>;
+
+/**
+ * Fetches a single document.
+ */
+export type DocumentFetcher = (
+  collection: string,
+  id: string
+) => Promise<Document<any>>;
+
+interface PendingLoad {
+  resolve: (doc: Document<any>) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Coalesces `getDocument` calls made in the same tick into one request per
+ * collection, DataLoader style.
+ *
+ * IDs requested in the same tick are fetched with a single `id_in` query and
+ * each caller receives its own document, or a `NotFoundError` if the ID was not
+ * returned. A tick with a single ID uses the regular single-document request.
+ */
+export class DocumentLoader {
+  private fetchMany: BatchDocumentFetcher;
+  private fetchOne: DocumentFetcher;
+  private maxBatchSize: number;
+  private queues = new Map<string, Map<string, PendingLoad[]>>();
+
+  /**
+   * @param fetchMany - Fetches several documents of a collection by ID
+   * @param fetchOne - Fetches a single document by ID
+   * @param options - Batching options
+   */
+  constructor(
+    fetchMany: BatchDocumentFetcher,
+    fetchOne: DocumentFetcher,
+    options: DocumentLoaderOptions = {}
+  ) {
+    this.fetchMany = fetchMany;
+    this.fetchOne = fetchOne;
+    this.maxBatchSize = Math.max(1, options.maxBatchSize ?? 100);
+  }
+
+  /**
+   * Queues a document for the next batch of its collection.
+   *
+   * @param collection - Name of the collection
+   * @param id - Document ID
+   * @returns Promise resolving to the document
+   */
+  load<T = any>(collection: string, id: string): Promise<Document<T>> {
+    let queue = this.queues.get(collection);
+    if (!queue) {
+      queue = new Map();
+      this.queues.set(collection, queue);
+      queueMicrotask(() => this.dispatch(collection));
+    }
+    const waiting = queue.get(id) ?? [];
+    queue.set(id, waiting);
+    return new Promise<Document<T>>((resolve, reject) => {
+      waiting.push({ resolve, reject });
+    });
+  }
+
+  private dispatch(collection: string): void {
+    const queue = this.queues.get(collection);
+    this.queues.delete(collection);
+    if (!queue) return;
+
+    const ids = [...queue.keys()];
+    for (let i = 0; i < ids.length; i += this.maxBatchSize) {
+      const chunk = ids.slice(i, i + this.maxBatchSize);
+      const settle = (
+        id: string,
+        fn: (pending: PendingLoad) => void
+      ) => queue.get(id)!.forEach(fn);
+
+      if (chunk.length === 1) {
+        const id = chunk[0];
+        this.fetchOne(collection, id).then(
+          (doc) => settle(id, (p) => p.resolve(doc)),
+          (error) => settle(id, (p) => p.reject(error))
+        );
+        continue;
+      }
+
+      this.fetchMany(collection, chunk).then(
+        (docs) => {
+          const byId = new Map(docs.map((doc) => [doc.id, doc]));
+          for (const id of chunk) {
+            const doc = byId.get(id);
+            if (doc) {
+              settle(id, (p) => p.resolve(doc));
+            } else {
+              const error = new NotFoundError(
+                `Document "${id}" not found in collection "${collection}"`,
+                {
+                  statusCode: 404,
+                  method: "GET",
+                  url: `/collections/${collection}/documents/${id}`,
+                }
+              );
+              settle(id, (p) => p.reject(error));
+            }
+          }
+        },
+        (error) => chunk.forEach((id) => settle(id, (p) => p.reject(error)))
+      );
+    }
+  }
+}
@@ -0,0 +1,462 @@
+import type { AppUser, LinkedProvider } from "../types/types.js";
+import type { ProviderCredential } from "../types/params.js";
+import type { RequestOptions } from "./transport.js";
+import type { StorageAdapter } from "./storage.js";
+import { AuthError, CocobaseError, ValidationError } from "./errors.js";
+
+/**
+ * An OAuth 2.0 / OpenID Connect provider users can sign in with.
+ */
+export interface OAuthProviderConfig {
+  /** Client ID issued by the provider */
+  clientId: string;
+  /** Where the provider sends the user back; must be registered with the provider */
+  redirectUri: string;
+  /** Authorization endpoint (preset for google, github and apple) */
+  authorizeUrl?: string;
+  /** Scopes to request (preset for google, github and apple) */
+  scopes?: string[];
+  /**
+   * Cocobase endpoint that exchanges the authorization code for a session
+   * (default: `/auth-collections/<provider>-verify`). Required to sign in
+   * with google, whose `google-verify` only takes ID tokens. It receives
+   * `{ code, redirect_uri, code_verifier }` and returns
+   * `{ access_token, user }`.
+   */
+  verifyPath?: string;
+  /** Send a PKCE code challenge (default: true) */
+  pkce?: boolean;
+  /** Extra query parameters for the authorization URL, e.g. `{ prompt: 'consent' }` */
+  params?: Record<string, string>;
+}
+
+/**
+ * Per-call overrides for `getAuthorizeUrl`.
+ */
+export interface AuthorizeUrlOptions {
+  /** Redirect URI for this flow, overriding the provider's */
+  redirectUri?: string;
+  /** Scopes for this flow, overriding the provider's */
+  scopes?: string[];
+  /** Extra query parameters, merged over the provider's */
+  params?: Record<string, string>;
+  /**
+   * What the flow is for: "login" completes with `handleCallback`, "link"
+   * with `handleLinkCallback` (default: "login")
+   */
+  intent?: OAuthIntent;
+}
+
+/**
+ * What a redirect flow is for: signing in, or linking a provider to the
+ * signed-in account.
+ */
+export type OAuthIntent = "login" | "link";
+
+/**
+ * How an `OAuthClient` talks to the server and where it keeps pending flows.
+ */
+export interface OAuthClientInit {
+  /** Exchanges an authorization code for a session and returns the user */
+  exchange: (
+    path: string,
+    body: Record<string, string>,
+    options?: RequestOptions
+  ) => Promise<AppUser>;
+  /** Links a provider to the signed-in account */
+  link: (
+    provider: string,
+    credential: ProviderCredential,
+    options?: RequestOptions
+  ) => Promise<LinkedProvider[]>;
+  /** Where pending flows are kept between redirects */
+  storage: StorageAdapter;
+  /** Prefix of the storage key */
+  storageKeyPrefix: string;
+  /** Providers to register */
+  providers?: Record<string, OAuthProviderConfig>;
+}
+
+interface PendingFlow {
+  provider: string;
+  intent: OAuthIntent;
+  redirectUri: string;
+  codeVerifier?: string;
+  createdAt: number;
+}
+
+const PRESETS: Record<string, Partial<OAuthProviderConfig>> = {
+  google: {
+    authorizeUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+    scopes: ["openid", "email", "profile"],
+  },
+  github: {
+    authorizeUrl: "https://github.com/login/oauth/authorize",
+    scopes: ["read:user", "user:email"],
+  },
+  apple: {
+    authorizeUrl: "https://appleid.apple.com/auth/authorize",
+    scopes: ["name", "email"],
+    // Apple only returns requested scopes to a POSTed callback, so the
+    // redirect URI must be a server route
+    params: { response_mode: "form_post" },
+  },
+};
+
+// Providers whose default verify endpoint takes ID tokens, not codes
+const NO_CODE_EXCHANGE = ["google"];
+
+// Unfinished flows are dropped after this long
+const FLOW_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Registry of OAuth providers and the redirect-based sign-in flow, available
+ * as `db.auth.oauth`.
+ *
+ * `getAuthorizeUrl` creates a random `state` and a PKCE code verifier and keeps
+ * them in the session storage; `handleCallback` checks the `state` the provider
+ * sent back before exchanging the code, so forged or replayed callbacks are
+ * rejected.
+ *
+ * @example
+ * ```typescript
+ * const db = new Cocobase({
+ *   apiKey: 'your-api-key',
+ *   oauth: {
+ *     github: { clientId: 'gh-client-id', redirectUri: 'https://app.example.com/auth/callback' },
+ *   },
+ * });
+ *
+ * // Login button
+ * window.location.href = await db.auth.oauth.getAuthorizeUrl('github');
+ *
+ * // On https://app.example.com/auth/callback
+ * const user = await db.auth.oauth.handleCallback(window.location.href);
+ * ```
+ */
+export class OAuthClient {
+  private providers = new Map<string, OAuthProviderConfig>();
+  private init: OAuthClientInit;
+  private storageKey: string;
+
+  /**
+   * @param init - Server calls, storage and providers
+   */
+  constructor(init: OAuthClientInit) {
+    this.init = init;
+    this.storageKey = `${init.storageKeyPrefix}oauth`;
+    for (const [name, config] of Object.entries(init.providers ?? {})) {
+      this.register(name, config);
+    }
+  }
+
+  /**
+   * Registers a provider, or replaces one registered under the same name.
+   *
+   * `google`, `github` and `apple` only need a client ID and redirect URI;
+   * other providers also need `authorizeUrl` and `verifyPath`.
+   *
+   * @param name - Provider name used in `getAuthorizeUrl`
+   * @param config - Provider settings
+   * @throws {ValidationError} If a custom provider has no `authorizeUrl`
+   *
+   * @example
+   * ```typescript
+   * db.auth.oauth.register('okta', {
+   *   authorizeUrl: 'https://example.okta.com/oauth2/v1/authorize',
+   *   clientId: 'okta-client-id',
+   *   redirectUri: 'https://app.example.com/auth/callback',
+   *   scopes: ['openid', 'email', 'profile'],
+   *   verifyPath: '/auth-collections/oidc-verify',
+   * });
+   * ```
+   */
+  register(name: string, config: OAuthProviderConfig): void {
+    const provider = { ...PRESETS[name], ...config };
+    if (!provider.authorizeUrl) {
+      throw new ValidationError(
+        `OAuth provider "${name}" needs an authorizeUrl`
+      );
+    }
+    this.providers.set(name, provider);
+  }
+
+  /**
+   * Names of the registered providers.
+   */
+  listProviders(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Builds the URL that starts the sign-in flow, and remembers its `state`,
+   * PKCE verifier and intent for `handleCallback` or `handleLinkCallback`.
+   *
+   * @param provider - Registered provider name
+   * @param options - Per-flow overrides
+   * @returns Promise resolving to the provider's authorization URL
+   * @throws {ValidationError} If the provider is not registered, or is google
+   *   without a `verifyPath` and the flow is a sign-in
+   */
+  async getAuthorizeUrl(
+    provider: string,
+    options: AuthorizeUrlOptions = {}
+  ): Promise<string> {
+    const config = this.getProvider(provider);
+    const intent = options.intent ?? "login";
+    if (
+      intent === "login" &&
+      !config.verifyPath &&
+      NO_CODE_EXCHANGE.includes(provider)
+    ) {
+      throw new ValidationError(
+        `OAuth provider "${provider}" needs a verifyPath to sign in: ` +
+          `/auth-collections/${provider}-verify only accepts ID tokens`
+      );
+    }
+    const redirectUri = options.redirectUri ?? config.redirectUri;
+    const state = randomString(16);
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: config.clientId,
+      redirect_uri: redirectUri,
+      state,
+    });
+    const scopes = options.scopes ?? config.scopes ?? [];
+    if (scopes.length > 0) {
+      params.set("scope", scopes.join(" "));
+    }
+
+    let codeVerifier: string | undefined;
+    if (config.pkce !== false) {
+      codeVerifier = randomString(32);
+      params.set("code_challenge", await sha256(codeVerifier));
+      params.set("code_challenge_method", "S256");
+    }
+    for (const [key, value] of Object.entries({
+      ...config.params,
+      ...options.params,
+    })) {
+      params.set(key, value);
+    }
+
+    const flows = await this.loadFlows();
+    flows[state] = {
+      provider,
+      intent,
+      redirectUri,
+      codeVerifier,
+      createdAt: Date.now(),
+    };
+    await this.saveFlows(flows);
+
+    const separator = config.authorizeUrl!.includes("?") ? "&" : "?";
+    return `${config.authorizeUrl}${separator}${params.toString()}`;
+  }
+
+  /**
+   * Completes the sign-in flow on the redirect page.
+   *
+   * Apple posts its callback to the redirect URI instead of adding it to the
+   * URL, so its redirect URI must be a server route that hands the posted
+   * fields to this method.
+   *
+   * @param input - Callback URL, its query string, or the parameters the
+   *   provider sent (e.g. the body of Apple's form post)
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise resolving to the signed-in user
+   * @throws {AuthError} If the provider reported an error, or the `state` is
+   *   missing, unknown, expired or belongs to a link flow
+   */
+  async handleCallback(
+    input: string | URL | URLSearchParams | Record<string, string>,
+    options?: RequestOptions
+  ): Promise<AppUser> {
+    const { provider, code, redirectUri, codeVerifier } =
+      await this.takeCallback(input, "login");
+    return this.init.exchange(
+      this.getProvider(provider).verifyPath ??
+        `/auth-collections/${provider}-verify`,
+      {
+        code,
+        redirect_uri: redirectUri,
+        ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
+      },
+      options
+    );
+  }
+
+  /**
+   * Completes a flow started to link a provider to the signed-in account,
+   * instead of signing in with it. See `auth.linkProvider`.
+   *
+   * @param input - Callback URL, its query string, or the parameters the
+   *   provider sent
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise resolving to the account's linked providers
+   * @throws {AuthError} If the provider reported an error, or the `state` is
+   *   missing, unknown, expired or belongs to a sign-in flow
+   *
+   * @example
+   * ```typescript
+   * // Settings page: "Connect GitHub"
+   * window.location.href = await db.auth.oauth.getAuthorizeUrl('github', {
+   *   redirectUri: 'https://app.example.com/settings/link',
+   *   intent: 'link',
+   * });
+   *
+   * // On https://app.example.com/settings/link
+   * const providers = await db.auth.oauth.handleLinkCallback(window.location.href);
+   * ```
+   */
+  async handleLinkCallback(
+    input: string | URL | URLSearchParams | Record<string, string>,
+    options?: RequestOptions
+  ): Promise<LinkedProvider[]> {
+    const { provider, code, redirectUri, codeVerifier } =
+      await this.takeCallback(input, "link");
+    return this.init.link(
+      provider,
+      { code, redirectUri, codeVerifier },
+      options
+    );
+  }
+
+  /**
+   * Checks a callback against the pending flows and removes its flow. A flow
+   * started for another intent is rejected, so a sign-in callback can't be
+   * used to link an account or the other way round.
+   */
+  private async takeCallback(
+    input: string | URL | URLSearchParams | Record<string, string>,
+    intent: OAuthIntent
+  ): Promise<{
+    provider: string;
+    code: string;
+    redirectUri: string;
+    codeVerifier?: string;
+  }> {
+    const params = toSearchParams(input);
+    const error = params.get("error");
+    if (error) {
+      throw new AuthError(
+        `OAuth sign-in failed: ${params.get("error_description") ?? error}`,
+        {
+          detail: {
+            error,
+            error_description: params.get("error_description") ?? undefined,
+          },
+        }
+      );
+    }
+
+    const state = params.get("state");
+    const code = params.get("code");
+    const flows = await this.loadFlows();
+    const flow = state ? flows[state] : undefined;
+    if (!flow) {
+      throw new AuthError(
+        "OAuth state is missing, unknown or expired; start the sign-in again"
+      );
+    }
+    // A state can only be used once
+    delete flows[state!];
+    await this.saveFlows(flows);
+    if ((flow.intent ?? "login") !== intent) {
+      throw new AuthError(
+        flow.intent === "link"
+          ? "OAuth flow was started to link a provider; complete it with handleLinkCallback"
+          : "OAuth flow was started to sign in; complete it with handleCallback"
+      );
+    }
+    if (!code) {
+      throw new AuthError("OAuth callback has no authorization code");
+    }
+    return {
+      provider: flow.provider,
+      code,
+      redirectUri: flow.redirectUri,
+      codeVerifier: flow.codeVerifier,
+    };
+  }
+
+  private getProvider(name: string): OAuthProviderConfig {
+    const config = this.providers.get(name);
+    if (!config) {
+      throw new ValidationError(
+        `OAuth provider "${name}" is not registered; add it to the \`oauth\` config option or call oauth.register()`
+      );
+    }
+    return config;
+  }
+
+  private async loadFlows(): Promise<Record<string, PendingFlow>> {
+    let flows: Record<string, PendingFlow> = {};
+    try {
+      const raw = await this.init.storage.get(this.storageKey);
+      flows = raw ? JSON.parse(raw) : {};
+    } catch {
+      // Corrupt or unreadable; start over
+    }
+    const now = Date.now();
+    for (const [state, flow] of Object.entries(flows)) {
+      if (now - flow.createdAt > FLOW_TTL_MS) delete flows[state];
+    }
+    return flows;
+  }
+
+  private async saveFlows(flows: Record<string, PendingFlow>): Promise<void> {
+    if (Object.keys(flows).length === 0) {
+      await this.init.storage.remove(this.storageKey);
+    } else {
+      await this.init.storage.set(this.storageKey, JSON.stringify(flows));
+    }
+  }
+}
+
+function toSearchParams(
+  input: string | URL | URLSearchParams | Record<string, string>
+): URLSearchParams {
+  if (input instanceof URLSearchParams) return input;
+  if (input instanceof URL) return input.searchParams;
+  if (typeof input === "string") {
+    const query = input.includes("?")
+      ? input.substring(input.indexOf("?") + 1)
+      : input;
+    return new URLSearchParams(query.split("#")[0]);
+  }
+  return new URLSearchParams(input);
+}
+
+function getCrypto(): Crypto {
+  if (typeof crypto === "undefined" || !crypto.subtle) {
+    throw new CocobaseError(
+      "OAuth sign-in needs the Web Crypto API (crypto.getRandomValues and crypto.subtle)"
+    );
+  }
+  return crypto;
+}
+
+/**
+ * Random base64url string made from `bytes` random bytes.
+ */
+function randomString(bytes: number): string {
+  return base64url(getCrypto().getRandomValues(new Uint8Array(bytes)));
+}
+
+async function sha256(value: string): Promise<string> {
+  const digest = await getCrypto().subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value)
+  );
+  return base64url(new Uint8Array(digest));
+}
+
+function base64url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
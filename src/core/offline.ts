@@ -0,0 +1,556 @@
+import type { Document } from "../types/types.js";
+import type { RequestOptions } from "./transport.js";
+import {
+  CocobaseError,
+  NetworkError,
+  NotFoundError,
+  TimeoutError,
+} from "./errors.js";
+import { getFromLocalStorage, setToLocalStorage } from "../utils/utils.js";
+
+/**
+ * A write that can be queued while offline.
+ */
+export type MutationInput =
+  | { type: "create"; collection: string; data: any }
+  | { type: "update"; collection: string; docId: string; data: any }
+  | { type: "delete"; collection: string; docId: string };
+
+/**
+ * A write waiting in the offline queue.
+ */
+export type QueuedMutation = MutationInput & {
+  /** Unique ID of the queued mutation */
+  id: string;
+  /** Temporary document ID returned for a queued create */
+  tempId?: string;
+  /** ISO timestamp of when the mutation was queued */
+  queuedAt: string;
+  /** Number of replay attempts that hit a network error */
+  attempts: number;
+};
+
+/**
+ * Persistent storage for the offline queue.
+ */
+export interface OfflineStore {
+  /** Loads the queued mutations saved earlier */
+  load(): Promise<QueuedMutation[]> | QueuedMutation[];
+  /** Saves the current queue, replacing what was saved before */
+  save(mutations: QueuedMutation[]): Promise<void> | void;
+  /**
+   * Loads the real IDs of replayed creates, keyed by temporary ID. Without
+   * it, temporary IDs still held by the app are not resolved after a reload.
+   */
+  loadIds?(): Promise<Record<string, string>> | Record<string, string>;
+  /** Saves the real IDs of replayed creates, keyed by temporary ID */
+  saveIds?(ids: Record<string, string>): Promise<void> | void;
+}
+
+/**
+ * Options for offline mode.
+ */
+export interface OfflineOptions {
+  /** Where queued mutations are persisted (default: localStorage in browsers, memory elsewhere) */
+  store?: OfflineStore;
+  /**
+   * Replay the queue on its own: when a saved queue is loaded, after the
+   * server was unreachable (with backoff) and when the browser fires an
+   * `online` event (default: true)
+   */
+  autoSync?: boolean;
+  /** First delay before replaying after the server was unreachable; doubles on each failure, up to a minute (default: 1000) */
+  retryDelayMs?: number;
+}
+
+/**
+ * Payloads of the offline queue events.
+ */
+export interface OfflineEventMap {
+  /** A mutation was queued instead of sent */
+  queued: { mutation: QueuedMutation };
+  /** A queued mutation was replayed successfully */
+  synced: { mutation: QueuedMutation; result: unknown };
+  /** The server rejected a replayed mutation because the document changed or no longer exists (404, 409, 412) */
+  conflict: { mutation: QueuedMutation; error: CocobaseError };
+  /** The server rejected a replayed mutation for another reason; it is dropped from the queue */
+  failed: { mutation: QueuedMutation; error: unknown };
+  /** A queued mutation was dropped unsent because the create of its temporary ID was rejected */
+  dropped: { mutation: QueuedMutation };
+}
+
+export type OfflineEventType = keyof OfflineEventMap;
+
+export type OfflineEventCallback<E extends OfflineEventType> = (
+  event: OfflineEventMap[E]
+) => void;
+
+/**
+ * Sends a mutation to the server.
+ */
+export type MutationSender = (
+  mutation: MutationInput,
+  options?: RequestOptions
+) => Promise<unknown>;
+
+const TEMP_ID_PREFIX = "temp_";
+// Resolved temporary IDs kept, oldest dropped first
+const MAX_RESOLVED_IDS = 1000;
+const MAX_RETRY_DELAY_MS = 60_000;
+const CONFLICT_STATUSES = [404, 409, 412];
+const UNAVAILABLE_STATUSES = [502, 503, 504];
+
+/**
+ * Keeps the offline queue in memory. Queued writes are lost on reload.
+ */
+export class MemoryOfflineStore implements OfflineStore {
+  private mutations: QueuedMutation[] = [];
+  private ids: Record<string, string> = {};
+
+  load(): QueuedMutation[] {
+    return this.mutations.map((m) => ({ ...m }));
+  }
+
+  save(mutations: QueuedMutation[]): void {
+    this.mutations = mutations.map((m) => ({ ...m }));
+  }
+
+  loadIds(): Record<string, string> {
+    return { ...this.ids };
+  }
+
+  saveIds(ids: Record<string, string>): void {
+    this.ids = { ...ids };
+  }
+}
+
+/**
+ * Persists the offline queue as JSON in localStorage.
+ */
+export class LocalStorageOfflineStore implements OfflineStore {
+  private key: string;
+
+  /**
+   * @param key - localStorage key (default: "cocobase-offline-queue"); the
+   *   ID map is saved under the same key with an "-ids" suffix
+   */
+  constructor(key: string = "cocobase-offline-queue") {
+    this.key = key;
+  }
+
+  load(): QueuedMutation[] {
+    return readJson(this.key, []);
+  }
+
+  save(mutations: QueuedMutation[]): void {
+    setToLocalStorage(this.key, JSON.stringify(mutations));
+  }
+
+  loadIds(): Record<string, string> {
+    return readJson(`${this.key}-ids`, {});
+  }
+
+  saveIds(ids: Record<string, string>): void {
+    setToLocalStorage(`${this.key}-ids`, JSON.stringify(ids));
+  }
+}
+
+/**
+ * Queues document writes while the network is unavailable and replays them
+ * in order when it comes back.
+ *
+ * Enable it with the `offline` config option. While offline (or while older
+ * writes are still queued) `createDocument`, `updateDocument` and
+ * `deleteDocument` resolve immediately with an optimistic result; creates get a
+ * temporary ID that later queued writes may use and that is replaced by the
+ * real ID on replay. The queue is replayed when a saved queue is loaded, when
+ * the browser comes back online, and with backoff after the server was
+ * unreachable.
+ *
+ * @example
+ * ```typescript
+ * const db = new Cocobase({ apiKey: 'your-api-key', offline: true });
+ *
+ * db.offline!.on('synced', ({ mutation, result }) => {
+ *   console.log('Saved', mutation.type, mutation.collection, result);
+ * });
+ * db.offline!.on('conflict', ({ mutation, error }) => {
+ *   console.warn('Document changed on the server', mutation, error.detail);
+ * });
+ *
+ * const draft = await db.createDocument('notes', { text: 'Written offline' });
+ * await db.updateDocument('notes', draft.id, { pinned: true }); // temp ID is fine
+ * ```
+ */
+export class OfflineQueue {
+  private store: OfflineStore;
+  private sender: MutationSender;
+  private queue: QueuedMutation[] = [];
+  private idMap = new Map<string, string>();
+  private listeners = new Map<OfflineEventType, Function[]>();
+  private ready: Promise<void>;
+  private syncing?: Promise<void>;
+  private autoSync: boolean;
+  private retryDelayMs: number;
+  private retries = 0;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private onOnline = () => {
+    this.syncNow();
+  };
+
+  /**
+   * @param sender - Sends a mutation to the server
+   * @param options - Offline options
+   * @param storageKeyPrefix - Prefix of the default localStorage key (default: "cocobase-")
+   */
+  constructor(
+    sender: MutationSender,
+    options: OfflineOptions = {},
+    storageKeyPrefix: string = "cocobase-"
+  ) {
+    this.sender = sender;
+    this.autoSync = options.autoSync !== false;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    this.store =
+      options.store ??
+      (typeof window !== "undefined" &&
+      typeof window.localStorage !== "undefined"
+        ? new LocalStorageOfflineStore(`${storageKeyPrefix}offline-queue`)
+        : new MemoryOfflineStore());
+    this.ready = Promise.all([
+      this.store.load(),
+      this.store.loadIds?.() ?? {},
+    ]).then(([mutations, ids]) => {
+      this.queue = [...mutations, ...this.queue];
+      this.idMap = new Map(Object.entries(ids));
+      // Writes saved before a reload are sent even if the browser stays online
+      if (mutations.length > 0) this.syncNow();
+    });
+
+    if (
+      this.autoSync &&
+      typeof window !== "undefined" &&
+      typeof window.addEventListener === "function"
+    ) {
+      window.addEventListener("online", this.onOnline);
+    }
+  }
+
+  /**
+   * Mutations waiting to be replayed, oldest first.
+   */
+  get pending(): readonly QueuedMutation[] {
+    return this.queue;
+  }
+
+  /**
+   * Whether an ID is a temporary ID handed out for a queued create.
+   *
+   * @param id - Document ID
+   */
+  isTemporaryId(id: string): boolean {
+    return id.startsWith(TEMP_ID_PREFIX);
+  }
+
+  /**
+   * Returns the real ID for a temporary ID once its create has been replayed,
+   * or the ID unchanged.
+   *
+   * @param id - Document ID
+   */
+  resolveId(id: string): string {
+    return this.idMap.get(id) ?? id;
+  }
+
+  /**
+   * Sends a mutation, or queues it and returns an optimistic result when the
+   * network is unavailable or earlier mutations are still queued.
+   *
+   * @param input - Mutation to send
+   * @param options - Request options for the first attempt
+   * @returns Promise resolving to the server or optimistic result
+   * @throws {NotFoundError} If the mutation uses a temporary ID whose create
+   *   was rejected
+   */
+  async submit<T>(input: MutationInput, options?: RequestOptions): Promise<T> {
+    await this.ready;
+    const mutation = this.remap(input);
+    if ("docId" in mutation && this.isOrphaned(mutation.docId)) {
+      throw new NotFoundError(
+        `Document ${mutation.docId} was never created: its queued create was rejected`
+      );
+    }
+
+    const online =
+      typeof navigator === "undefined" || navigator.onLine !== false;
+    const dependsOnQueue =
+      "docId" in mutation && this.isTemporaryId(mutation.docId);
+    if (online && this.queue.length === 0 && !dependsOnQueue) {
+      try {
+        return (await this.sender(mutation, options)) as T;
+      } catch (error) {
+        if (!isOfflineError(error)) throw error;
+        // The browser may still consider itself online, so no `online`
+        // event is coming
+        const result = await this.enqueue(mutation);
+        this.scheduleRetry();
+        return result as T;
+      }
+    }
+    return this.enqueue(mutation) as T;
+  }
+
+  /**
+   * Replays queued mutations in order. Stops at the first network error and
+   * leaves the rest queued. Concurrent calls share one replay.
+   *
+   * @returns Promise resolving when the queue is empty
+   * @throws {NetworkError} If the network is still unavailable
+   */
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.replay().finally(() => {
+        this.syncing = undefined;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Drops every queued mutation without sending it.
+   */
+  async clear(): Promise<void> {
+    await this.ready;
+    this.queue = [];
+    await this.store.save(this.queue);
+  }
+
+  /**
+   * Registers an event listener.
+   *
+   * @param event - Event type to listen for
+   * @param callback - Callback receiving the event payload
+   * @returns Unsubscribe function
+   */
+  on<E extends OfflineEventType>(
+    event: E,
+    callback: OfflineEventCallback<E>
+  ): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, []);
+    }
+    this.listeners.get(event)!.push(callback);
+    return () => this.off(event, callback);
+  }
+
+  /**
+   * Removes an event listener.
+   *
+   * @param event - Event type
+   * @param callback - Callback to remove
+   */
+  off<E extends OfflineEventType>(
+    event: E,
+    callback: OfflineEventCallback<E>
+  ): void {
+    const callbacks = this.listeners.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index !== -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Stops listening for `online` events and cancels a scheduled replay.
+   */
+  dispose(): void {
+    if (typeof window !== "undefined" && window.removeEventListener) {
+      window.removeEventListener("online", this.onOnline);
+    }
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+  }
+
+  // Replays in the background, retrying later if the server is unreachable
+  private syncNow(): void {
+    if (!this.autoSync) return;
+    this.sync().then(
+      () => {
+        this.retries = 0;
+      },
+      (error) => {
+        if (isOfflineError(error)) this.scheduleRetry();
+      }
+    );
+  }
+
+  private scheduleRetry(): void {
+    if (!this.autoSync || this.retryTimer) return;
+    const delay = Math.min(
+      this.retryDelayMs * 2 ** this.retries,
+      MAX_RETRY_DELAY_MS
+    );
+    this.retries++;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.syncNow();
+    }, delay);
+    // Don't keep a Node process alive just to retry
+    (this.retryTimer as { unref?: () => void }).unref?.();
+  }
+
+  private async enqueue(input: MutationInput): Promise<unknown> {
+    const now = new Date().toISOString();
+    const mutation: QueuedMutation = {
+      ...input,
+      id: randomId(),
+      queuedAt: now,
+      attempts: 0,
+    };
+    if (mutation.type === "create") {
+      mutation.tempId = `${TEMP_ID_PREFIX}${randomId()}`;
+    }
+    this.queue.push(mutation);
+    await this.store.save(this.queue);
+    this.emit("queued", { mutation });
+
+    if (mutation.type === "delete") {
+      return { success: true };
+    }
+    const doc: Document<any> = {
+      id: mutation.type === "create" ? mutation.tempId! : mutation.docId,
+      data: mutation.data,
+      collection_id: "",
+      created_at: now,
+      collection: { name: mutation.collection, id: "", created_at: now },
+    };
+    return doc;
+  }
+
+  private async replay(): Promise<void> {
+    await this.ready;
+    while (this.queue.length > 0) {
+      const mutation = this.queue[0];
+      if ("docId" in mutation && this.isOrphaned(mutation.docId)) {
+        this.queue.shift();
+        await this.store.save(this.queue);
+        this.emit("dropped", { mutation });
+        continue;
+      }
+      let result: unknown;
+      try {
+        result = await this.sender(mutation);
+      } catch (error) {
+        if (isOfflineError(error)) {
+          mutation.attempts++;
+          await this.store.save(this.queue);
+          throw error;
+        }
+        this.queue.shift();
+        await this.store.save(this.queue);
+        if (
+          error instanceof CocobaseError &&
+          CONFLICT_STATUSES.includes(error.statusCode ?? 0)
+        ) {
+          this.emit("conflict", { mutation, error });
+        } else {
+          this.emit("failed", { mutation, error });
+        }
+        continue;
+      }
+
+      this.queue.shift();
+      const realId = (result as Document<any> | undefined)?.id;
+      if (mutation.tempId && realId) {
+        this.idMap.set(mutation.tempId, realId);
+        if (this.idMap.size > MAX_RESOLVED_IDS) {
+          this.idMap.delete(this.idMap.keys().next().value as string);
+        }
+        // Saved before the queue, so a reload never loses a real ID
+        await this.store.saveIds?.(Object.fromEntries(this.idMap));
+        this.queue = this.queue.map((m) => this.remap(m));
+      }
+      await this.store.save(this.queue);
+      this.emit("synced", { mutation, result });
+    }
+  }
+
+  // A temporary ID still unresolved after its create left the queue belongs to
+  // a create that was rejected
+  private isOrphaned(id: string): boolean {
+    return (
+      this.isTemporaryId(id) && !this.queue.some((m) => m.tempId === id)
+    );
+  }
+
+  // Replaces temporary IDs that have a real ID in the document ID and data
+  private remap<M extends MutationInput>(mutation: M): M {
+    if (this.idMap.size === 0) return mutation;
+    const remapped = { ...mutation };
+    if ("docId" in remapped) {
+      remapped.docId = this.resolveId(remapped.docId);
+    }
+    if ("data" in remapped) {
+      remapped.data = replaceIds(remapped.data, this.idMap);
+    }
+    return remapped;
+  }
+
+  private emit<E extends OfflineEventType>(
+    event: E,
+    payload: OfflineEventMap[E]
+  ): void {
+    for (const callback of [...(this.listeners.get(event) ?? [])]) {
+      try {
+        callback(payload);
+      } catch (err) {
+        console.error(`Error in offline ${event} callback:`, err);
+      }
+    }
+  }
+}
+
+/**
+ * Errors that mean the request did not reach the server, or the server is
+ * temporarily unavailable, so the write should be queued or retried later.
+ */
+function isOfflineError(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return true;
+  }
+  return (
+    error instanceof CocobaseError &&
+    UNAVAILABLE_STATUSES.includes(error.statusCode ?? 0)
+  );
+}
+
+function replaceIds(value: unknown, ids: Map<string, string>): any {
+  if (typeof value === "string") return ids.get(value) ?? value;
+  if (Array.isArray(value)) return value.map((v) => replaceIds(v, ids));
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, replaceIds(v, ids)])
+    );
+  }
+  return value;
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  const raw = getFromLocalStorage(key);
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return fallback;
+  }
+}
+
+function randomId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
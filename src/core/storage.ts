@@ -0,0 +1,193 @@
+/**
+ * Key-value storage used to persist the auth session.
+ *
+ * Methods may be synchronous or return promises, so both `localStorage`-style
+ * and async stores (AsyncStorage, IndexedDB, files) can be plugged in.
+ *
+ * @example
+ * ```typescript
+ * // React Native
+ * import AsyncStorage from '@react-native-async-storage/async-storage';
+ *
+ * const db = new Cocobase({
+ *   apiKey: 'your-api-key',
+ *   storage: {
+ *     get: (key) => AsyncStorage.getItem(key),
+ *     set: (key, value) => AsyncStorage.setItem(key, value),
+ *     remove: (key) => AsyncStorage.removeItem(key),
+ *   },
+ * });
+ * ```
+ */
+export interface StorageAdapter {
+  /** Returns the stored value, or null if there is none */
+  get(
+    key: string
+  ): string | null | undefined | Promise<string | null | undefined>;
+  /** Stores a value */
+  set(key: string, value: string): void | Promise<void>;
+  /** Removes a value */
+  remove(key: string): void | Promise<void>;
+}
+
+/**
+ * Keeps values in memory. Sessions last until the process or page exits.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private values = new Map<string, string>();
+
+  get(key: string): string | null {
+    return this.values.get(key) ?? null;
+  }
+
+  set(key: string, value: string): void {
+    this.values.set(key, value);
+  }
+
+  remove(key: string): void {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * Wraps a Web Storage object, doing nothing when it is unavailable
+ * (server-side rendering, private mode quota errors).
+ */
+class WebStorageAdapter implements StorageAdapter {
+  private name: "localStorage" | "sessionStorage";
+
+  constructor(name: "localStorage" | "sessionStorage") {
+    this.name = name;
+  }
+
+  get(key: string): string | null {
+    try {
+      return this.storage()?.getItem(key) ?? null;
+    } catch (err) {
+      console.warn(`Error accessing ${this.name}:`, err);
+      return null;
+    }
+  }
+
+  set(key: string, value: string): void {
+    try {
+      this.storage()?.setItem(key, value);
+    } catch (err) {
+      console.warn(`Error setting ${this.name}:`, err);
+    }
+  }
+
+  remove(key: string): void {
+    try {
+      this.storage()?.removeItem(key);
+    } catch (err) {
+      console.warn(`Error removing from ${this.name}:`, err);
+    }
+  }
+
+  private storage(): Storage | undefined {
+    if (typeof window === "undefined") return undefined;
+    return window[this.name] ?? undefined;
+  }
+}
+
+/**
+ * Persists values in `window.localStorage`. This is the default in browsers.
+ */
+export class LocalStorageAdapter extends WebStorageAdapter {
+  constructor() {
+    super("localStorage");
+  }
+}
+
+/**
+ * Persists values in `window.sessionStorage`, so the session ends when the tab
+ * is closed.
+ */
+export class SessionStorageAdapter extends WebStorageAdapter {
+  constructor() {
+    super("sessionStorage");
+  }
+}
+
+/**
+ * Options for CookieStorageAdapter.
+ */
+export interface CookieStorageOptions {
+  /** Cookie path (default: "/") */
+  path?: string;
+  /** Cookie domain (default: current host) */
+  domain?: string;
+  /** Lifetime in seconds (default: session cookie) */
+  maxAge?: number;
+  /** SameSite attribute (default: "Lax") */
+  sameSite?: "Strict" | "Lax" | "None";
+  /** Only send over HTTPS (default: true when the page is served over HTTPS) */
+  secure?: boolean;
+}
+
+/**
+ * Persists values in `document.cookie`, e.g. to share the session with
+ * subdomains or server-rendered pages.
+ */
+export class CookieStorageAdapter implements StorageAdapter {
+  private options: CookieStorageOptions;
+
+  /**
+   * @param options - Cookie attributes
+   */
+  constructor(options: CookieStorageOptions = {}) {
+    this.options = options;
+  }
+
+  get(key: string): string | null {
+    if (typeof document === "undefined") return null;
+    const name = `${encodeURIComponent(key)}=`;
+    for (const part of document.cookie.split(";")) {
+      const cookie = part.trim();
+      if (cookie.startsWith(name)) {
+        return decodeURIComponent(cookie.substring(name.length));
+      }
+    }
+    return null;
+  }
+
+  set(key: string, value: string): void {
+    this.write(key, encodeURIComponent(value), this.options.maxAge);
+  }
+
+  remove(key: string): void {
+    this.write(key, "", 0);
+  }
+
+  private write(key: string, value: string, maxAge?: number): void {
+    if (typeof document === "undefined") return;
+    const { path = "/", domain, sameSite = "Lax" } = this.options;
+    const secure =
+      this.options.secure ??
+      (typeof location !== "undefined" && location.protocol === "https:");
+    const attributes = [
+      `${encodeURIComponent(key)}=${value}`,
+      `path=${path}`,
+      `SameSite=${sameSite}`,
+    ];
+    if (domain) attributes.push(`domain=${domain}`);
+    if (maxAge !== undefined) attributes.push(`max-age=${maxAge}`);
+    if (secure) attributes.push("secure");
+    document.cookie = attributes.join("; ");
+  }
+}
+
+/**
+ * Returns the default session storage: localStorage in browsers, memory
+ * elsewhere.
+ */
+export function createDefaultStorage(): StorageAdapter {
+  if (
+    typeof window !== "undefined" &&
+    typeof window.localStorage !== "undefined"
+  ) {
+    return new LocalStorageAdapter();
+  }
+  return new MemoryStorageAdapter();
+}
@@ -0,0 +1,106 @@
+import type { AppUser } from "../types/types.js";
+
+/**
+ * A session change sent to the other tabs.
+ */
+export interface SessionChange {
+  /** What happened: a sign-in, a sign-out, or a new token or user */
+  event: "login" | "logout" | "update";
+  /** The new token, if it changed */
+  token?: string;
+  /** The new user, if it changed */
+  user?: AppUser;
+}
+
+interface TabMessage extends SessionChange {
+  /** ID of the sending TabSync, so it can ignore its own messages */
+  source: string;
+}
+
+/**
+ * Sends session changes to the other tabs of the same origin.
+ *
+ * Uses `BroadcastChannel` where available and falls back to `storage` events
+ * on a localStorage key named after the channel. Does nothing when neither is
+ * available.
+ */
+export class TabSync {
+  private name: string;
+  private id =
+    Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+  private onChange: (change: SessionChange) => void;
+  private channel?: BroadcastChannel;
+  private onStorage = (event: StorageEvent) => {
+    if (event.key !== this.name || !event.newValue) return;
+    try {
+      this.receive(JSON.parse(event.newValue));
+    } catch {
+      // Not one of our messages
+    }
+  };
+
+  /**
+   * @param name - Channel name; tabs using the same name see each other's changes
+   * @param onChange - Called with each change made in another tab
+   */
+  constructor(name: string, onChange: (change: SessionChange) => void) {
+    this.name = name;
+    this.onChange = onChange;
+
+    if (typeof BroadcastChannel !== "undefined") {
+      this.channel = new BroadcastChannel(name);
+      this.channel.onmessage = (event) => this.receive(event.data);
+      // Don't keep Node.js processes alive just to listen
+      (this.channel as { unref?: () => void }).unref?.();
+    } else if (
+      typeof window !== "undefined" &&
+      typeof window.addEventListener === "function"
+    ) {
+      window.addEventListener("storage", this.onStorage);
+    }
+  }
+
+  /**
+   * Sends a change to the other tabs.
+   *
+   * @param change - Session change
+   */
+  post(change: SessionChange): void {
+    const message: TabMessage = { ...change, source: this.id };
+    try {
+      if (this.channel) {
+        this.channel.postMessage(message);
+      } else if (
+        typeof window !== "undefined" &&
+        typeof window.localStorage !== "undefined"
+      ) {
+        // The storage event only fires when the value changes, and removing
+        // the key right away keeps the message out of storage
+        window.localStorage.setItem(
+          this.name,
+          JSON.stringify({ ...message, sentAt: Date.now() })
+        );
+        window.localStorage.removeItem(this.name);
+      }
+    } catch (err) {
+      console.warn("Error syncing auth session across tabs:", err);
+    }
+  }
+
+  /**
+   * Stops sending and receiving changes.
+   */
+  close(): void {
+    this.channel?.close();
+    this.channel = undefined;
+    if (typeof window !== "undefined" && window.removeEventListener) {
+      window.removeEventListener("storage", this.onStorage);
+    }
+  }
+
+  private receive(message: TabMessage): void {
+    if (!message || message.source === this.id) return;
+    const { event, token, user } = message;
+    this.onChange({ event, token, user });
+  }
+}
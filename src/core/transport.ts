@@ -0,0 +1,606 @@
+import { BASEURL } from "../utils/utils.js";
+import { sendWithProgress } from "./upload.js";
+import type { UploadProgressCallback } from "./upload.js";
+import {
+  CocobaseError,
+  NetworkError,
+  TimeoutError,
+  createHttpError,
+} from "./errors.js";
+
+/**
+ * HTTP methods supported by the transport.
+ */
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/**
+ * A request as seen by the transport and its interceptors.
+ *
+ * Interceptors may return a modified copy to add headers, rewrite the URL or
+ * transform the body before it is sent.
+ */
+export interface TransportRequest {
+  /** HTTP method */
+  method: HttpMethod;
+  /** Absolute URL, or a path relative to the transport's base URL */
+  url: string;
+  /** Request headers */
+  headers: Record<string, string>;
+  /**
+   * Request body. Plain objects and arrays are JSON encoded; `FormData`,
+   * `Blob`, `URLSearchParams`, strings and buffers are sent as-is.
+   */
+  body?: unknown;
+  /** Whether the transport's default headers (API key, token) are added (default: true) */
+  useDefaultHeaders?: boolean;
+  /** Retry policy override for this request, or `false` to disable retries */
+  retry?: RetryPolicy | false;
+  /** Signal that cancels the request (including pending retries) when aborted */
+  signal?: AbortSignal;
+  /** Timeout for the whole call, including retries, in milliseconds (0 disables it) */
+  timeoutMs?: number;
+  /** Receives upload progress of the request body */
+  onProgress?: UploadProgressCallback;
+}
+
+/**
+ * Controls how failed requests are retried.
+ *
+ * Delays grow exponentially from `baseDelayMs`. A `Retry-After` header on the
+ * response takes precedence over the computed delay. Non-idempotent methods
+ * are only retried on 429, since the server did not process the request.
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each attempt (default: 2) */
+  backoffFactor?: number;
+  /** Randomise delays so clients don't retry in lockstep (default: true) */
+  jitter?: boolean;
+  /** HTTP status codes that trigger a retry (default: [429, 502, 503, 504]) */
+  retryOnStatus?: number[];
+  /** Whether network failures are retried (default: true) */
+  retryOnNetworkError?: boolean;
+  /** Methods that are safe to retry after a network failure or 5xx (default: GET, PUT, DELETE) */
+  idempotentMethods?: HttpMethod[];
+}
+
+/**
+ * Per-call options accepted by network methods.
+ */
+export interface RequestOptions {
+  /** Retry policy override for this call, or `false` to disable retries */
+  retry?: RetryPolicy | false;
+  /** Signal that cancels the call when aborted (e.g. a stale search request) */
+  signal?: AbortSignal;
+  /** Timeout for this call in milliseconds, overriding the client default (0 disables it) */
+  timeoutMs?: number;
+}
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  backoffFactor: 2,
+  jitter: true,
+  retryOnStatus: [429, 502, 503, 504],
+  retryOnNetworkError: true,
+  idempotentMethods: ["GET", "PUT", "DELETE"],
+};
+
+/**
+ * Runs before a request is sent. Return the (possibly modified) request.
+ */
+export type RequestInterceptor = (
+  request: TransportRequest
+) => TransportRequest | Promise<TransportRequest>;
+
+/**
+ * Runs after a response is received. Return the (possibly replaced) response.
+ */
+export type ResponseInterceptor = (
+  response: Response,
+  request: TransportRequest
+) => Response | Promise<Response>;
+
+/**
+ * Runs when a request fails, either on a network error or a non-2xx status.
+ * Return a `Response` to recover from the error, return nothing to let it
+ * propagate, or throw to replace it. A recovered response with a non-2xx
+ * status is thrown as an error in turn.
+ */
+export type ErrorInterceptor = (
+  error: unknown,
+  request: TransportRequest
+) => Response | void | Promise<Response | void>;
+
+/**
+ * Interceptors that can be registered up-front through `CocobaseConfig`.
+ */
+export interface TransportInterceptors {
+  request?: RequestInterceptor[];
+  response?: ResponseInterceptor[];
+  error?: ErrorInterceptor[];
+}
+
+/**
+ * Options for creating an HttpTransport.
+ */
+export interface HttpTransportOptions {
+  /** Base URL prepended to relative request paths */
+  baseURL?: string;
+  /** Returns headers added to every request (e.g. API key and auth token) */
+  headers?: () => Record<string, string>;
+  /** Custom fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /** Interceptors to register on creation */
+  interceptors?: TransportInterceptors;
+  /** Default retry policy, or `false` to disable retries */
+  retry?: RetryPolicy | false;
+  /** Default timeout for each call in milliseconds (default: no timeout) */
+  timeoutMs?: number;
+}
+
+/**
+ * Ordered list of interceptors of a single kind.
+ */
+export class InterceptorChain<T> {
+  private handlers: T[] = [];
+
+  /**
+   * Registers an interceptor.
+   *
+   * @param handler - Interceptor to add
+   * @returns Function that removes the interceptor again
+   */
+  use(handler: T): () => void {
+    this.handlers.push(handler);
+    return () => {
+      const index = this.handlers.indexOf(handler);
+      if (index !== -1) {
+        this.handlers.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Removes all registered interceptors.
+   */
+  clear(): void {
+    this.handlers = [];
+  }
+
+  /** @internal */
+  list(): T[] {
+    return [...this.handlers];
+  }
+}
+
+/**
+ * Shared HTTP transport used by every Cocobase network call.
+ *
+ * Every CRUD, auth, file upload and cloud function request goes through a
+ * single transport, so interceptors registered here apply SDK-wide.
+ *
+ * @example
+ * ```typescript
+ * const db = new Cocobase({ apiKey: 'your-api-key' });
+ *
+ * // Add a tracing header to every request
+ * db.transport.interceptors.request.use((req) => ({
+ *   ...req,
+ *   headers: { ...req.headers, 'x-trace-id': crypto.randomUUID() },
+ * }));
+ *
+ * // Log every response
+ * db.transport.interceptors.response.use((res, req) => {
+ *   console.log(req.method, req.url, res.status);
+ *   return res;
+ * });
+ * ```
+ */
+export class HttpTransport {
+  baseURL: string;
+  interceptors: {
+    request: InterceptorChain<RequestInterceptor>;
+    response: InterceptorChain<ResponseInterceptor>;
+    error: InterceptorChain<ErrorInterceptor>;
+  };
+  private getDefaultHeaders: () => Record<string, string>;
+  private fetchImpl?: typeof fetch;
+  private retryPolicy: RetryPolicy | false;
+  private timeoutMs?: number;
+
+  /**
+   * Creates a new HttpTransport.
+   *
+   * @param options - Transport options
+   */
+  constructor(options: HttpTransportOptions = {}) {
+    this.baseURL = options.baseURL ?? BASEURL;
+    this.getDefaultHeaders = options.headers ?? (() => ({}));
+    this.fetchImpl = options.fetch;
+    this.retryPolicy = options.retry ?? {};
+    this.timeoutMs = options.timeoutMs;
+    this.interceptors = {
+      request: new InterceptorChain<RequestInterceptor>(),
+      response: new InterceptorChain<ResponseInterceptor>(),
+      error: new InterceptorChain<ErrorInterceptor>(),
+    };
+    options.interceptors?.request?.forEach((i) =>
+      this.interceptors.request.use(i)
+    );
+    options.interceptors?.response?.forEach((i) =>
+      this.interceptors.response.use(i)
+    );
+    options.interceptors?.error?.forEach((i) => this.interceptors.error.use(i));
+  }
+
+  /**
+   * Sends a request and resolves with the raw response, whatever its status.
+   *
+   * Request interceptors run before sending, response interceptors after.
+   * Retryable failures are retried according to the retry policy; error
+   * interceptors run on network failures and timeouts that are not retried.
+   * Aborting `request.signal` rejects with the signal's abort reason.
+   *
+   * @param request - Request to send
+   * @returns Promise resolving to the response
+   * @throws {TimeoutError} If the call does not complete within its timeout
+   */
+  async send(request: TransportRequest): Promise<Response> {
+    let req = this.prepare(request);
+    for (const interceptor of this.interceptors.request.list()) {
+      req = await interceptor(req);
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(req.signal?.reason);
+    if (req.signal?.aborted) {
+      throw abortReason(req.signal);
+    }
+    req.signal?.addEventListener("abort", onAbort);
+
+    const timeoutMs = req.timeoutMs ?? this.timeoutMs;
+    let timedOut = false;
+    const timer = timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+    let res: Response;
+    try {
+      res = await this.fetchWithRetry(req, controller.signal);
+    } catch (error) {
+      if (req.signal?.aborted) {
+        throw abortReason(req.signal);
+      }
+      res = await this.handleError(
+        error instanceof CocobaseError
+          ? error
+          : timedOut
+          ? new TimeoutError(
+              `${req.method} request to ${req.url} timed out after ${timeoutMs}ms`,
+              { url: req.url, method: req.method, timeoutMs, cause: error }
+            )
+          : new NetworkError(
+              `Network error during ${req.method} request to ${req.url}: ${
+                error instanceof Error ? error.message : error
+              }`,
+              { url: req.url, method: req.method, cause: error }
+            ),
+        req
+      );
+    } finally {
+      clearTimeout(timer);
+      req.signal?.removeEventListener("abort", onAbort);
+    }
+
+    for (const interceptor of this.interceptors.response.list()) {
+      res = await interceptor(res, req);
+    }
+    return res;
+  }
+
+  /**
+   * Sends a request and resolves with the parsed JSON body.
+   *
+   * @template T - Expected response type
+   * @param request - Request to send
+   * @returns Promise resolving to the parsed response body
+   * @throws {NetworkError} If the request could not be sent
+   * @throws {CocobaseError} If the server responds with a non-2xx status (or a subclass
+   *   such as NotFoundError, AuthError, RateLimitError or ValidationError)
+   */
+  async request<T>(request: TransportRequest): Promise<T> {
+    let res = await this.send(request);
+    if (!res.ok) {
+      const url = this.resolveURL(request.url);
+      res = await this.handleError(
+        await this.createHttpError(res, url, request.method),
+        request
+      );
+      // An interceptor may recover with a response that failed too, e.g. a retry
+      if (!res.ok) {
+        throw await this.createHttpError(res, url, request.method);
+      }
+    }
+    return res.json() as Promise<T>;
+  }
+
+  /**
+   * Provides error suggestions based on HTTP status codes.
+   *
+   * @param status - HTTP status code
+   * @param method - HTTP method used
+   * @returns Suggestion string
+   */
+  getErrorSuggestion(status: number, method: string): string {
+    switch (status) {
+      case 401:
+        return "Check if your API key is valid and properly set";
+      case 403:
+        return "You don't have permission to perform this action. Verify your access rights";
+      case 404:
+        return "The requested resource was not found. Verify the path and ID are correct";
+      case 405:
+        return `The ${method} method is not allowed for this endpoint. Check the API documentation for supported methods`;
+      case 429:
+        return "You've exceeded the rate limit and automatic retries were exhausted. Reduce your request rate or adjust the `retry` option in CocobaseConfig";
+      default:
+        return "Check the API documentation and verify your request format";
+    }
+  }
+
+  private prepare(request: TransportRequest): TransportRequest {
+    const useDefaultHeaders = request.useDefaultHeaders ?? true;
+    const headers: Record<string, string> = {
+      ...(useDefaultHeaders ? this.getDefaultHeaders() : {}),
+      ...request.headers,
+    };
+    if (isJsonBody(request.body) && !hasHeader(headers, "Content-Type")) {
+      headers["Content-Type"] = "application/json";
+    }
+    return { ...request, url: this.resolveURL(request.url), headers };
+  }
+
+  private resolveURL(url: string): string {
+    return /^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `${this.baseURL}${url}`;
+  }
+
+  private async fetchWithRetry(
+    req: TransportRequest,
+    signal: AbortSignal
+  ): Promise<Response> {
+    const policy = this.resolveRetryPolicy(req);
+    const idempotent = policy.idempotentMethods.includes(req.method);
+
+    for (let attempt = 1; ; attempt++) {
+      const canRetry = attempt < policy.maxAttempts;
+      let res: Response;
+      try {
+        res = await this.doFetch(req, signal);
+      } catch (error) {
+        if (
+          signal.aborted ||
+          !canRetry ||
+          !policy.retryOnNetworkError ||
+          !idempotent
+        ) {
+          throw error;
+        }
+        await sleep(backoffDelay(policy, attempt), signal);
+        continue;
+      }
+
+      if (
+        !canRetry ||
+        !policy.retryOnStatus.includes(res.status) ||
+        (!idempotent && res.status !== 429)
+      ) {
+        return res;
+      }
+
+      const retryAfter = parseRetryAfter(res.headers.get("Retry-After"));
+      if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) {
+        // The server asked us to wait longer than we are willing to
+        return res;
+      }
+      res.body?.cancel().catch(() => undefined);
+      await sleep(retryAfter ?? backoffDelay(policy, attempt), signal);
+    }
+  }
+
+  private resolveRetryPolicy(req: TransportRequest): Required<RetryPolicy> {
+    const disabled =
+      req.retry === false ||
+      !isReplayable(req.body) ||
+      (this.retryPolicy === false && req.retry === undefined);
+    if (disabled) {
+      return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+    }
+    // A per-call policy wins over a client-wide `retry: false`
+    return {
+      ...DEFAULT_RETRY_POLICY,
+      ...(this.retryPolicy || {}),
+      ...req.retry,
+    };
+  }
+
+  private doFetch(
+    req: TransportRequest,
+    signal: AbortSignal
+  ): Promise<Response> {
+    if (req.onProgress && req.body !== undefined && req.body !== null) {
+      return sendWithProgress(req, signal, this.fetchImpl);
+    }
+    const fetchFn = this.fetchImpl ?? fetch;
+    const body =
+      req.body === undefined || req.body === null
+        ? undefined
+        : isJsonBody(req.body)
+        ? JSON.stringify(req.body)
+        : (req.body as BodyInit);
+    return fetchFn(req.url, {
+      method: req.method,
+      headers: req.headers,
+      signal,
+      ...(body !== undefined ? { body } : {}),
+    });
+  }
+
+  private async createHttpError(
+    res: Response,
+    url: string,
+    method: string
+  ): Promise<CocobaseError> {
+    const errorText = await res.text();
+    let errorDetail;
+    try {
+      errorDetail = JSON.parse(errorText);
+    } catch {
+      errorDetail = errorText;
+    }
+    if (
+      errorDetail &&
+      typeof errorDetail === "object" &&
+      "detail" in errorDetail
+    ) {
+      errorDetail = errorDetail.detail;
+    }
+
+    return createHttpError({
+      statusCode: res.status,
+      url,
+      method,
+      detail: errorDetail,
+      suggestion: this.getErrorSuggestion(res.status, method),
+      retryAfterMs: parseRetryAfter(res.headers.get("Retry-After")),
+    });
+  }
+
+  private async handleError(
+    error: unknown,
+    req: TransportRequest
+  ): Promise<Response> {
+    for (const interceptor of this.interceptors.error.list()) {
+      const recovered = await interceptor(error, req);
+      if (recovered) {
+        return recovered;
+      }
+    }
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new CocobaseError(
+      `Unexpected error during ${req.method} request to ${req.url}: ${error}`,
+      { url: req.url, method: req.method, cause: error }
+    );
+  }
+}
+
+/**
+ * Computes the exponential backoff delay before the given retry.
+ */
+function backoffDelay(policy: Required<RetryPolicy>, attempt: number): number {
+  const delay = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * Math.pow(policy.backoffFactor, attempt - 1)
+  );
+  return policy.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/**
+ * Parses a `Retry-After` header (delta seconds or HTTP date) into milliseconds.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * Waits for the given delay, rejecting early if the signal is aborted.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * The error an aborted signal should reject with.
+ *
+ * @internal
+ */
+export function abortReason(signal: AbortSignal): unknown {
+  if (signal.reason !== undefined) {
+    return signal.reason;
+  }
+  const error = new Error("The operation was aborted");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * Whether a request body can be sent more than once.
+ */
+function isReplayable(body: unknown): boolean {
+  return !(
+    typeof ReadableStream !== "undefined" && body instanceof ReadableStream
+  );
+}
+
+/**
+ * Whether a request body should be JSON encoded.
+ */
+function isJsonBody(body: unknown): boolean {
+  if (body === undefined || body === null) return false;
+  if (typeof body !== "object") return false;
+  if (typeof FormData !== "undefined" && body instanceof FormData) return false;
+  if (typeof Blob !== "undefined" && body instanceof Blob) return false;
+  if (typeof URLSearchParams !== "undefined" && body instanceof URLSearchParams)
+    return false;
+  if (typeof ReadableStream !== "undefined" && body instanceof ReadableStream)
+    return false;
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return false;
+  return true;
+}
+
+/**
+ * Whether `headers` has a header, compared case-insensitively.
+ *
+ * @internal
+ */
+export function hasHeader(
+  headers: Record<string, string>,
+  name: string
+): boolean {
+  const lower = name.toLowerCase();
+  return Object.keys(headers).some((key) => key.toLowerCase() === lower);
+}
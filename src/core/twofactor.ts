@@ -0,0 +1,194 @@
+import type { AppUser } from "../types/types.js";
+import type { RequestOptions } from "./transport.js";
+import { AuthError, CocobaseError, TwoFactorError } from "./errors.js";
+
+/**
+ * How a challenge talks to the server.
+ */
+export interface TwoFactorChallengeInit {
+  /** Email of the user signing in */
+  email: string;
+  /** Message from the server, e.g. "2FA code sent to your email" */
+  message?: string;
+  /** How long the code stays valid, in milliseconds (default: 10 minutes) */
+  expiresInMs?: number;
+  /** How many wrong codes are accepted before the challenge fails (default: 5) */
+  maxAttempts?: number;
+  /** Completes the login with a code */
+  verify: (code: string, options?: RequestOptions) => Promise<AppUser>;
+  /** Sends a new code */
+  resend: (options?: RequestOptions) => Promise<void>;
+  /**
+   * Called when the challenge stops accepting codes (`false`: the code
+   * expired or no attempts are left) or accepts them again after `resend()`
+   * (`true`)
+   */
+  onUsableChange?: (usable: boolean) => void;
+}
+
+/**
+ * A login waiting for its second factor, returned by `login` and `register`
+ * when 2FA is required.
+ *
+ * Holds everything a 2FA screen needs: who is signing in, when the code
+ * expires, how many attempts are left, and how to verify or resend the code.
+ *
+ * @example
+ * ```typescript
+ * const result = await db.auth.login({ email, password });
+ * if (result.requires_2fa) {
+ *   const challenge = result.challenge;
+ *   try {
+ *     const user = await challenge.verify(code);
+ *   } catch (err) {
+ *     if (err instanceof TwoFactorError && err.reason === 'invalid_code') {
+ *       showError(`Wrong code, ${challenge.remainingAttempts} attempts left`);
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export class TwoFactorChallenge {
+  /** Email of the user signing in */
+  readonly email: string;
+  /** Message from the server, e.g. "2FA code sent to your email" */
+  readonly message?: string;
+  /** How many wrong codes are accepted before the challenge fails */
+  readonly maxAttempts: number;
+  private init: TwoFactorChallengeInit;
+  private expiresInMs: number;
+  private expiry: number;
+  private failedAttempts = 0;
+  private completed = false;
+  private usable = true;
+  private expiryTimer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * @param init - Challenge details and server calls
+   */
+  constructor(init: TwoFactorChallengeInit) {
+    this.init = init;
+    this.email = init.email;
+    this.message = init.message;
+    this.maxAttempts = Math.max(1, init.maxAttempts ?? 5);
+    this.expiresInMs = init.expiresInMs ?? 10 * 60 * 1000;
+    this.expiry = Date.now() + this.expiresInMs;
+    this.watchExpiry();
+  }
+
+  /** When the current code expires */
+  get expiresAt(): Date {
+    return new Date(this.expiry);
+  }
+
+  /** Whether the current code has expired */
+  get isExpired(): boolean {
+    return Date.now() >= this.expiry;
+  }
+
+  /** Number of codes rejected so far */
+  get attempts(): number {
+    return this.failedAttempts;
+  }
+
+  /** Number of codes that may still be tried */
+  get remainingAttempts(): number {
+    return Math.max(0, this.maxAttempts - this.failedAttempts);
+  }
+
+  /**
+   * Completes the login with the code the user entered.
+   *
+   * @param code - Code from the email or authenticator app, or a recovery code
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   * @returns Promise resolving to the signed-in user
+   * @throws {TwoFactorError} If the code is wrong (`invalid_code`), the code has
+   *   expired (`expired`) or no attempts are left (`too_many_attempts`)
+   */
+  async verify(code: string, options?: RequestOptions): Promise<AppUser> {
+    if (this.completed) {
+      throw new AuthError("This 2FA challenge has already been completed");
+    }
+    if (this.remainingAttempts === 0) {
+      this.setUsable(false);
+      throw new TwoFactorError(
+        "Too many incorrect 2FA codes; log in again to get a new code",
+        { reason: "too_many_attempts" }
+      );
+    }
+    if (this.isExpired) {
+      this.setUsable(false);
+      throw new TwoFactorError(
+        "The 2FA code has expired; request a new one with resend()",
+        { reason: "expired" }
+      );
+    }
+
+    try {
+      const user = await this.init.verify(code, options);
+      this.completed = true;
+      clearTimeout(this.expiryTimer);
+      return user;
+    } catch (error) {
+      // Only a rejected code counts as an attempt, not a network failure
+      if (
+        error instanceof CocobaseError &&
+        [400, 401, 403, 422].includes(error.statusCode ?? 0)
+      ) {
+        this.failedAttempts++;
+        if (this.remainingAttempts === 0) {
+          clearTimeout(this.expiryTimer);
+          this.setUsable(false);
+        }
+        throw new TwoFactorError(
+          this.remainingAttempts > 0
+            ? `Incorrect 2FA code, ${this.remainingAttempts} attempts left`
+            : "Incorrect 2FA code and no attempts left; log in again",
+          {
+            reason:
+              this.remainingAttempts > 0 ? "invalid_code" : "too_many_attempts",
+            statusCode: error.statusCode,
+            url: error.url,
+            method: error.method,
+            detail: error.detail,
+            cause: error,
+          }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Sends a new code and restarts the expiry. Rejected attempts still count.
+   *
+   * @param options - Optional per-call request options (signal, timeoutMs, retry)
+   */
+  async resend(options?: RequestOptions): Promise<void> {
+    if (this.completed) {
+      throw new AuthError("This 2FA challenge has already been completed");
+    }
+    await this.init.resend(options);
+    this.expiry = Date.now() + this.expiresInMs;
+    if (this.remainingAttempts > 0) {
+      this.watchExpiry();
+      this.setUsable(true);
+    }
+  }
+
+  // Reports the expiry when it happens, not only on the next verify()
+  private watchExpiry(): void {
+    clearTimeout(this.expiryTimer);
+    this.expiryTimer = setTimeout(
+      () => this.setUsable(false),
+      Math.max(0, this.expiry - Date.now())
+    );
+    (this.expiryTimer as { unref?: () => void }).unref?.();
+  }
+
+  private setUsable(usable: boolean): void {
+    if (this.completed || usable === this.usable) return;
+    this.usable = usable;
+    this.init.onUsableChange?.(usable);
+  }
+}
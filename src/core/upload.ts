@@ -0,0 +1,360 @@
+import { hasHeader } from "./transport.js";
+import type { RequestOptions, TransportRequest } from "./transport.js";
+
+/**
+ * Progress of one file in a multipart upload.
+ */
+export interface FileProgress {
+  /** Form field the file is sent under */
+  field: string;
+  /** File name */
+  name: string;
+  /** Position of the file among the files of its field (0 for single files) */
+  index: number;
+  /** Bytes of this file sent so far */
+  loaded: number;
+  /** Size of this file in bytes */
+  total: number;
+}
+
+/**
+ * Progress of an upload, passed to `onProgress`.
+ */
+export interface UploadProgress {
+  /** Bytes of the request body sent so far */
+  loaded: number;
+  /** Size of the request body in bytes */
+  total: number;
+  /** The file whose progress changed, when the body is multipart form data */
+  file?: FileProgress;
+}
+
+/**
+ * Receives upload progress.
+ */
+export type UploadProgressCallback = (progress: UploadProgress) => void;
+
+/**
+ * Per-call options accepted by methods that upload files.
+ */
+export interface UploadOptions extends RequestOptions {
+  /**
+   * Called as the request body is sent. With several files, there is one call
+   * per file whose progress changed.
+   */
+  onProgress?: UploadProgressCallback;
+}
+
+interface BodyLayout {
+  files: {
+    field: string;
+    name: string;
+    index: number;
+    /** Offset of the file among the form values */
+    start: number;
+    size: number;
+  }[];
+  /** Bytes of all form values, without multipart headers and boundaries */
+  payloadSize: number;
+}
+
+interface EncodedBody {
+  /** Bytes and blobs sent one after another as the body */
+  parts: (Uint8Array | Blob)[];
+  /** Size of the body in bytes */
+  size: number;
+  contentType: string | null;
+}
+
+// Size of the slices read while streaming a body in Node
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Sends a request and reports upload progress to `req.onProgress`.
+ *
+ * In browsers the body goes as is to `XMLHttpRequest`, whose upload events
+ * track bytes on the wire. Elsewhere, or with a custom `fetch`, form data is
+ * encoded as multipart here: part headers and text fields up front, files in
+ * slices read only when `fetch` pulls them, so no file is held in memory
+ * whole. Progress counts the bytes handed to `fetch`.
+ *
+ * @internal
+ */
+export async function sendWithProgress(
+  req: TransportRequest,
+  signal: AbortSignal,
+  fetchImpl?: typeof fetch
+): Promise<Response> {
+  const layout = describeBody(req.body);
+  const report = createReporter(layout, req.onProgress!);
+
+  if (!fetchImpl && typeof XMLHttpRequest !== "undefined") {
+    return sendWithXhr(req, layout, signal, report);
+  }
+
+  const { parts, size, contentType } = await encodeBody(req.body);
+  const headers = { ...req.headers };
+  if (contentType && !hasHeader(headers, "Content-Type")) {
+    headers["Content-Type"] = contentType;
+  }
+
+  let part = 0;
+  let offset = 0;
+  let loaded = 0;
+  const stream = new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        while (part < parts.length && offset >= sizeOf(parts[part])) {
+          part++;
+          offset = 0;
+        }
+        if (part >= parts.length) {
+          controller.close();
+          return;
+        }
+        const current = parts[part];
+        const chunk =
+          current instanceof Uint8Array
+            ? current.subarray(offset, offset + CHUNK_SIZE)
+            : new Uint8Array(
+                await current.slice(offset, offset + CHUNK_SIZE).arrayBuffer()
+              );
+        controller.enqueue(chunk);
+        offset += chunk.byteLength;
+        loaded += chunk.byteLength;
+        report(loaded, size);
+      },
+    },
+    // Only read a slice when fetch asks for it, so progress follows the upload
+    { highWaterMark: 0 }
+  );
+  return (fetchImpl ?? fetch)(req.url, {
+    method: req.method,
+    headers,
+    body: stream,
+    signal,
+    // Required by fetch for streaming request bodies
+    duplex: "half",
+  } as RequestInit);
+}
+
+/**
+ * Sends the body unchanged, so the browser streams files from disk and sets
+ * the multipart boundary itself.
+ */
+function sendWithXhr(
+  req: TransportRequest,
+  layout: BodyLayout,
+  signal: AbortSignal,
+  report: (loaded: number, total: number) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason ?? new Error("Upload aborted"));
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    xhr.open(req.method, req.url);
+    for (const [name, value] of Object.entries(req.headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+    xhr.responseType = "blob";
+    // Until the browser reports the size on the wire, estimate it
+    let total = layout.payloadSize;
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) total = event.total;
+      report(event.loaded, Math.max(total, event.loaded));
+    };
+    xhr.onload = () => {
+      report(total, total);
+      const status = xhr.status;
+      const noBody = [101, 204, 205, 304].includes(status);
+      resolve(
+        new Response(noBody ? null : xhr.response, {
+          status,
+          statusText: xhr.statusText,
+          headers: parseHeaders(xhr.getAllResponseHeaders()),
+        })
+      );
+    };
+    xhr.onerror = () => reject(new TypeError("Network request failed"));
+    xhr.ontimeout = () => reject(new TypeError("Network request timed out"));
+    xhr.onabort = () => reject(signal.reason ?? new Error("Upload aborted"));
+    xhr.onloadend = () => signal.removeEventListener("abort", onAbort);
+    signal.addEventListener("abort", onAbort, { once: true });
+    xhr.send(req.body as XMLHttpRequestBodyInit);
+  });
+}
+
+/**
+ * Splits a body into the parts it is sent as. Files stay as blobs, so they
+ * are only read slice by slice while streaming.
+ */
+async function encodeBody(body: unknown): Promise<EncodedBody> {
+  if (typeof FormData !== "undefined" && body instanceof FormData) {
+    return encodeMultipart(body);
+  }
+  if (typeof Blob !== "undefined" && body instanceof Blob) {
+    return { parts: [body], size: body.size, contentType: body.type || null };
+  }
+  // Strings, buffers and search params are already in memory
+  const encoded = new Response(body as BodyInit);
+  const bytes = new Uint8Array(await encoded.arrayBuffer());
+  return {
+    parts: [bytes],
+    size: bytes.byteLength,
+    contentType: encoded.headers.get("Content-Type"),
+  };
+}
+
+/**
+ * Encodes form data as `multipart/form-data` the way `fetch` would, keeping
+ * each file as a blob between its part header and trailing line break.
+ */
+function encodeMultipart(form: FormData): EncodedBody {
+  const boundary = `----CocobaseFormBoundary${randomHex()}${randomHex()}`;
+  const encoder = new TextEncoder();
+  const parts: (Uint8Array | Blob)[] = [];
+
+  form.forEach((value, field) => {
+    const head =
+      `--${boundary}\r\n` +
+      `Content-Disposition: form-data; name="${escapeName(field)}"`;
+    if (typeof value === "string") {
+      const text = value.replace(/\r\n|\r|\n/g, "\r\n");
+      parts.push(encoder.encode(`${head}\r\n\r\n${text}\r\n`));
+      return;
+    }
+    const type = value.type || "application/octet-stream";
+    parts.push(
+      encoder.encode(
+        `${head}; filename="${escapeName(value.name)}"\r\n` +
+          `Content-Type: ${type}\r\n\r\n`
+      ),
+      value,
+      encoder.encode("\r\n")
+    );
+  });
+  parts.push(encoder.encode(`--${boundary}--\r\n`));
+
+  const size = parts.reduce((total, part) => total + sizeOf(part), 0);
+  return {
+    parts,
+    size,
+    contentType: `multipart/form-data; boundary=${boundary}`,
+  };
+}
+
+function escapeName(name: string): string {
+  return name
+    .replace(/\n/g, "%0A")
+    .replace(/\r/g, "%0D")
+    .replace(/"/g, "%22");
+}
+
+function randomHex(): string {
+  return Math.random().toString(16).slice(2);
+}
+
+function sizeOf(part: Uint8Array | Blob): number {
+  return part instanceof Uint8Array ? part.byteLength : part.size;
+}
+
+/**
+ * Records where each file of a `FormData` body sits among its values,
+ * without reading any of them.
+ */
+function describeBody(body: unknown): BodyLayout {
+  const files: BodyLayout["files"] = [];
+  let payloadSize = 0;
+
+  if (typeof FormData !== "undefined" && body instanceof FormData) {
+    const counts = new Map<string, number>();
+    body.forEach((value, field) => {
+      if (typeof value === "string") {
+        payloadSize += new TextEncoder().encode(value).byteLength;
+        return;
+      }
+      const index = counts.get(field) ?? 0;
+      counts.set(field, index + 1);
+      files.push({
+        field,
+        name: value.name,
+        index,
+        start: payloadSize,
+        size: value.size,
+      });
+      payloadSize += value.size;
+    });
+  } else if (typeof Blob !== "undefined" && body instanceof Blob) {
+    payloadSize = body.size;
+  }
+
+  return { files, payloadSize };
+}
+
+/**
+ * Turns byte counts of the whole body into progress events.
+ *
+ * Multipart headers and boundaries are spread evenly over the body, so each
+ * file's progress is an estimate that reaches its size when the body is sent.
+ */
+function createReporter(
+  layout: BodyLayout,
+  onProgress: UploadProgressCallback
+): (loaded: number, total: number) => void {
+  const sent = layout.files.map(() => -1);
+  let last = -1;
+
+  return (loaded, total) => {
+    loaded = Math.min(loaded, total);
+    if (loaded === last) return;
+    last = loaded;
+
+    const payloadLoaded =
+      total > 0 ? (loaded / total) * layout.payloadSize : layout.payloadSize;
+    let reported = false;
+    layout.files.forEach((file, i) => {
+      const fileLoaded =
+        loaded === total
+          ? file.size
+          : Math.max(
+              0,
+              Math.min(file.size, Math.floor(payloadLoaded - file.start))
+            );
+      const reached = payloadLoaded >= file.start + file.size;
+      if (fileLoaded === sent[i] || (fileLoaded === 0 && !reached)) return;
+      sent[i] = fileLoaded;
+      reported = true;
+      onProgress({
+        loaded,
+        total,
+        file: {
+          field: file.field,
+          name: file.name,
+          index: file.index,
+          loaded: fileLoaded,
+          total: file.size,
+        },
+      });
+    });
+    if (!reported) {
+      onProgress({ loaded, total });
+    }
+  };
+}
+
+function parseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      headers.append(
+        line.slice(0, separator).trim(),
+        line.slice(separator + 1).trim()
+      );
+    }
+  }
+  return headers;
+}
@@ -0,0 +1,249 @@
+import { FileValidationError } from "./errors.js";
+import { guessContentType } from "./files.js";
+
+/**
+ * Rules for the files sent under one form field.
+ */
+export interface FileRule {
+  /** Largest allowed file, in bytes */
+  maxSize?: number;
+  /**
+   * Allowed types, like the `accept` attribute of a file input: MIME types
+   * ("image/png"), wildcards ("image/*") or extensions (".pdf")
+   */
+  accept?: string | string[];
+  /** Most files allowed in the field, for array fields */
+  maxCount?: number;
+  /**
+   * Check the file's first bytes: a file whose content does not match its
+   * declared type is rejected, and `accept` types and extensions are checked
+   * against the detected type (default: false)
+   */
+  sniff?: boolean;
+}
+
+/**
+ * Rules for each file field, keyed by field name.
+ *
+ * @example
+ * ```typescript
+ * const rules: FileRules = {
+ *   avatar: { maxSize: 2 * 1024 * 1024, accept: "image/*", sniff: true },
+ *   gallery: { maxCount: 5, accept: [".jpg", ".png"] },
+ * };
+ * ```
+ */
+export type FileRules = Record<string, FileRule>;
+
+/**
+ * One broken rule, listed by `FileValidationError.violations`.
+ */
+export interface FileViolation {
+  /** Form field of the file */
+  field: string;
+  /** The rule that was broken */
+  rule: "maxSize" | "accept" | "maxCount" | "content";
+  /** Human-readable description */
+  message: string;
+  /** Name of the offending file (absent for `maxCount`) */
+  file?: string;
+  /** Position of the file among the files of its field */
+  index?: number;
+}
+
+interface Signature {
+  type: string;
+  /** Byte values, ASCII text, or null for any byte */
+  bytes: (number | string | null)[];
+  offset?: number;
+}
+
+// ISO media files (MP4, MOV, M4A, HEIC, AVIF...) start with an "ftyp" box
+// whose brand, right after it, tells the format apart
+function isoMedia(type: string, brands: string[]): Signature[] {
+  return brands.map((brand) => ({ type, bytes: ["ftyp", brand], offset: 4 }));
+}
+
+// Leading bytes of common formats. Office documents are ZIP archives.
+const ZIP = [0x50, 0x4b, 0x03, 0x04];
+const SIGNATURES: Signature[] = [
+  { type: "image/png", bytes: [0x89, "PNG", 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { type: "image/gif", bytes: ["GIF8"] },
+  { type: "image/webp", bytes: ["RIFF", null, null, null, null, "WEBP"] },
+  { type: "image/bmp", bytes: ["BM"] },
+  { type: "application/pdf", bytes: ["%PDF-"] },
+  { type: "application/zip", bytes: ZIP },
+  {
+    type: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    bytes: ZIP,
+  },
+  {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    bytes: ZIP,
+  },
+  { type: "application/gzip", bytes: [0x1f, 0x8b] },
+  { type: "audio/mpeg", bytes: ["ID3"] },
+  { type: "audio/mpeg", bytes: [0xff, 0xfb] },
+  { type: "audio/wav", bytes: ["RIFF", null, null, null, null, "WAVE"] },
+  ...isoMedia("video/mp4", ["isom", "iso2", "mp41", "mp42", "mp4x", "avc1"]),
+  ...isoMedia("video/quicktime", ["qt  "]),
+  ...isoMedia("audio/mp4", ["M4A "]),
+  ...isoMedia("image/heic", ["heic", "heix", "mif1"]),
+  ...isoMedia("image/avif", ["avif", "avis"]),
+  { type: "video/webm", bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+];
+
+// Bytes read from the start of each file when sniffing
+const SNIFF_LENGTH = 16;
+
+/**
+ * Checks files against per-field rules, without sending anything.
+ *
+ * Every file of every field with rules is checked, so the error lists all
+ * problems at once. Fields without rules are not checked.
+ *
+ * The `*WithFiles` methods call this when given `rules`; call it directly to
+ * validate a form as the user picks files.
+ *
+ * @param files - Object mapping field names to files, as passed to
+ *   `createDocumentWithFiles`
+ * @param rules - Rules for each field
+ * @throws {FileValidationError} Listing every violation
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await validateFiles({ avatar: file }, { avatar: { maxSize: 1_000_000 } });
+ * } catch (err) {
+ *   if (err instanceof FileValidationError) {
+ *     err.violations.forEach((v) => showFieldError(v.field, v.message));
+ *   }
+ * }
+ * ```
+ */
+export async function validateFiles(
+  files: Record<string, File | File[]>,
+  rules: FileRules
+): Promise<void> {
+  const violations: FileViolation[] = [];
+  for (const [field, rule] of Object.entries(rules)) {
+    const value = files[field];
+    if (value === undefined) continue;
+    const list = Array.isArray(value) ? value : [value];
+
+    if (rule.maxCount !== undefined && list.length > rule.maxCount) {
+      violations.push({
+        field,
+        rule: "maxCount",
+        message: `${field}: ${list.length} files were given; at most ${rule.maxCount} are allowed`,
+      });
+    }
+    for (let index = 0; index < list.length; index++) {
+      violations.push(...(await checkFile(field, index, list[index], rule)));
+    }
+  }
+  if (violations.length > 0) {
+    throw new FileValidationError(violations);
+  }
+}
+
+async function checkFile(
+  field: string,
+  index: number,
+  file: File,
+  rule: FileRule
+): Promise<FileViolation[]> {
+  const violations: FileViolation[] = [];
+  const violation = (rule: FileViolation["rule"], problem: string) =>
+    violations.push({
+      field,
+      rule,
+      message: `${field}: "${file.name}" ${problem}`,
+      file: file.name,
+      index,
+    });
+
+  if (rule.maxSize !== undefined && file.size > rule.maxSize) {
+    violation("maxSize", `is larger than ${formatSize(rule.maxSize)}`);
+  }
+
+  let type = (file.type || guessContentType(file.name) || "").toLowerCase();
+  // Type recognised from the content, when sniffing
+  let detected: string | undefined;
+  if (rule.sniff) {
+    const head = new Uint8Array(
+      await file.slice(0, SNIFF_LENGTH).arrayBuffer()
+    );
+    const declaredKnown = SIGNATURES.some((s) => s.type === type);
+    if (SIGNATURES.some((s) => s.type === type && matches(head, s))) {
+      detected = type;
+    } else {
+      detected = SIGNATURES.find((s) => matches(head, s))?.type;
+      if (declaredKnown) {
+        violation("content", `does not contain valid ${type} data`);
+      }
+      type = detected ?? type;
+    }
+  }
+
+  const accept = rule.accept === undefined ? [] : [rule.accept].flat();
+  if (
+    accept.length > 0 &&
+    !accept.some((p) => accepts(p, file.name, type, detected))
+  ) {
+    violation(
+      "accept",
+      `has type ${type || "unknown"}; allowed: ${accept.join(", ")}`
+    );
+  }
+  return violations;
+}
+
+function matches(head: Uint8Array, signature: Signature): boolean {
+  let position = signature.offset ?? 0;
+  for (const part of signature.bytes) {
+    const bytes =
+      typeof part === "string"
+        ? Array.from(part, (char) => char.charCodeAt(0))
+        : [part];
+    for (const byte of bytes) {
+      if (position >= head.length) return false;
+      if (byte !== null && head[position] !== byte) return false;
+      position++;
+    }
+  }
+  return true;
+}
+
+function accepts(
+  pattern: string,
+  name: string,
+  type: string,
+  detected?: string
+): boolean {
+  const p = pattern.trim().toLowerCase();
+  if (p.startsWith(".")) {
+    // A sniffed file must also contain what the extension stands for
+    const expected = guessContentType(p);
+    return (
+      name.toLowerCase().endsWith(p) &&
+      (!detected || !expected || expected === detected)
+    );
+  }
+  if (p.endsWith("/*")) {
+    return type.startsWith(p.slice(0, -1));
+  }
+  return p === "*" || p === "*/*" || p === type;
+}
+
+function formatSize(bytes: number): string {
+  const units = ["bytes", "KB", "MB", "GB"];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${Number(size.toFixed(1))} ${units[unit]}`;
+}
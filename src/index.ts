@@ -6,8 +6,49 @@ import {
   setToLocalStorage,
   buildFilterQuery,
   parseFilterKey,
+  buildFilterKey,
+  parseQuery,
+  parsedQueryToQuery,
 } from "./utils/utils.js";
 import { uploadFile } from "./core/file.js";
+import { HttpTransport, InterceptorChain } from "./core/transport.js";
+import { CollectionHandle } from "./core/collection.js";
+import { QueryCache } from "./core/cache.js";
+import { DocumentLoader } from "./core/loader.js";
+import {
+  OfflineQueue,
+  MemoryOfflineStore,
+  LocalStorageOfflineStore,
+} from "./core/offline.js";
+import {
+  MemoryStorageAdapter,
+  LocalStorageAdapter,
+  SessionStorageAdapter,
+  CookieStorageAdapter,
+} from "./core/storage.js";
+import {
+  q,
+  QueryBuilder,
+  OrGroupBuilder,
+  ConditionBuilder,
+} from "./utils/query.js";
+import { matchesQuery, applyQuery } from "./utils/match.js";
+import { Paginator } from "./utils/pagination.js";
+import { TwoFactorChallenge } from "./core/twofactor.js";
+import { OAuthClient } from "./core/oauth.js";
+import { FileHandler } from "./core/files.js";
+import {
+  CocobaseError,
+  NotFoundError,
+  AuthError,
+  TwoFactorError,
+  RateLimitError,
+  ValidationError,
+  FileValidationError,
+  NetworkError,
+  TimeoutError,
+} from "./core/errors.js";
+import { validateFiles } from "./core/validation.js";
 
 export {
   Cocobase,
@@ -17,8 +58,43 @@ export {
   uploadFile,
   buildFilterQuery,
   parseFilterKey,
+  buildFilterKey,
+  parseQuery,
+  parsedQueryToQuery,
+  q,
+  QueryBuilder,
+  OrGroupBuilder,
+  ConditionBuilder,
+  matchesQuery,
+  applyQuery,
+  Paginator,
+  HttpTransport,
+  InterceptorChain,
+  CollectionHandle,
+  QueryCache,
+  DocumentLoader,
+  OfflineQueue,
+  MemoryOfflineStore,
+  LocalStorageOfflineStore,
+  MemoryStorageAdapter,
+  LocalStorageAdapter,
+  SessionStorageAdapter,
+  CookieStorageAdapter,
+  TwoFactorChallenge,
+  OAuthClient,
+  FileHandler,
+  validateFiles,
+  CocobaseError,
+  NotFoundError,
+  AuthError,
+  TwoFactorError,
+  RateLimitError,
+  ValidationError,
+  FileValidationError,
+  NetworkError,
+  TimeoutError,
 };
-export type { TokenResponse, AppUser, Query, AuthCallbacks, AuthEvent, AuthCallback, LoginResult, TwoFAVerifyResponse } from "./types/types";
+export type { TokenResponse, AppUser, Query, AuthCallbacks, AuthEvent, AuthCallback, AuthStatus, AuthState, AuthStateListener, LoginResult, TwoFAVerifyResponse, TOTPEnrollment, TOTPConfirmation, LinkedProvider, FileMetadata } from "./types/types";
 export type { CocobaseConfig, Document, Collection };
 export type {
   FilterOperator,
@@ -26,6 +102,9 @@ export type {
   OrGroup,
   ParsedQuery,
   ParsedFilterKey,
+  FilterValue,
+  FieldPath,
+  QueryField,
 } from "./types/filter";
 export type {
   LoginParams,
@@ -36,7 +115,73 @@ export type {
   GoogleLoginParams,
   GithubLoginParams,
   Verify2FAParams,
+  ProviderCredential,
 } from "./types/params";
+export type {
+  HttpMethod,
+  TransportRequest,
+  RequestInterceptor,
+  ResponseInterceptor,
+  ErrorInterceptor,
+  TransportInterceptors,
+  HttpTransportOptions,
+  RetryPolicy,
+  RequestOptions,
+} from "./core/transport";
+export type { CocobaseErrorInit } from "./core/errors";
+export type {
+  QueryCacheOptions,
+  QueryCacheStats,
+  CachedRequestOptions,
+} from "./core/cache";
+export type {
+  DocumentLoaderOptions,
+  BatchDocumentFetcher,
+  DocumentFetcher,
+} from "./core/loader";
+export type {
+  MutationInput,
+  QueuedMutation,
+  OfflineStore,
+  OfflineOptions,
+  OfflineEventMap,
+  OfflineEventType,
+  OfflineEventCallback,
+  MutationSender,
+} from "./core/offline";
+export type { StorageAdapter, CookieStorageOptions } from "./core/storage";
+export type { SessionOptions } from "./core/auth";
+export type { TwoFactorChallengeInit } from "./core/twofactor";
+export type { UploadedFile } from "./core/file";
+export type {
+  ChunkedUploadOptions,
+  FileInput,
+  FileUploadOptions,
+  UpdateWithFilesOptions,
+  UploadSession,
+  WithFilesOptions,
+} from "./core/files";
+export type { FileRule, FileRules, FileViolation } from "./core/validation";
+export type {
+  UploadOptions,
+  UploadProgress,
+  FileProgress,
+  UploadProgressCallback,
+} from "./core/upload";
+export type {
+  OAuthProviderConfig,
+  AuthorizeUrlOptions,
+  OAuthIntent,
+  OAuthClientInit,
+} from "./core/oauth";
+export type { ParseQueryOptions } from "./utils/utils";
+export type { QueryInput } from "./utils/match";
+export type {
+  IterateOptions,
+  Page,
+  PageResult,
+  PageFetcher,
+} from "./utils/pagination";
 export { GameClient } from "./realtime/multiplayer";
 export type {
   Player,
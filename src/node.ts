@@ -0,0 +1,18 @@
+/**
+ * Node.js-only helpers, published as "cocobase/node" so that browser bundles
+ * of the main entry never include `fs`.
+ *
+ * @example
+ * ```typescript
+ * import { Cocobase } from 'cocobase';
+ * import { FileStorageAdapter, readFile } from 'cocobase/node';
+ *
+ * const db = new Cocobase({
+ *   apiKey: 'your-api-key',
+ *   storage: new FileStorageAdapter('./.cocobase-session.json'),
+ *   readFile,
+ * });
+ * ```
+ */
+export { FileStorageAdapter } from "./node/storage.js";
+export { readFile } from "./node/files.js";
@@ -0,0 +1,12 @@
+import { readFile as readFromDisk } from "fs/promises";
+
+/**
+ * Reads a file from disk for `db.files.upload`. Pass it as the `readFile`
+ * config option to upload file paths.
+ *
+ * @param path - Path of the file
+ * @returns Promise resolving to the file's contents
+ */
+export async function readFile(path: string): Promise<Blob> {
+  return new Blob([(await readFromDisk(path)) as BlobPart]);
+}
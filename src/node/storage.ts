@@ -0,0 +1,54 @@
+import { readFile, writeFile } from "fs/promises";
+import type { StorageAdapter } from "../core/storage.js";
+
+/**
+ * Persists values as JSON in a file, for Node.js scripts, CLIs and servers.
+ * Import it from "cocobase/node".
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  private filePath: string;
+  private values?: Promise<Record<string, string>>;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath - Path of the JSON file (created on first write)
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const values = await this.load();
+    return values[key] ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const values = await this.load();
+    values[key] = value;
+    return this.flush(values);
+  }
+
+  async remove(key: string): Promise<void> {
+    const values = await this.load();
+    delete values[key];
+    return this.flush(values);
+  }
+
+  private load(): Promise<Record<string, string>> {
+    if (!this.values) {
+      this.values = readFile(this.filePath, "utf8")
+        .then((raw) => JSON.parse(raw) as Record<string, string>)
+        .catch(() => ({}));
+    }
+    return this.values;
+  }
+
+  // Writes are chained so they land in the order they were made
+  private flush(values: Record<string, string>): Promise<void> {
+    const contents = JSON.stringify(values, null, 2);
+    this.writing = this.writing
+      .catch(() => {})
+      .then(() => writeFile(this.filePath, contents, "utf8"));
+    return this.writing;
+  }
+}
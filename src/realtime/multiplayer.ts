@@ -1,3 +1,5 @@
+import { HttpTransport, RequestOptions } from "../core/transport.js";
+
 const BASEURL =  'https://cloud.cocobase.buzz'
 /**
  * Player information in a game room
@@ -471,7 +473,10 @@ export class GameClient {
  * @param projectId - Project ID
  * @param apiKey - API key (optional)
  * @param publicOnly - Only list public rooms (default: true)
+ * @param transport - HTTP transport to send the request with
+ * @param options - Optional per-call request options (signal, timeoutMs, retry)
  * @returns Promise resolving to room list
+ * @throws {CocobaseError} If the request fails
  *
  * @example
  * ```typescript
@@ -484,17 +489,16 @@ export class GameClient {
 export async function listGameRooms(
   projectId: string,
   apiKey?: string,
-  publicOnly = true
+  publicOnly = true,
+  transport: HttpTransport = new HttpTransport(),
+  options?: RequestOptions
 ): Promise<RoomListResponse> {
   const url = `${BASEURL}/ws/rooms/${projectId}?public_only=${publicOnly}`;
-  const res = await fetch(url, {
+  return transport.request<RoomListResponse>({
+    method: "GET",
+    url,
     headers: apiKey ? { "X-API-Key": apiKey } : {},
+    useDefaultHeaders: false,
+    ...options,
   });
-
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Failed to list game rooms: ${text}`);
-  }
-
-  return res.json();
 }
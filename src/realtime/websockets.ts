@@ -1,4 +1,5 @@
 import { BASEURL } from "../utils/utils.js";
+import { HttpTransport, RequestOptions } from "../core/transport.js";
 
 type Listener = (data: any) => void;
 
@@ -248,13 +249,25 @@ export class RoomChat {
   }
 }
 
-export async function listRooms(apiKey: string) {
-  const res = await fetch(`${BASEURL}/realtime/rooms`, {
+/**
+ * List active chat rooms for a project.
+ *
+ * @param apiKey - Project API key
+ * @param transport - HTTP transport to send the request with
+ * @param options - Optional per-call request options (signal, timeoutMs, retry)
+ * @returns Promise resolving to the room list
+ * @throws {CocobaseError} If the request fails
+ */
+export async function listRooms(
+  apiKey: string,
+  transport: HttpTransport = new HttpTransport(),
+  options?: RequestOptions
+) {
+  return transport.request<any>({
+    method: "GET",
+    url: `${BASEURL}/realtime/rooms`,
     headers: { "X-API-Key": apiKey },
+    useDefaultHeaders: false,
+    ...options,
   });
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Failed to list rooms: ${text}`);
-  }
-  return res.json();
 }
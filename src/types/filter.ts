@@ -22,6 +22,8 @@ export interface FilterCondition {
   field: string;
   operator: FilterOperator;
   value: string | number | boolean;
+  /** All fields of a multi-field OR condition (`field` is the first of them) */
+  fields?: string[];
 }
 
 /**
@@ -43,6 +45,8 @@ export interface ParsedQuery {
   order?: "asc" | "desc";
   limit?: number;
   offset?: number;
+  populate?: string[];
+  select?: string[];
 }
 
 /**
@@ -54,3 +58,46 @@ export interface ParsedFilterKey {
   isOrFields: boolean;
   orGroupName?: string;
 }
+
+/**
+ * Values that can be compared in a filter condition
+ */
+export type FilterValue = string | number | boolean | Date;
+
+type PathDepth = [never, 0, 1, 2, 3];
+type IsAny<T> = 0 extends 1 & T ? true : false;
+type PathLeaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | Date
+  | null
+  | undefined
+  | readonly unknown[]
+  | ((...args: any[]) => any);
+
+/**
+ * Field names of T, including dotted paths into nested objects
+ * (e.g. "author.name"), up to three levels deep
+ */
+export type FieldPath<T, Depth extends number = 3> = IsAny<T> extends true
+  ? string
+  : [Depth] extends [never]
+  ? never
+  : T extends PathLeaf
+  ? never
+  : {
+      [K in keyof T & string]: IsAny<T[K]> extends true
+        ? K | `${K}.${string}`
+        : NonNullable<T[K]> extends PathLeaf
+        ? K
+        : K | `${K}.${FieldPath<NonNullable<T[K]>, PathDepth[Depth]>}`;
+    }[keyof T & string];
+
+/**
+ * Fields of a document that can be filtered, sorted, selected or populated:
+ * paths into the document data plus the document metadata fields
+ */
+export type QueryField<T> = FieldPath<T> | "id" | "created_at";
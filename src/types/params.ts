@@ -94,6 +94,24 @@ export interface GithubLoginParams {
   platform?: "web" | "mobile" | "ios" | "android";
 }
 
+/**
+ * Credential from a provider, for `auth.linkProvider`: an ID token (Google,
+ * Apple) or an authorization code (GitHub and other OAuth providers)
+ */
+export type ProviderCredential =
+  | {
+      /** ID token from the provider's sign-in SDK */
+      idToken: string;
+    }
+  | {
+      /** Authorization code from the OAuth callback */
+      code: string;
+      /** The redirect URI used in the OAuth flow */
+      redirectUri: string;
+      /** PKCE code verifier, if the flow used one */
+      codeVerifier?: string;
+    };
+
 /**
  * Parameters for 2FA verification
  */
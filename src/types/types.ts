@@ -1,3 +1,15 @@
+import type {
+  RetryPolicy,
+  TransportInterceptors,
+} from "../core/transport.js";
+import type { QueryCacheOptions } from "../core/cache.js";
+import type { DocumentLoaderOptions } from "../core/loader.js";
+import type { OfflineOptions } from "../core/offline.js";
+import type { StorageAdapter } from "../core/storage.js";
+import type { SessionOptions } from "../core/auth.js";
+import type { TwoFactorChallenge } from "../core/twofactor.js";
+import type { OAuthProviderConfig } from "../core/oauth.js";
+
 /**
  * Configuration options for initializing the Cocobase client.
  */
@@ -8,6 +20,34 @@ export interface CocobaseConfig {
   baseURL?: string;
   /** Your Cocobase project ID (required for cloud functions) */
   projectId?: string;
+  /** Custom fetch implementation used for all HTTP requests (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /** Interceptors registered on the shared HTTP transport */
+  interceptors?: TransportInterceptors;
+  /** Retry policy for failed requests (429, 502/503/504, network errors), or `false` to disable retries */
+  retry?: RetryPolicy | false;
+  /** Default timeout for each request in milliseconds; override per call with `{ timeoutMs }` (default: no timeout) */
+  timeoutMs?: number;
+  /** Cache `listDocuments`, `countDocuments` and `aggregateDocuments` results; `true` uses the default options (default: disabled) */
+  cache?: QueryCacheOptions | boolean;
+  /** Share one request between identical GET requests that are in flight at the same time (default: false) */
+  dedupeRequests?: boolean;
+  /** Batch `getDocument` calls made in the same tick into one request per collection; `true` uses the default options (default: false) */
+  batchGetDocument?: DocumentLoaderOptions | boolean;
+  /** Queue document writes while offline and replay them when the network returns; `true` uses the default options (default: disabled) */
+  offline?: OfflineOptions | boolean;
+  /** Where the auth session is persisted (default: localStorage in browsers, memory elsewhere) */
+  storage?: StorageAdapter;
+  /** Prefix for the storage keys of the auth session, e.g. "myapp-" stores "myapp-token" (default: "cocobase-") */
+  storageKeyPrefix?: string;
+  /** Token expiry handling: when to warn and refresh before the token expires, and whether to refresh on 401 */
+  session?: SessionOptions;
+  /** Sync login, logout, token and user changes to other tabs of the same origin (default: true in browsers) */
+  syncTabs?: boolean;
+  /** OAuth providers for `auth.oauth`, keyed by name, e.g. `{ github: { clientId, redirectUri } }` */
+  oauth?: Record<string, OAuthProviderConfig>;
+  /** Reads file paths passed to `db.files.upload`; use `readFile` from "cocobase/node" (default: paths are rejected) */
+  readFile?: (path: string) => Promise<Blob>;
 }
 
 
@@ -110,6 +150,10 @@ export interface TokenResponse {
   requires_2fa?: boolean;
   /** Message from the server (e.g., "2FA code sent to your email") */
   message?: string;
+  /** Seconds until the 2FA code expires (when 2FA is required) */
+  expires_in?: number;
+  /** Number of 2FA codes that may be tried (when 2FA is required) */
+  max_attempts?: number;
 }
 
 /**
@@ -126,14 +170,79 @@ export interface TwoFAVerifyResponse {
 
 /**
  * Login result that clearly indicates whether 2FA is required.
+ *
+ * Check `requires_2fa` to narrow it: when true, `challenge` completes the login.
  */
-export interface LoginResult {
-  /** Whether 2FA verification is required */
-  requires_2fa: boolean;
-  /** User object (only present if login succeeded without 2FA) */
-  user?: AppUser;
-  /** Message from server (present when 2FA is required) */
-  message?: string;
+export type LoginResult =
+  | {
+      /** Login succeeded without 2FA */
+      requires_2fa: false;
+      /** User object */
+      user?: AppUser;
+      message?: string;
+      challenge?: undefined;
+    }
+  | {
+      /** 2FA verification is required */
+      requires_2fa: true;
+      user?: undefined;
+      /** Message from server (e.g., "2FA code sent to your email") */
+      message?: string;
+      /** Pending challenge; call `challenge.verify(code)` to finish logging in */
+      challenge: TwoFactorChallenge;
+    };
+
+/**
+ * Secret for adding the account to an authenticator app, returned by
+ * `auth.enrollTOTP()`.
+ */
+export interface TOTPEnrollment {
+  /** Base32 secret, for entering the account manually */
+  secret: string;
+  /** `otpauth://` URI, usually shown as a QR code */
+  otpauth_uri: string;
+}
+
+/**
+ * A sign-in method attached to the current user's account, returned by
+ * `auth.listLinkedProviders()`.
+ */
+export interface LinkedProvider {
+  /** Provider name, e.g. "password", "google", "github", "apple" */
+  provider: string;
+  /** Email reported by the provider */
+  email?: string;
+  /** When the provider was linked */
+  linked_at?: string;
+}
+
+/**
+ * A file in Cocobase cloud storage, returned by `files.get()`, `files.list()`
+ * and `files.replace()`.
+ */
+export interface FileMetadata {
+  /** Unique file ID */
+  id: string;
+  /** Public URL of the file */
+  url: string;
+  /** File name */
+  filename: string;
+  /** Size in bytes */
+  size: number;
+  /** MIME type */
+  content_type: string;
+  /** ISO timestamp of when the file was uploaded */
+  created_at: string;
+  /** ID of the user who uploaded the file, if any */
+  owner?: string | null;
+}
+
+/**
+ * Result of confirming TOTP enrollment with `auth.confirmTOTP()`.
+ */
+export interface TOTPConfirmation {
+  /** One-time codes that can replace an authenticator code; show them to the user once */
+  recovery_codes: string[];
 }
 
 /**
@@ -193,7 +302,9 @@ export type AuthEvent =
   | "logout"
   | "userUpdate"
   | "tokenChange"
-  | "authStateChange";
+  | "authStateChange"
+  | "sessionExpiring"
+  | "sessionExpired";
 
 /**
  * Callback function for authentication events.
@@ -222,4 +333,36 @@ export interface AuthCallbacks {
   onTokenChange?: (token: string | undefined) => void;
   /** Called when authentication state is initialized/restored */
   onAuthStateChange?: (user: AppUser | undefined, token: string | undefined) => void;
+  /** Called shortly before the token expires (see `session.refreshBeforeMs`), before it is refreshed */
+  onSessionExpiring?: (expiresAt: Date) => void;
+  /** Called when the session ends because the token expired or the server rejected it */
+  onSessionExpired?: () => void;
 }
+
+/**
+ * Where the client is in the authentication lifecycle.
+ *
+ * - `initializing` - the session has not been restored yet (`initAuth` pending)
+ * - `authenticated` - a user is signed in
+ * - `unauthenticated` - nobody is signed in
+ * - `awaiting_2fa` - `login` succeeded and a 2FA code is required
+ */
+export type AuthStatus =
+  | "initializing"
+  | "authenticated"
+  | "unauthenticated"
+  | "awaiting_2fa";
+
+/**
+ * Snapshot of the authentication state delivered to `auth.subscribe` listeners.
+ */
+export interface AuthState {
+  status: AuthStatus;
+  user?: AppUser;
+  token?: string;
+}
+
+/**
+ * Listener registered with `auth.subscribe`.
+ */
+export type AuthStateListener = (state: AuthState) => void;
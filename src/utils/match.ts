@@ -0,0 +1,306 @@
+import type { Document, Query } from "../types/types.js";
+import type {
+  FilterCondition,
+  FilterOperator,
+  ParsedQuery,
+} from "../types/filter.js";
+import { parseQuery } from "./utils.js";
+
+/**
+ * Anything `matchesQuery` and `applyQuery` accept as a query.
+ */
+export type QueryInput = Query | ParsedQuery | string;
+
+/** Top-level document fields that can be filtered and sorted on */
+const DOCUMENT_FIELDS = ["id", "created_at", "collection_id"];
+
+/** Page size the server applies when no limit is given */
+const DEFAULT_LIMIT = 100;
+
+function toParsedQuery(query: QueryInput): ParsedQuery {
+  if (typeof query === "object" && "andConditions" in query) {
+    return query;
+  }
+  return parseQuery(query);
+}
+
+/**
+ * Resolves a (dotted) field path on a document.
+ *
+ * Paths are read from `doc.data`; `id`, `created_at` and `collection_id` fall
+ * back to the document itself. Arrays along the path (populated lists, tag
+ * arrays) are expanded so that every element is a candidate value.
+ */
+function resolveField(doc: Document<any>, path: string): unknown[] {
+  const parts = path.split(".");
+  const data = doc.data ?? {};
+  let current: unknown[] =
+    DOCUMENT_FIELDS.includes(parts[0]) && !(parts[0] in data)
+      ? [doc]
+      : [data];
+
+  for (const part of parts) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (value === null || value === undefined) continue;
+      const child = (value as Record<string, unknown>)[part];
+      if (Array.isArray(child)) {
+        next.push(...child);
+      } else if (child !== undefined) {
+        next.push(child);
+      }
+    }
+    current = next;
+  }
+  return current;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const num = Number(value);
+    if (!Number.isNaN(num)) return num;
+  }
+  return undefined;
+}
+
+function toTime(value: unknown): number | undefined {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const time = Date.parse(value);
+    if (!Number.isNaN(time)) return time;
+  }
+  return undefined;
+}
+
+/**
+ * Compares two values the way the server does: numerically when both sides
+ * are numbers (or numeric strings), chronologically when both are ISO dates,
+ * and as strings otherwise.
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  if (numA !== undefined && numB !== undefined) return numA - numB;
+
+  const timeA = toTime(a);
+  const timeB = toTime(b);
+  if (timeA !== undefined && timeB !== undefined) return timeA - timeB;
+
+  const strA = String(a);
+  const strB = String(b);
+  return strA < strB ? -1 : strA > strB ? 1 : 0;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === null || a === undefined) return false;
+  if (typeof a === "boolean" || typeof b === "boolean") {
+    return String(a) === String(b);
+  }
+  return compareValues(a, b) === 0;
+}
+
+function splitList(value: unknown): string[] {
+  return String(value)
+    .split(",")
+    .map((item) => item.trim());
+}
+
+function isNullish(values: unknown[]): boolean {
+  return values.every((value) => value === null || value === undefined);
+}
+
+/**
+ * Evaluates one operator against the candidate values of a field.
+ */
+function matchesOperator(
+  values: unknown[],
+  operator: FilterOperator,
+  expected: unknown
+): boolean {
+  const some = (fn: (value: unknown) => boolean) =>
+    values.some((value) => value !== null && value !== undefined && fn(value));
+  const text = String(expected).toLowerCase();
+
+  switch (operator) {
+    case "eq":
+      return some((value) => valuesEqual(value, expected));
+    case "ne":
+      return !some((value) => valuesEqual(value, expected));
+    case "gt":
+      return some((value) => compareValues(value, expected) > 0);
+    case "gte":
+      return some((value) => compareValues(value, expected) >= 0);
+    case "lt":
+      return some((value) => compareValues(value, expected) < 0);
+    case "lte":
+      return some((value) => compareValues(value, expected) <= 0);
+    case "contains":
+      return some((value) => String(value).toLowerCase().includes(text));
+    case "startswith":
+      return some((value) => String(value).toLowerCase().startsWith(text));
+    case "endswith":
+      return some((value) => String(value).toLowerCase().endsWith(text));
+    case "in":
+      return splitList(expected).some((item) =>
+        some((value) => valuesEqual(value, item))
+      );
+    case "notin":
+      return !splitList(expected).some((item) =>
+        some((value) => valuesEqual(value, item))
+      );
+    case "isnull":
+      return String(expected) === "false"
+        ? !isNullish(values)
+        : isNullish(values);
+  }
+}
+
+/**
+ * A condition matches when any of its fields (multi-field OR) matches.
+ */
+function matchesCondition(
+  doc: Document<any>,
+  condition: FilterCondition
+): boolean {
+  const fields = condition.fields ?? [condition.field];
+  return fields.some((field) =>
+    matchesOperator(
+      resolveField(doc, field),
+      condition.operator,
+      condition.value
+    )
+  );
+}
+
+function matchesParsed(doc: Document<any>, parsed: ParsedQuery): boolean {
+  if (!parsed.andConditions.every((c) => matchesCondition(doc, c))) {
+    return false;
+  }
+  if (
+    parsed.orConditions.length > 0 &&
+    !parsed.orConditions.some((c) => matchesCondition(doc, c))
+  ) {
+    return false;
+  }
+  return parsed.namedOrGroups.every((group) =>
+    group.conditions.some((c) => matchesCondition(doc, c))
+  );
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === "object";
+}
+
+/**
+ * Copies a document keeping only the selected data fields.
+ */
+function selectFields<T>(doc: Document<T>, fields: string[]): Document<T> {
+  const data: Record<string, unknown> = {};
+  for (const field of fields) {
+    const parts = field.split(".");
+    let source: any = doc.data;
+    let target: Record<string, unknown> = data;
+    for (let i = 0; i < parts.length; i++) {
+      if (!isObject(source) || !(parts[i] in source)) break;
+      if (i === parts.length - 1) {
+        target[parts[i]] = source[parts[i]];
+      } else {
+        const child = source[parts[i]];
+        if (!isObject(child) || Array.isArray(child)) {
+          target[parts[i]] = child;
+          break;
+        }
+        target = (target[parts[i]] ??= {}) as Record<string, unknown>;
+        source = child;
+      }
+    }
+  }
+  return { ...doc, data: data as T };
+}
+
+/**
+ * Checks whether a document matches the filters of a query.
+ *
+ * Evaluates every `FilterOperator`, multi-field OR keys (`name__or__email`),
+ * `[or]` and `[or:name]` groups and dotted relationship paths with the same
+ * semantics as the server. Sorting, pagination and `select` are ignored; use
+ * `applyQuery` for those.
+ *
+ * @template T - The type of the document data
+ * @param doc - Document to test
+ * @param query - Query object, ParsedQuery or query string
+ * @returns True if the document matches every filter
+ *
+ * @example
+ * ```typescript
+ * const watcher = db.realtime.collection('posts');
+ * watcher.onCreate((event) => {
+ *   if (matchesQuery(event.data, { filters: { status: 'published' } })) {
+ *     addToFeed(event.data);
+ *   }
+ * });
+ * ```
+ */
+export function matchesQuery<T = any>(
+  doc: Document<T>,
+  query: QueryInput
+): boolean {
+  return matchesParsed(doc, toParsedQuery(query));
+}
+
+/**
+ * Runs a query over an in-memory array of documents: filters, sorts,
+ * paginates and applies `select`, like `listDocuments` does on the server.
+ *
+ * As on the server, `order` defaults to "desc" and `limit` to 100. Documents
+ * keep their input order when no `sort` is given. `populate` is ignored,
+ * since local documents already contain whatever was populated.
+ *
+ * @template T - The type of the document data
+ * @param docs - Documents to query
+ * @param query - Query object, ParsedQuery or query string
+ * @returns New array with the matching documents
+ *
+ * @example
+ * ```typescript
+ * const page = applyQuery(cachedPosts, {
+ *   filters: { 'author.role': 'admin', views_gte: 100 },
+ *   sort: 'created_at',
+ *   order: 'desc',
+ *   limit: 10,
+ * });
+ * ```
+ */
+export function applyQuery<T = any>(
+  docs: Document<T>[],
+  query: QueryInput
+): Document<T>[] {
+  const parsed = toParsedQuery(query);
+  let result = docs.filter((doc) => matchesParsed(doc, parsed));
+
+  if (parsed.sort) {
+    const field = parsed.sort;
+    const direction = (parsed.order ?? "desc") === "asc" ? 1 : -1;
+    result = result
+      .map((doc) => ({ doc, value: resolveField(doc, field)[0] }))
+      .sort((a, b) => {
+        const aMissing = a.value === null || a.value === undefined;
+        const bMissing = b.value === null || b.value === undefined;
+        // Documents without the field always go last
+        if (aMissing || bMissing) return Number(aMissing) - Number(bMissing);
+        return compareValues(a.value, b.value) * direction;
+      })
+      .map(({ doc }) => doc);
+  }
+
+  const offset = parsed.offset ?? 0;
+  const limit = parsed.limit ?? DEFAULT_LIMIT;
+  result = result.slice(offset, offset + limit);
+
+  if (parsed.select && parsed.select.length > 0) {
+    const fields = parsed.select;
+    result = result.map((doc) => selectFields(doc, fields));
+  }
+  return result;
+}
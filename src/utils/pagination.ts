@@ -0,0 +1,179 @@
+import type { Query } from "../types/types.js";
+import type { RequestOptions } from "../core/transport.js";
+
+/**
+ * Options for `iterateDocuments` and `iterateUsers`.
+ */
+export interface IterateOptions extends RequestOptions {
+  /** Items requested per page (default: `query.limit`, or 100) */
+  pageSize?: number;
+  /**
+   * Number of pages kept in flight. Values above 1 prefetch the following
+   * pages while the current one is consumed (default: 1)
+   */
+  concurrency?: number;
+  /** Stop after this many items in total */
+  maxItems?: number;
+}
+
+/**
+ * One page of results yielded by `pages()`.
+ */
+export interface Page<T> {
+  /** Items on this page */
+  items: T[];
+  /** Zero-based page number */
+  index: number;
+  /** Offset the page was requested at */
+  offset: number;
+  /** Whether another page will follow */
+  hasMore: boolean;
+}
+
+/**
+ * Result of fetching a single page.
+ */
+export interface PageResult<T> {
+  items: T[];
+  /** Set when the server reports it explicitly (e.g. `has_more`) */
+  hasMore?: boolean;
+}
+
+/**
+ * Fetches the page starting at `offset`.
+ */
+export type PageFetcher<T> = (
+  offset: number,
+  limit: number,
+  options: RequestOptions
+) => Promise<PageResult<T>>;
+
+/**
+ * Async iterable over every item of a paginated list.
+ *
+ * Iterate it directly with `for await` to get items one by one, or use
+ * `pages()` to get a page at a time. Pages are requested with `offset` and
+ * `limit`; iteration stops when the server reports no more results, a page
+ * comes back shorter than the page size, or `maxItems` is reached.
+ *
+ * Breaking out of the loop aborts any prefetched requests.
+ *
+ * @template T - The type of the items
+ *
+ * @example
+ * ```typescript
+ * for await (const post of db.iterateDocuments<Post>('posts', { filters: { published: true } })) {
+ *   console.log(post.data.title);
+ * }
+ *
+ * for await (const page of db.iterateDocuments('posts', {}, { pageSize: 50, concurrency: 2 }).pages()) {
+ *   await index(page.items);
+ * }
+ * ```
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  private fetchPage: PageFetcher<T>;
+  private startOffset: number;
+  private pageSize: number;
+  private concurrency: number;
+  private maxItems?: number;
+  private requestOptions: RequestOptions;
+
+  /**
+   * @param fetchPage - Function that fetches one page
+   * @param query - Query whose `offset` and `limit` seed the pagination
+   * @param options - Iteration options
+   */
+  constructor(
+    fetchPage: PageFetcher<T>,
+    query: Query = {},
+    options: IterateOptions = {}
+  ) {
+    const { pageSize, concurrency, maxItems, ...requestOptions } = options;
+    this.fetchPage = fetchPage;
+    this.startOffset = query.offset ?? 0;
+    this.pageSize = Math.max(1, pageSize ?? query.limit ?? 100);
+    this.concurrency = Math.max(1, concurrency ?? 1);
+    this.maxItems = maxItems;
+    this.requestOptions = requestOptions;
+  }
+
+  /**
+   * Iterates over the results a page at a time.
+   */
+  async *pages(): AsyncGenerator<Page<T>, void, undefined> {
+    const { pageSize, maxItems } = this;
+    if (maxItems !== undefined && maxItems <= 0) return;
+
+    // Aborts prefetched requests once iteration ends early
+    const controller = new AbortController();
+    const userSignal = this.requestOptions.signal;
+    const onAbort = () => controller.abort(userSignal?.reason);
+    if (userSignal?.aborted) onAbort();
+    userSignal?.addEventListener("abort", onAbort);
+
+    const maxPages =
+      maxItems === undefined ? Infinity : Math.ceil(maxItems / pageSize);
+    const inFlight: Promise<PageResult<T>>[] = [];
+    let scheduled = 0;
+    let yielded = 0;
+
+    try {
+      for (let index = 0; ; index++) {
+        while (inFlight.length < this.concurrency && scheduled < maxPages) {
+          const request = this.fetchPage(
+            this.startOffset + scheduled * pageSize,
+            pageSize,
+            { ...this.requestOptions, signal: controller.signal }
+          );
+          // Prefetched pages may be abandoned; don't surface their rejections
+          request.catch(() => {});
+          inFlight.push(request);
+          scheduled++;
+        }
+        if (inFlight.length === 0) return;
+
+        const result = await inFlight.shift()!;
+        let items = result.items;
+        let hasMore = result.hasMore ?? items.length >= pageSize;
+        if (maxItems !== undefined && yielded + items.length >= maxItems) {
+          items = items.slice(0, maxItems - yielded);
+          hasMore = false;
+        }
+
+        if (items.length > 0) {
+          yielded += items.length;
+          yield {
+            items,
+            index,
+            offset: this.startOffset + index * pageSize,
+            hasMore,
+          };
+        }
+        if (!hasMore) return;
+      }
+    } finally {
+      controller.abort();
+      userSignal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.items;
+    }
+  }
+
+  /**
+   * Collects every item into an array. Combine with `maxItems` for large lists.
+   *
+   * @returns Promise resolving to all items
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const page of this.pages()) {
+      items.push(...page.items);
+    }
+    return items;
+  }
+}
@@ -0,0 +1,374 @@
+import { Query } from "../types/types.js";
+import type {
+  FilterOperator,
+  FilterValue,
+  QueryField,
+} from "../types/filter.js";
+import { buildFilterKey, buildFilterQuery } from "./utils.js";
+import { ValidationError } from "../core/errors.js";
+
+// Names of unnamed OR groups after the first, which user groups can't take
+const AUTO_GROUP_PREFIX = "__auto";
+
+/**
+ * Converts a filter value to the string form used in query keys.
+ */
+function serializeValue(value: FilterValue): string | number | boolean {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Operator step of the builder, returned by `where()`.
+ *
+ * Each operator adds a condition and returns the builder it was started from.
+ *
+ * @template R - Builder returned after the operator is applied
+ */
+export class ConditionBuilder<R> {
+  private fields: string[];
+  private add: (key: string, value: string | number | boolean) => R;
+
+  /** @internal */
+  constructor(
+    fields: string[],
+    add: (key: string, value: string | number | boolean) => R
+  ) {
+    this.fields = fields;
+    this.add = add;
+  }
+
+  /** Field equals value */
+  eq(value: FilterValue): R {
+    return this.apply("eq", value);
+  }
+
+  /** Field does not equal value */
+  ne(value: FilterValue): R {
+    return this.apply("ne", value);
+  }
+
+  /** Field is greater than value */
+  gt(value: FilterValue): R {
+    return this.apply("gt", value);
+  }
+
+  /** Field is greater than or equal to value */
+  gte(value: FilterValue): R {
+    return this.apply("gte", value);
+  }
+
+  /** Field is less than value */
+  lt(value: FilterValue): R {
+    return this.apply("lt", value);
+  }
+
+  /** Field is less than or equal to value */
+  lte(value: FilterValue): R {
+    return this.apply("lte", value);
+  }
+
+  /** Field contains the substring */
+  contains(value: string): R {
+    return this.apply("contains", value);
+  }
+
+  /** Field starts with the prefix */
+  startsWith(value: string): R {
+    return this.apply("startswith", value);
+  }
+
+  /** Field ends with the suffix */
+  endsWith(value: string): R {
+    return this.apply("endswith", value);
+  }
+
+  /** Field is one of the values */
+  in(values: FilterValue[]): R {
+    return this.apply("in", values.map(serializeValue).join(","));
+  }
+
+  /** Field is none of the values */
+  notIn(values: FilterValue[]): R {
+    return this.apply("notin", values.map(serializeValue).join(","));
+  }
+
+  /** Field is null (or not null when `isNull` is false) */
+  isNull(isNull: boolean = true): R {
+    return this.apply("isnull", isNull);
+  }
+
+  private apply(operator: FilterOperator, value: FilterValue): R {
+    return this.add(
+      buildFilterKey(this.fields, operator),
+      serializeValue(value)
+    );
+  }
+}
+
+/**
+ * Collects the conditions of an OR group. Passed to the `or()` callback.
+ *
+ * `where()` and `orWhere()` are interchangeable; every condition added to the
+ * group is OR'ed with the others. Each field and operator can appear once per
+ * group: match several values of one field with `in()`.
+ *
+ * @template T - The type of the document data
+ */
+export class OrGroupBuilder<T = any> {
+  /** @internal */
+  readonly conditions: [string, string | number | boolean][] = [];
+
+  /**
+   * Starts a condition on a field.
+   *
+   * @param field - Field name or dotted relationship path
+   */
+  where(field: QueryField<T>): ConditionBuilder<OrGroupBuilder<T>> {
+    return this.whereAny([field]);
+  }
+
+  /**
+   * Alias of `where()` that reads naturally after the first condition.
+   *
+   * @param field - Field name or dotted relationship path
+   */
+  orWhere(field: QueryField<T>): ConditionBuilder<OrGroupBuilder<T>> {
+    return this.where(field);
+  }
+
+  /**
+   * Starts a condition that matches when any of the fields matches.
+   *
+   * @param fields - Field names compared against the same value
+   */
+  whereAny(fields: QueryField<T>[]): ConditionBuilder<OrGroupBuilder<T>> {
+    return new ConditionBuilder(fields as string[], (key, value) => {
+      if (this.conditions.some(([existing]) => existing === key)) {
+        throw new ValidationError(
+          `OR group already has a "${key}" condition. Use in() to match several values for one field, e.g. where("status").in(["a", "b"]).`
+        );
+      }
+      this.conditions.push([key, value]);
+      return this;
+    });
+  }
+}
+
+/**
+ * Fluent, type-safe builder for `Query` objects.
+ *
+ * Compiles to the filter-key grammar understood by `buildFilterQuery` and the
+ * server, so keys like `"[or:group1]name__or__email_contains"` never have to be
+ * written by hand. Field names are checked against `T`.
+ *
+ * @template T - The type of the document data
+ *
+ * @example
+ * ```typescript
+ * const query = q<Post>()
+ *   .where('age').gte(18)
+ *   .or((w) => w.where('name').contains('x').orWhere('email').contains('x'))
+ *   .sort('created_at', 'asc')
+ *   .populate('author')
+ *   .select('title')
+ *   .limit(20)
+ *   .build();
+ *
+ * const posts = await db.listDocuments<Post>('posts', query);
+ * ```
+ */
+export class QueryBuilder<T = any> {
+  private filters: Record<string, string | number | boolean> = {};
+  private query: Omit<Query, "filters"> = {};
+  private unnamedGroups = 0;
+
+  /**
+   * Starts an AND condition on a field.
+   *
+   * @param field - Field name or dotted relationship path
+   */
+  where(field: QueryField<T>): ConditionBuilder<this> {
+    return this.whereAny([field]);
+  }
+
+  /**
+   * Starts an AND condition that matches when any of the fields matches
+   * (multi-field OR, e.g. `name__or__email_contains`).
+   *
+   * @param fields - Field names compared against the same value
+   */
+  whereAny(fields: QueryField<T>[]): ConditionBuilder<this> {
+    return new ConditionBuilder(fields as string[], (key, value) =>
+      this.filter(key, value)
+    );
+  }
+
+  /**
+   * Adds an OR group. Conditions inside the group are OR'ed together; the
+   * group as a whole is AND'ed with the rest of the query.
+   *
+   * The first unnamed group uses the default `[or]` prefix; further unnamed
+   * groups are named `[or:__auto2]`, `[or:__auto3]` and so on so they stay
+   * separate.
+   *
+   * A group can't hold two conditions with the same field and operator, such
+   * as `w.where('status').eq('a').orWhere('status').eq('b')`; use
+   * `w.where('status').in(['a', 'b'])` instead.
+   *
+   * @param build - Callback that adds the group's conditions
+   * @throws {ValidationError} If the group repeats a field and operator
+   */
+  or(build: (group: OrGroupBuilder<T>) => unknown): this;
+  /**
+   * Adds a named OR group (`[or:name]`).
+   *
+   * @param name - Group name; names starting with `__auto` are reserved for
+   *   unnamed groups
+   * @param build - Callback that adds the group's conditions
+   * @throws {ValidationError} If the name is reserved, or the group repeats a
+   *   field and operator
+   */
+  or(name: string, build: (group: OrGroupBuilder<T>) => unknown): this;
+  or(
+    nameOrBuild: string | ((group: OrGroupBuilder<T>) => unknown),
+    maybeBuild?: (group: OrGroupBuilder<T>) => unknown
+  ): this {
+    let prefix: string;
+    let build: (group: OrGroupBuilder<T>) => unknown;
+    if (typeof nameOrBuild === "string") {
+      if (nameOrBuild.startsWith(AUTO_GROUP_PREFIX)) {
+        throw new ValidationError(
+          `OR group name "${nameOrBuild}" is reserved for unnamed groups.`
+        );
+      }
+      prefix = `[or:${nameOrBuild}]`;
+      build = maybeBuild!;
+    } else {
+      this.unnamedGroups++;
+      prefix =
+        this.unnamedGroups === 1
+          ? "[or]"
+          : `[or:${AUTO_GROUP_PREFIX}${this.unnamedGroups}]`;
+      build = nameOrBuild;
+    }
+
+    const group = new OrGroupBuilder<T>();
+    build(group);
+    for (const [key, value] of group.conditions) {
+      this.filter(`${prefix}${key}`, value);
+    }
+    return this;
+  }
+
+  /**
+   * Adds a raw filter key, for keys the typed helpers can't express.
+   *
+   * @param key - Filter key in the query grammar (e.g. `"[or]age_gte"`)
+   * @param value - Filter value
+   * @throws {ValidationError} If the key was already set; use `in()` to match
+   *   several values
+   */
+  filter(key: string, value: FilterValue): this {
+    if (key in this.filters) {
+      throw new ValidationError(
+        `Filter "${key}" is already set. Use in() to match several values for one field.`
+      );
+    }
+    this.filters[key] = serializeValue(value);
+    return this;
+  }
+
+  /**
+   * Sorts the results by a field.
+   *
+   * @param field - Field to sort by
+   * @param order - Sort direction (server default: "desc")
+   */
+  sort(field: QueryField<T>, order?: "asc" | "desc"): this {
+    this.query.sort = field;
+    if (order) {
+      this.query.order = order;
+    }
+    return this;
+  }
+
+  /**
+   * Populates referenced documents.
+   *
+   * @param fields - Relationship fields, optionally nested ("post.author")
+   */
+  populate(...fields: QueryField<T>[]): this {
+    this.query.populate = [...toArray(this.query.populate), ...fields];
+    return this;
+  }
+
+  /**
+   * Restricts the fields returned.
+   *
+   * @param fields - Fields to include
+   */
+  select(...fields: QueryField<T>[]): this {
+    this.query.select = [...toArray(this.query.select), ...fields];
+    return this;
+  }
+
+  /**
+   * Sets the maximum number of documents to return.
+   *
+   * @param limit - Page size
+   */
+  limit(limit: number): this {
+    this.query.limit = limit;
+    return this;
+  }
+
+  /**
+   * Sets the number of documents to skip.
+   *
+   * @param offset - Number of documents to skip
+   */
+  offset(offset: number): this {
+    this.query.offset = offset;
+    return this;
+  }
+
+  /**
+   * Returns the `Query` object for `listDocuments`, `countDocuments` and friends.
+   */
+  build(): Query {
+    const query: Query = { ...this.query };
+    if (Object.keys(this.filters).length > 0) {
+      query.filters = { ...this.filters };
+    }
+    return query;
+  }
+
+  /**
+   * Returns the URL query string for the built query.
+   */
+  toString(): string {
+    return buildFilterQuery(this.build());
+  }
+}
+
+function toArray(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Creates a new query builder.
+ *
+ * @template T - The type of the document data
+ * @returns Empty QueryBuilder
+ *
+ * @example
+ * ```typescript
+ * const query = q<User>().where('status').eq('active').limit(10).build();
+ * ```
+ */
+function q<T = any>(): QueryBuilder<T> {
+  return new QueryBuilder<T>();
+}
+
+export { q };
@@ -1,5 +1,12 @@
 import { Query } from "../types/types.js";
-import type { FilterOperator, ParsedFilterKey } from "../types/filter.js";
+import type {
+  FilterCondition,
+  FilterOperator,
+  OrGroup,
+  ParsedFilterKey,
+  ParsedQuery,
+} from "../types/filter.js";
+import { CocobaseError, ValidationError } from "../core/errors.js";
 
 function getFromLocalStorage(key: string): string | null {
   try {
@@ -43,6 +50,26 @@ function mergeUserData(
   };
 }
 
+/**
+ * Decodes the payload of a JWT without verifying its signature.
+ *
+ * @param token - JWT in compact serialization
+ * @returns The payload claims, or undefined if the token is not a valid JWT
+ */
+function decodeJwt(token: string): Record<string, any> | undefined {
+  const payload = token.split(".")[1];
+  if (!payload) return undefined;
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+    const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    const claims = JSON.parse(new TextDecoder().decode(bytes));
+    return claims !== null && typeof claims === "object" ? claims : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Parse a filter key to extract fields, operator, and OR group information
  *
@@ -127,6 +154,31 @@ function parseFilterKey(key: string): ParsedFilterKey {
   };
 }
 
+/**
+ * Build a filter key from fields, an operator and an optional OR group.
+ * This is the inverse of `parseFilterKey`.
+ *
+ * Examples:
+ * - (["age"], "gte") -> "age_gte"
+ * - (["name", "email"], "contains") -> "name__or__email_contains"
+ * - (["status"], "eq", "default") -> "[or]status"
+ * - (["age"], "lt", "age") -> "[or:age]age_lt"
+ */
+function buildFilterKey(
+  fields: string[],
+  operator: FilterOperator = "eq",
+  orGroupName?: string
+): string {
+  const prefix =
+    orGroupName === undefined
+      ? ""
+      : orGroupName === "default"
+      ? "[or]"
+      : `[or:${orGroupName}]`;
+  const base = fields.join("__or__");
+  return `${prefix}${operator === "eq" ? base : `${base}_${operator}`}`;
+}
+
 /**
  * Build a comprehensive filter query string supporting all advanced query features
  *
@@ -250,7 +302,226 @@ function buildFilterQuery({
   return params.toString();
 }
 
-const parseErrorMessage = (msg: string) => {
+/**
+ * Options for parseQuery
+ */
+interface ParseQueryOptions {
+  /**
+   * Throw a ValidationError listing every invalid parameter (non-numeric
+   * limit/offset, unknown order) instead of ignoring them (default: false)
+   */
+  strict?: boolean;
+}
+
+const RESERVED_QUERY_PARAMS = [
+  "limit",
+  "offset",
+  "sort",
+  "order",
+  "populate",
+  "select",
+];
+
+/**
+ * Convert a raw query-string value to a boolean or number where it
+ * round-trips exactly, leaving everything else as a string.
+ */
+function coerceFilterValue(
+  value: string,
+  operator: FilterOperator
+): string | number | boolean {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (operator === "in" || operator === "notin") return value;
+  if (value.trim() !== "" && String(Number(value)) === value) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Parse a query string (or a Query object) into a ParsedQuery.
+ * This is the inverse of `buildFilterQuery`.
+ *
+ * Accepts a full URL, a query string with or without the leading `?`,
+ * URLSearchParams, or a Query object. Filter keys are parsed with
+ * `parseFilterKey`; multi-field OR keys keep every field in `fields`.
+ *
+ * @param input - Query string, URL, URLSearchParams or Query object
+ * @param options - Parse options
+ * @returns Parsed query with AND conditions, OR conditions and named OR groups
+ * @throws {ValidationError} In strict mode, if any parameter is invalid
+ *
+ * @example
+ * ```typescript
+ * parseQuery("status=active&age_gte=18&%5Bor%5Drole=admin&sort=name&order=asc")
+ * // {
+ * //   andConditions: [
+ * //     { field: 'status', operator: 'eq', value: 'active' },
+ * //     { field: 'age', operator: 'gte', value: 18 }
+ * //   ],
+ * //   orConditions: [{ field: 'role', operator: 'eq', value: 'admin' }],
+ * //   namedOrGroups: [],
+ * //   sort: 'name',
+ * //   order: 'asc'
+ * // }
+ * ```
+ */
+function parseQuery(
+  input: string | URLSearchParams | Query,
+  options: ParseQueryOptions = {}
+): ParsedQuery {
+  const entries: [string, string | number | boolean][] = [];
+  const reserved: Record<string, string[]> = {};
+
+  if (typeof input === "string" || input instanceof URLSearchParams) {
+    let params: URLSearchParams;
+    if (typeof input === "string") {
+      let search = input.split("#")[0];
+      const questionMark = search.indexOf("?");
+      if (questionMark !== -1) {
+        search = search.substring(questionMark + 1);
+      }
+      params = new URLSearchParams(search);
+    } else {
+      params = input;
+    }
+    params.forEach((value, key) => {
+      if (RESERVED_QUERY_PARAMS.includes(key)) {
+        (reserved[key] ??= []).push(value);
+      } else {
+        entries.push([key, value]);
+      }
+    });
+  } else {
+    for (const [key, value] of Object.entries(input.filters ?? {})) {
+      if (value !== null && value !== undefined) {
+        entries.push([key, value]);
+      }
+    }
+    const toList = (v: string | string[] | undefined) =>
+      v === undefined ? undefined : Array.isArray(v) ? v : [v];
+    if (input.limit !== undefined) reserved.limit = [String(input.limit)];
+    if (input.offset !== undefined) reserved.offset = [String(input.offset)];
+    if (input.sort !== undefined) reserved.sort = [input.sort];
+    if (input.sort !== undefined || input.order !== undefined)
+      reserved.order = [input.order ?? "desc"];
+    if (input.populate !== undefined) reserved.populate = toList(input.populate)!;
+    if (input.select !== undefined) reserved.select = toList(input.select)!;
+  }
+
+  const parsed: ParsedQuery = {
+    andConditions: [],
+    orConditions: [],
+    namedOrGroups: [],
+  };
+  const problems: string[] = [];
+
+  for (const [key, rawValue] of entries) {
+    const { fields, operator, isOrFields, orGroupName } = parseFilterKey(key);
+    const condition: FilterCondition = {
+      field: fields[0],
+      operator,
+      value:
+        typeof rawValue === "string"
+          ? coerceFilterValue(rawValue, operator)
+          : rawValue,
+      ...(isOrFields ? { fields } : {}),
+    };
+
+    if (orGroupName === undefined) {
+      parsed.andConditions.push(condition);
+    } else if (orGroupName === "default") {
+      parsed.orConditions.push(condition);
+    } else {
+      let group = parsed.namedOrGroups.find((g) => g.groupName === orGroupName);
+      if (!group) {
+        group = { groupName: orGroupName, conditions: [] } as OrGroup;
+        parsed.namedOrGroups.push(group);
+      }
+      group.conditions.push(condition);
+    }
+  }
+
+  for (const name of ["limit", "offset"] as const) {
+    const value = reserved[name]?.[reserved[name].length - 1];
+    if (value === undefined) continue;
+    const num = Number(value);
+    if (value.trim() !== "" && Number.isInteger(num) && num >= 0) {
+      parsed[name] = num;
+    } else {
+      problems.push(`${name} must be a non-negative integer, got "${value}"`);
+    }
+  }
+
+  const sort = reserved.sort?.[reserved.sort.length - 1];
+  if (sort) {
+    parsed.sort = sort;
+  }
+  const order = reserved.order?.[reserved.order.length - 1];
+  if (order !== undefined) {
+    if (order === "asc" || order === "desc") {
+      parsed.order = order;
+    } else {
+      problems.push(`order must be "asc" or "desc", got "${order}"`);
+    }
+  }
+  if (reserved.populate) parsed.populate = reserved.populate;
+  if (reserved.select) parsed.select = reserved.select;
+
+  if (options.strict && problems.length > 0) {
+    throw new ValidationError(`Invalid query: ${problems.join("; ")}`, {
+      detail: problems,
+    });
+  }
+
+  return parsed;
+}
+
+/**
+ * Convert a ParsedQuery back into a Query object for `buildFilterQuery`
+ * and the document methods.
+ *
+ * @param parsed - Parsed query, e.g. from `parseQuery`
+ * @returns Query object
+ *
+ * @example
+ * ```typescript
+ * const parsed = parseQuery(location.search);
+ * parsed.andConditions = parsed.andConditions.filter((c) => c.field !== 'status');
+ * const docs = await db.listDocuments('posts', parsedQueryToQuery(parsed));
+ * ```
+ */
+function parsedQueryToQuery(parsed: ParsedQuery): Query {
+  const filters: Record<string, string | number | boolean> = {};
+  const add = (condition: FilterCondition, orGroupName?: string) => {
+    const fields = condition.fields ?? [condition.field];
+    filters[buildFilterKey(fields, condition.operator, orGroupName)] =
+      condition.value;
+  };
+
+  parsed.andConditions.forEach((c) => add(c));
+  parsed.orConditions.forEach((c) => add(c, "default"));
+  parsed.namedOrGroups.forEach((group) =>
+    group.conditions.forEach((c) => add(c, group.groupName))
+  );
+
+  const query: Query = {};
+  if (Object.keys(filters).length > 0) query.filters = filters;
+  if (parsed.sort !== undefined) query.sort = parsed.sort;
+  if (parsed.order !== undefined) query.order = parsed.order;
+  if (parsed.limit !== undefined) query.limit = parsed.limit;
+  if (parsed.offset !== undefined) query.offset = parsed.offset;
+  if (parsed.populate !== undefined) query.populate = parsed.populate;
+  if (parsed.select !== undefined) query.select = parsed.select;
+  return query;
+}
+
+const parseErrorMessage = (msg: unknown) => {
+  // Typed SDK errors already carry their fields
+  if (msg instanceof CocobaseError) {
+    return msg.toJSON();
+  }
   // Try to handle messages that were created by the request helper.
   // Expect patterns like:
   // - "Request failed:\n{...json...}"
@@ -307,8 +578,13 @@ export {
   getFromLocalStorage,
   setToLocalStorage,
   mergeUserData,
+  decodeJwt,
   BASEURL,
   buildFilterQuery,
   parseFilterKey,
+  buildFilterKey,
+  parseQuery,
+  parsedQueryToQuery,
   parseErrorMessage,
 };
+export type { ParseQueryOptions };
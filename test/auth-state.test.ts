@@ -0,0 +1,177 @@
+/**
+ * Test Suite for auth.subscribe and auth.status
+ *
+ * Run with: npx tsx test/auth-state.test.ts
+ *
+ * Uses a fake fetch so no network requests are made.
+ */
+
+import { Cocobase, MemoryStorageAdapter } from "../src/index";
+import type { AppUser, AuthState } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+const user = { id: "u1", email: "a@b.c", roles: [] } as unknown as AppUser;
+
+/**
+ * Client whose login endpoint asks for 2FA when the password is "2fa".
+ */
+function setup(storage = new MemoryStorageAdapter()) {
+  const fakeFetch = (async (url: any, init: any) => {
+    const path = String(url).replace("https://example.test", "");
+    const body = init.body ? JSON.parse(init.body) : {};
+    if (path === "/auth-collections/login" && body.password === "2fa") {
+      return new Response(
+        JSON.stringify({ requires_2fa: true, message: "Code sent" })
+      );
+    }
+    return new Response(JSON.stringify({ access_token: "tok", user }));
+  }) as typeof fetch;
+  return new Cocobase({
+    apiKey: "key",
+    baseURL: "https://example.test",
+    fetch: fakeFetch,
+    retry: false,
+    storage,
+  });
+}
+
+function summary(state: AuthState): string {
+  return `${state.status}:${state.user?.id ?? "-"}`;
+}
+
+async function runAuthStateTests() {
+  console.log("🧪 Testing auth state subscriptions...\n");
+
+  await test("Emits the current state on subscribe", () => {
+    const db = setup();
+    const states: string[] = [];
+    db.auth.subscribe((state) => states.push(summary(state)));
+    assertEqual(db.auth.status, "initializing", "status");
+    assertEqual(states, ["initializing:-"], "states");
+  });
+
+  await test("initAuth settles the status", async () => {
+    const storage = new MemoryStorageAdapter();
+    storage.set("cocobase-token", "tok");
+    storage.set("cocobase-user", JSON.stringify(user));
+
+    const restored = setup(storage);
+    const states: string[] = [];
+    restored.auth.subscribe((state) => states.push(summary(state)));
+    await restored.auth.initAuth();
+    assertEqual(restored.auth.status, "authenticated", "status");
+    assertEqual(states, ["initializing:-", "authenticated:u1"], "states");
+
+    const empty = setup();
+    await empty.auth.initAuth();
+    assertEqual(empty.auth.status, "unauthenticated", "empty status");
+  });
+
+  await test("Login delivers token and user in one update", async () => {
+    const db = setup();
+    await db.auth.initAuth();
+    const states: AuthState[] = [];
+    db.auth.subscribe((state) => states.push(state));
+
+    await db.auth.login({ email: "a@b.c", password: "secret" });
+    assertEqual(
+      states.map(summary),
+      ["unauthenticated:-", "authenticated:u1"],
+      "states"
+    );
+    assertEqual(states[1].token, "tok", "token");
+  });
+
+  await test("Tracks the 2FA step", async () => {
+    const db = setup();
+    await db.auth.initAuth();
+    const states: string[] = [];
+    db.auth.subscribe((state) => states.push(summary(state)));
+
+    await db.auth.login({ email: "a@b.c", password: "2fa" });
+    assertEqual(db.auth.status, "awaiting_2fa", "after login");
+    await db.auth.verify2FALogin({ email: "a@b.c", code: "123456" });
+    assertEqual(
+      states,
+      ["unauthenticated:-", "awaiting_2fa:-", "authenticated:u1"],
+      "states"
+    );
+  });
+
+  await test("Supports several listeners and unsubscribe", async () => {
+    const db = setup();
+    const first: string[] = [];
+    const second: string[] = [];
+    const unsubscribe = db.auth.subscribe((s) => first.push(s.status));
+    db.auth.subscribe((s) => second.push(s.status));
+
+    db.auth.setToken("tok");
+    await Promise.resolve();
+    unsubscribe();
+    db.auth.logout();
+    await Promise.resolve();
+
+    assertEqual(first, ["initializing", "authenticated"], "first");
+    assertEqual(
+      second,
+      ["initializing", "authenticated", "unauthenticated"],
+      "second"
+    );
+  });
+
+  await test("A throwing listener doesn't block the others", async () => {
+    const db = setup();
+    const seen: string[] = [];
+    const error = console.error;
+    console.error = () => {};
+    try {
+      db.auth.subscribe(() => {
+        throw new Error("boom");
+      });
+      db.auth.subscribe((s) => seen.push(s.status));
+      db.auth.setToken("tok");
+      await Promise.resolve();
+    } finally {
+      console.error = error;
+    }
+    assertEqual(seen, ["initializing", "authenticated"], "states");
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAuthStateTests();
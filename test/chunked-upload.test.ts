@@ -0,0 +1,272 @@
+/**
+ * Test Suite for resumable chunked uploads
+ *
+ * Run with: npx tsx test/chunked-upload.test.ts
+ *
+ * Runs a stand-in upload server on 127.0.0.1 (random port) so chunks go over
+ * real HTTP, including dropped connections.
+ */
+
+import { createServer, IncomingMessage, Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Cocobase, MemoryStorageAdapter } from "../src/index";
+import type { StorageAdapter, UploadProgress } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+interface StandInUpload {
+  filename: string;
+  size: number;
+  chunkSize: number;
+  chunks: Map<number, Buffer>;
+}
+
+/**
+ * In-memory implementation of the chunked upload endpoints.
+ */
+class UploadServer {
+  uploads = new Map<string, StandInUpload>();
+  completed = new Map<string, Buffer>();
+  chunkRequests: number[] = [];
+  /** Chunk indexes whose next request has its connection dropped */
+  dropChunks = new Set<number>();
+  /** Chunk indexes that never get a response */
+  stallChunks = new Set<number>();
+  private server: Server;
+  private nextId = 1;
+
+  constructor() {
+    this.server = createServer((req, res) => this.handle(req, res));
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, "127.0.0.1", resolve)
+    );
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop(): Promise<void> {
+    this.server.closeAllConnections();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: any) {
+    const body = await readBody(req);
+    const json = (value: unknown, status = 200) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(value));
+    };
+    const path = req.url!.replace(/^\/collections\/file\/uploads/, "");
+
+    if (req.method === "POST" && path === "") {
+      const { filename, size, chunk_size } = JSON.parse(body.toString());
+      const id = `up${this.nextId++}`;
+      this.uploads.set(id, {
+        filename,
+        size,
+        chunkSize: chunk_size,
+        chunks: new Map(),
+      });
+      return json({ upload_id: id });
+    }
+
+    const [, id, action, index] = path.split("/");
+    const upload = this.uploads.get(id);
+    if (!upload) return json({ detail: "Upload not found" }, 404);
+
+    if (req.method === "GET" && !action) {
+      return json({ received_chunks: [...upload.chunks.keys()] });
+    }
+    if (req.method === "PUT" && action === "chunks") {
+      const chunk = Number(index);
+      this.chunkRequests.push(chunk);
+      if (this.dropChunks.delete(chunk)) {
+        req.socket.destroy();
+        return;
+      }
+      if (this.stallChunks.has(chunk)) return;
+      upload.chunks.set(chunk, body);
+      return json({ received: chunk });
+    }
+    if (req.method === "POST" && action === "complete") {
+      const parts = [...upload.chunks.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, part]) => part);
+      const file = Buffer.concat(parts);
+      if (file.length !== upload.size) {
+        return json({ detail: "Missing chunks" }, 400);
+      }
+      this.completed.set(id, file);
+      this.uploads.delete(id);
+      return json({ url: `https://files.test/${upload.filename}` });
+    }
+    return json({ detail: "Not found" }, 404);
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve) => {
+    const parts: Buffer[] = [];
+    req.on("data", (part) => parts.push(part));
+    req.on("end", () => resolve(Buffer.concat(parts)));
+    req.on("error", () => resolve(Buffer.concat(parts)));
+  });
+}
+
+function makeFile(size: number, name = "video.mp4"): File {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) bytes[i] = i % 251;
+  return new File([bytes], name, { type: "video/mp4", lastModified: 1 });
+}
+
+async function sameBytes(file: File, buffer: Buffer | undefined) {
+  const expected = Buffer.from(await file.arrayBuffer());
+  return buffer !== undefined && expected.equals(buffer);
+}
+
+async function runChunkedUploadTests() {
+  console.log("🧪 Testing chunked uploads...\n");
+
+  const server = new UploadServer();
+  const baseURL = await server.start();
+  const client = (storage: StorageAdapter = new MemoryStorageAdapter()) =>
+    new Cocobase({
+      apiKey: "key",
+      baseURL,
+      storage,
+      retry: { baseDelayMs: 1, jitter: false },
+    });
+
+  try {
+    await test("Uploads a file in parallel chunks", async () => {
+      const db = client();
+      const file = makeFile(10_000);
+      const events: UploadProgress[] = [];
+      const result = await db.files.resume(file, {
+        chunkSize: 1024,
+        concurrency: 3,
+        onProgress: (p) => events.push(p),
+      });
+
+      assertEqual(result.url, "https://files.test/video.mp4", "url");
+      const id = [...server.completed.keys()].pop();
+      assertEqual(await sameBytes(file, server.completed.get(id!)), true, "bytes");
+      const last = events[events.length - 1];
+      assertEqual([last.loaded, last.total], [10_000, 10_000], "progress");
+      assertEqual(await db.files.getSession(file), undefined, "session cleared");
+    });
+
+    await test("Retries a chunk whose connection drops", async () => {
+      const db = client();
+      const file = makeFile(4096, "retry.bin");
+      server.chunkRequests = [];
+      server.dropChunks.add(2);
+      await db.files.resume(file, { chunkSize: 1024, concurrency: 1 });
+      assertEqual(server.chunkRequests, [0, 1, 2, 2, 3], "chunk requests");
+    });
+
+    await test("Resumes an interrupted upload from persisted state", async () => {
+      const storage = new MemoryStorageAdapter();
+      const file = makeFile(5 * 1024, "resume.bin");
+      const controller = new AbortController();
+      server.stallChunks.add(3);
+
+      // First attempt: chunk 3 hangs, so the user gives up
+      const first = client(storage);
+      const attempt = first.files.resume(file, {
+        chunkSize: 1024,
+        concurrency: 1,
+        signal: controller.signal,
+        onProgress: ({ loaded }) => {
+          if (loaded >= 3 * 1024) setTimeout(() => controller.abort(), 20);
+        },
+      });
+      let aborted = false;
+      await attempt.catch(() => (aborted = true));
+      assertEqual(aborted, true, "first attempt aborted");
+      const saved = await first.files.getSession(file);
+      assertEqual(saved?.uploadedChunks, [0, 1, 2], "persisted chunks");
+
+      // After a "reload", a new client with the same storage picks it up
+      server.stallChunks.clear();
+      server.chunkRequests = [];
+      const second = client(storage);
+      await second.files.resume(file, { chunkSize: 1024 });
+      assertEqual(server.chunkRequests.sort(), [3, 4], "only missing chunks");
+      assertEqual(
+        await sameBytes(file, server.completed.get(saved!.uploadId)),
+        true,
+        "bytes"
+      );
+    });
+
+    await test("Starts over when the server forgot the session", async () => {
+      const storage = new MemoryStorageAdapter();
+      const db = client(storage);
+      const file = makeFile(2048, "expired.bin");
+      const session = await db.files.startUpload(file, { chunkSize: 1024 });
+      await db.files.uploadChunk(session, file, 0);
+      server.uploads.delete(session.uploadId);
+
+      await db.files.resume(file, { chunkSize: 1024 });
+      const id = [...server.completed.keys()].pop()!;
+      assertEqual(id === session.uploadId, false, "new session");
+      assertEqual(await sameBytes(file, server.completed.get(id)), true, "bytes");
+    });
+
+    await test("Exposes each step of the session", async () => {
+      const db = client();
+      const file = makeFile(2500, "steps.bin");
+      const session = await db.files.startUpload(file, { chunkSize: 1000 });
+      assertEqual(session.totalChunks, 3, "chunks");
+      assertEqual(session.contentType, "video/mp4", "content type");
+
+      for (let i = session.totalChunks - 1; i >= 0; i--) {
+        await db.files.uploadChunk(session, file, i);
+      }
+      assertEqual(session.uploadedChunks, [0, 1, 2], "recorded");
+      const { url } = await db.files.complete(session);
+      assertEqual(url, "https://files.test/steps.bin", "url");
+    });
+  } finally {
+    await server.stop();
+  }
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runChunkedUploadTests();
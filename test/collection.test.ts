@@ -0,0 +1,177 @@
+/**
+ * Test Suite for collection handles
+ *
+ * Run with: npx tsx test/collection.test.ts
+ *
+ * The client's methods are replaced with recorders, so no requests are made.
+ */
+
+import { Cocobase, MemoryStorageAdapter } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+/**
+ * Client whose document methods record their arguments and return a marker,
+ * so each handle method can be checked against the method it calls.
+ */
+function setup() {
+  const db = new Cocobase({
+    apiKey: "key",
+    baseURL: "https://example.test",
+    storage: new MemoryStorageAdapter(),
+  });
+  const calls: { method: string; args: unknown[] }[] = [];
+  const record = (target: any, method: string) => {
+    target[method] = (...args: unknown[]) => {
+      calls.push({ method, args });
+      return `result of ${method}`;
+    };
+  };
+  for (const method of [
+    "getDocument",
+    "listDocuments",
+    "iterateDocuments",
+    "createDocument",
+    "updateDocument",
+    "deleteDocument",
+    "countDocuments",
+    "aggregateDocuments",
+    "createDocuments",
+    "updateDocuments",
+    "deleteDocuments",
+  ]) {
+    record(db, method);
+  }
+  record(db.realtime, "collection");
+  return { db, calls };
+}
+
+async function runCollectionTests() {
+  console.log("🧪 Testing collection handles...\n");
+
+  await test("Each method calls the client with the collection name", () => {
+    const { db, calls } = setup();
+    const posts = db.collection<{ title: string; views: number }>("posts");
+    const options = { timeoutMs: 1000 };
+    const query = { filters: { status: "published" }, limit: 5 };
+
+    const cases: [string, () => unknown, string, unknown[]][] = [
+      ["get", () => posts.get("p1", options), "getDocument", ["p1", options]],
+      [
+        "list",
+        () => posts.list(query, options),
+        "listDocuments",
+        [query, options],
+      ],
+      [
+        "iterate",
+        () => posts.iterate(query, { pageSize: 10 }),
+        "iterateDocuments",
+        [query, { pageSize: 10 }],
+      ],
+      [
+        "create",
+        () => posts.create({ title: "Hi", views: 0 }, options),
+        "createDocument",
+        [{ title: "Hi", views: 0 }, options],
+      ],
+      [
+        "update",
+        () => posts.update("p1", { views: 1 }, options),
+        "updateDocument",
+        ["p1", { views: 1 }, options],
+      ],
+      [
+        "delete",
+        () => posts.delete("p1", options),
+        "deleteDocument",
+        ["p1", options],
+      ],
+      [
+        "count",
+        () => posts.count(query, options),
+        "countDocuments",
+        [query, options],
+      ],
+      [
+        "aggregate",
+        () => posts.aggregate({ field: "views", operation: "sum" }, options),
+        "aggregateDocuments",
+        [{ field: "views", operation: "sum" }, options],
+      ],
+      [
+        "createMany",
+        () => posts.createMany([{ title: "A", views: 0 }], options),
+        "createDocuments",
+        [[{ title: "A", views: 0 }], options],
+      ],
+      [
+        "updateMany",
+        () => posts.updateMany({ p1: { views: 2 } }, options),
+        "updateDocuments",
+        [{ p1: { views: 2 } }, options],
+      ],
+      [
+        "deleteMany",
+        () => posts.deleteMany(["p1", "p2"], options),
+        "deleteDocuments",
+        [["p1", "p2"], options],
+      ],
+      [
+        "watch",
+        () => posts.watch({ status: "published" }),
+        "collection",
+        [{ status: "published" }],
+      ],
+    ];
+
+    for (const [name, call, method, args] of cases) {
+      calls.length = 0;
+      const result = call();
+      assertEqual(calls, [{ method, args: ["posts", ...args] }], name);
+      assertEqual(result, `result of ${method}`, `${name} result`);
+    }
+  });
+
+  await test("Exposes the collection name", () => {
+    const { db } = setup();
+    assertEqual(db.collection("posts").name, "posts", "name");
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runCollectionTests();
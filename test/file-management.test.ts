@@ -0,0 +1,273 @@
+/**
+ * Test Suite for listing, reading, deleting and replacing stored files
+ *
+ * Run with: npx tsx test/file-management.test.ts
+ *
+ * Uses a fake fetch so no network requests are made.
+ */
+
+import { Cocobase, MemoryStorageAdapter, NotFoundError } from "../src/index";
+import type { FileMetadata } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+async function expectError<E>(
+  promise: Promise<unknown>,
+  type: new (...args: any[]) => E
+): Promise<E> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof type) return error;
+    throw new Error(`expected ${type.name}, got ${error}`);
+  }
+  throw new Error(`expected ${type.name}, but nothing was thrown`);
+}
+
+function stored(id: string, filename: string): FileMetadata {
+  return {
+    id,
+    url: `https://files.test/${filename}`,
+    filename,
+    size: 10,
+    content_type: "image/png",
+    created_at: "2026-01-01T00:00:00Z",
+    owner: "u1",
+  };
+}
+
+/**
+ * Server with two stored files and a product whose `main` and `gallery`
+ * fields point at them. Updating the product stores the new files in place
+ * of the old ones. With `readable: false`, reading the product fails.
+ */
+function setup(readable = true) {
+  const requests: string[] = [];
+  const files = new Map<string, FileMetadata>([
+    ["f1", stored("f1", "old-main.png")],
+    ["f2", stored("f2", "gallery-1.png")],
+  ]);
+  const product = {
+    id: "p1",
+    data: {
+      name: "Lamp",
+      main: "https://files.test/old-main.png",
+      gallery: ["https://files.test/gallery-1.png", "https://files.test/shared.png"],
+      manual: "https://files.test/manual.pdf",
+    },
+  };
+
+  const fakeFetch = (async (input: any, init: any) => {
+    const url = new URL(String(input));
+    const path = url.pathname;
+    requests.push(`${init.method} ${path}${url.search}`);
+    const json = (value: unknown, status = 200) =>
+      new Response(JSON.stringify(value), { status });
+    const fileId = path.match(/^\/collections\/file\/([^/]+)$/)?.[1];
+
+    if (path === "/collections/file" && init.method === "GET") {
+      return json([...files.values()]);
+    }
+    if (path === "/collections/file" && init.method === "DELETE") {
+      const target = [...files.values()].find(
+        (f) => f.url === url.searchParams.get("url")
+      );
+      if (!target) return json({ detail: "File not found" }, 404);
+      files.delete(target.id);
+      return json({ success: true });
+    }
+    if (fileId) {
+      const file = files.get(fileId);
+      if (!file) return json({ detail: "File not found" }, 404);
+      if (init.method === "DELETE") {
+        files.delete(fileId);
+        return json({ success: true });
+      }
+      if (init.method === "PUT") {
+        const form = await new Response(init.body).formData();
+        const upload = form.get("file") as File;
+        const updated = {
+          ...file,
+          filename: upload.name,
+          size: upload.size,
+          content_type: upload.type,
+        };
+        files.set(fileId, updated);
+        return json(updated);
+      }
+      return json(file);
+    }
+    if (path === "/collections/products/documents/p1") {
+      if (init.method === "GET" && !readable) {
+        return json({ detail: "Unavailable" }, 503);
+      }
+      if (init.method === "PATCH") {
+        const form = await new Response(init.body).formData();
+        const names = (field: string) =>
+          form.getAll(field).map((f) => `https://files.test/${(f as File).name}`);
+        if (form.has("main")) product.data.main = names("main")[0];
+        if (form.has("gallery")) {
+          product.data.gallery = [
+            "https://files.test/shared.png",
+            ...names("gallery"),
+          ];
+        }
+      }
+      return json(product);
+    }
+    return json({ detail: "Not found" }, 404);
+  }) as typeof fetch;
+
+  const db = new Cocobase({
+    apiKey: "key",
+    baseURL: "https://example.test",
+    fetch: fakeFetch,
+    retry: false,
+    storage: new MemoryStorageAdapter(),
+  });
+  return { db, requests, files };
+}
+
+function png(name: string): File {
+  return new File([new Uint8Array(4)], name, { type: "image/png" });
+}
+
+async function runFileManagementTests() {
+  console.log("🧪 Testing file management...\n");
+
+  await test("Lists files with a query", async () => {
+    const { db, requests } = setup();
+    const files = await db.files.list({
+      filters: { content_type: "image/png" },
+      limit: 10,
+    });
+    assertEqual(files.map((f) => f.id), ["f1", "f2"], "files");
+    assertEqual(
+      requests[0],
+      "GET /collections/file?content_type=image%2Fpng&limit=10&offset=0",
+      "request"
+    );
+  });
+
+  await test("Reads a file's metadata", async () => {
+    const { db } = setup();
+    const file = await db.files.get("f1");
+    assertEqual(
+      [file.size, file.content_type, file.created_at, file.owner],
+      [10, "image/png", "2026-01-01T00:00:00Z", "u1"],
+      "metadata"
+    );
+    await expectError(db.files.get("missing"), NotFoundError);
+  });
+
+  await test("Deletes by ID or URL", async () => {
+    const { db, requests, files } = setup();
+    await db.files.delete("f1");
+    await db.files.delete("https://files.test/gallery-1.png");
+    assertEqual(files.size, 0, "deleted");
+    assertEqual(
+      requests,
+      [
+        "DELETE /collections/file/f1",
+        "DELETE /collections/file?url=https%3A%2F%2Ffiles.test%2Fgallery-1.png",
+      ],
+      "requests"
+    );
+    await expectError(db.files.delete("f1"), NotFoundError);
+  });
+
+  await test("Replaces a file's contents", async () => {
+    const { db } = setup();
+    const updated = await db.files.replace("f1", Buffer.from("new bytes"), {
+      filename: "new.jpg",
+    });
+    assertEqual(
+      [updated.id, updated.filename, updated.size, updated.content_type],
+      ["f1", "new.jpg", 9, "image/jpeg"],
+      "metadata"
+    );
+  });
+
+  await test("Deletes files replaced by updateDocumentWithFiles", async () => {
+    const { db, requests } = setup();
+    const doc = await db.updateDocumentWithFiles(
+      "products",
+      "p1",
+      undefined,
+      { main: png("new-main.png"), gallery: [png("gallery-2.png")] },
+      { deleteReplacedFiles: true }
+    );
+    assertEqual(doc.data.main, "https://files.test/new-main.png", "updated");
+    // Only files of the swapped fields that the document no longer uses
+    assertEqual(
+      requests.filter((r) => r.startsWith("DELETE")),
+      [
+        "DELETE /collections/file?url=https%3A%2F%2Ffiles.test%2Fold-main.png",
+        "DELETE /collections/file?url=https%3A%2F%2Ffiles.test%2Fgallery-1.png",
+      ],
+      "deleted"
+    );
+  });
+
+  await test("Keeps replaced files by default", async () => {
+    const { db, requests } = setup();
+    await db.updateDocumentWithFiles("products", "p1", undefined, {
+      main: png("new-main.png"),
+    });
+    assertEqual(requests, ["PATCH /collections/products/documents/p1"], "requests");
+  });
+
+  await test("Updates even if the document can't be read first", async () => {
+    const { db, requests } = setup(false);
+    const doc = await db.updateDocumentWithFiles(
+      "products",
+      "p1",
+      undefined,
+      { main: png("new-main.png") },
+      { deleteReplacedFiles: true }
+    );
+    assertEqual(doc.data.main, "https://files.test/new-main.png", "updated");
+    assertEqual(
+      requests.filter((r) => r.startsWith("DELETE")),
+      [],
+      "nothing deleted"
+    );
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runFileManagementTests();
@@ -0,0 +1,293 @@
+/**
+ * Test Suite for client-side file validation rules
+ *
+ * Run with: npx tsx test/file-validation.test.ts
+ *
+ * Uses a fake fetch so no network requests are made.
+ */
+
+import {
+  Cocobase,
+  MemoryStorageAdapter,
+  FileValidationError,
+  ValidationError,
+  validateFiles,
+} from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+async function expectError<E>(
+  promise: Promise<unknown>,
+  type: new (...args: any[]) => E
+): Promise<E> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof type) return error;
+    throw new Error(`expected ${type.name}, got ${error}`);
+  }
+  throw new Error(`expected ${type.name}, but nothing was thrown`);
+}
+
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JPEG = [0xff, 0xd8, 0xff, 0xe0];
+
+function file(name: string, bytes: number[], type = "", size = 0): File {
+  const padding = new Uint8Array(Math.max(0, size - bytes.length));
+  return new File([new Uint8Array(bytes), padding], name, { type });
+}
+
+function setup() {
+  const requests: string[] = [];
+  const fakeFetch = (async (url: any, init: any) => {
+    requests.push(`${init.method} ${url}`);
+    return new Response(
+      JSON.stringify({ id: "doc1", data: {}, access_token: "tok", user: {} })
+    );
+  }) as typeof fetch;
+  const db = new Cocobase({
+    apiKey: "key",
+    baseURL: "https://example.test",
+    fetch: fakeFetch,
+    retry: false,
+    storage: new MemoryStorageAdapter(),
+  });
+  return { db, requests };
+}
+
+async function runFileValidationTests() {
+  console.log("🧪 Testing file validation rules...\n");
+
+  await test("Lists every violation before sending anything", async () => {
+    const { db, requests } = setup();
+    const error = await expectError(
+      db.createDocumentWithFiles(
+        "products",
+        { name: "Lamp" },
+        {
+          main: file("main.png", PNG, "image/png", 3 * 1024 * 1024),
+          gallery: [
+            file("a.png", PNG, "image/png"),
+            file("notes.txt", [0x68, 0x69], "text/plain"),
+            file("c.png", PNG, "image/png"),
+          ],
+          manual: file("manual.pdf", [0x25], "application/pdf", 10_000),
+        },
+        {
+          rules: {
+            main: { maxSize: 2 * 1024 * 1024 },
+            gallery: { maxCount: 2, accept: ["image/*", ".webp"] },
+            manual: { accept: ".pdf" },
+          },
+        }
+      ),
+      FileValidationError
+    );
+
+    assertEqual(requests, [], "nothing sent");
+    assertEqual(error instanceof ValidationError, true, "is a ValidationError");
+    assertEqual(error.fields, ["main", "gallery"], "fields");
+    assertEqual(
+      error.violations.map((v) => [v.field, v.rule, v.index]),
+      [
+        ["main", "maxSize", 0],
+        ["gallery", "maxCount", undefined],
+        ["gallery", "accept", 1],
+      ],
+      "violations"
+    );
+    assertEqual(
+      error.violations[0].message,
+      'main: "main.png" is larger than 2 MB',
+      "message"
+    );
+    assertEqual(error.detail, error.violations, "detail");
+  });
+
+  await test("Sends the files when every rule passes", async () => {
+    const { db, requests } = setup();
+    await db.createDocumentWithFiles(
+      "products",
+      {},
+      { gallery: [file("a.PNG", PNG), file("b.jpg", JPEG, "image/jpeg")] },
+      { rules: { gallery: { maxCount: 2, accept: ["image/png", ".jpg"] } } }
+    );
+    assertEqual(requests.length, 1, "sent");
+  });
+
+  await test("Sniffs magic bytes", async () => {
+    const rules = { avatar: { accept: "image/*", sniff: true } };
+
+    // An executable renamed to .png
+    const fake = await expectError(
+      validateFiles(
+        { avatar: file("avatar.png", [0x4d, 0x5a, 0x90], "image/png") },
+        rules
+      ),
+      FileValidationError
+    );
+    assertEqual(fake.violations[0].rule, "content", "spoofed content");
+
+    // A PDF labelled as an image
+    const pdf = await expectError(
+      validateFiles(
+        {
+          avatar: file("avatar.jpg", [0x25, 0x50, 0x44, 0x46, 0x2d], "image/jpeg"),
+        },
+        rules
+      ),
+      FileValidationError
+    );
+    assertEqual(
+      pdf.violations.map((v) => v.rule),
+      ["content", "accept"],
+      "checked against the detected type"
+    );
+
+    // An image of another type than declared
+    const mislabelled = await expectError(
+      validateFiles({ avatar: file("photo.png", JPEG, "image/png") }, rules),
+      FileValidationError
+    );
+    assertEqual(
+      mislabelled.violations.map((v) => v.rule),
+      ["content"],
+      "mislabelled"
+    );
+
+    // A real image without a declared type
+    await validateFiles({ avatar: file("upload", PNG) }, rules);
+  });
+
+  await test("Checks extensions against the sniffed type", async () => {
+    const pdf = [0x25, 0x50, 0x44, 0x46, 0x2d];
+    const error = await expectError(
+      validateFiles(
+        { avatar: file("photo.jpg", pdf, "image/jpeg") },
+        { avatar: { sniff: true, accept: [".jpg"] } }
+      ),
+      FileValidationError
+    );
+    assertEqual(
+      error.violations.map((v) => v.rule),
+      ["content", "accept"],
+      "rules"
+    );
+
+    // Matching content, and extensions without a known type
+    await validateFiles(
+      { avatar: file("photo.JPG", JPEG), notes: file("a.md", [0x23]) },
+      {
+        avatar: { sniff: true, accept: [".jpg"] },
+        notes: { sniff: true, accept: ".md" },
+      }
+    );
+  });
+
+  await test("Tells ISO media formats apart by brand", async () => {
+    const iso = (brand: string) => [
+      ...[0, 0, 0, 0x18],
+      ...Array.from(`ftyp${brand}`, (char) => char.charCodeAt(0)),
+    ];
+    await validateFiles(
+      {
+        photo: file("IMG_0001.HEIC", iso("heic"), "image/heic"),
+        undeclared: file("IMG_0002.HEIC", iso("mif1")),
+        avif: file("a.avif", iso("avif"), "image/avif"),
+        song: file("song.m4a", iso("M4A ")),
+        clip: file("clip.mov", iso("qt  ")),
+        video: file("v.mp4", iso("isom"), "video/mp4"),
+      },
+      {
+        photo: { sniff: true, accept: "image/*" },
+        undeclared: { sniff: true, accept: "image/*" },
+        avif: { sniff: true, accept: "image/*" },
+        song: { sniff: true, accept: "audio/*" },
+        clip: { sniff: true, accept: ".mov" },
+        video: { sniff: true, accept: "video/mp4" },
+      }
+    );
+
+    // A video renamed to .heic
+    const error = await expectError(
+      validateFiles(
+        { photo: file("IMG.HEIC", iso("isom"), "image/heic") },
+        { photo: { sniff: true, accept: "image/*" } }
+      ),
+      FileValidationError
+    );
+    assertEqual(
+      error.violations.map((v) => v.rule),
+      ["content", "accept"],
+      "rules"
+    );
+  });
+
+  await test("Validates updates and user files", async () => {
+    const { db, requests } = setup();
+    const rules = { avatar: { maxSize: 10 } };
+    const big = { avatar: file("big.png", PNG, "image/png", 100) };
+
+    await expectError(
+      db.updateDocumentWithFiles("users", "u1", undefined, big, { rules }),
+      FileValidationError
+    );
+    await expectError(
+      db.auth.registerWithFiles(
+        { email: "a@b.c", password: "pw", files: big },
+        { rules }
+      ),
+      FileValidationError
+    );
+    db.auth.setToken("tok");
+    await expectError(
+      db.auth.updateUserWithFiles({ files: big }, { rules }),
+      FileValidationError
+    );
+    assertEqual(requests, [], "nothing sent");
+
+    // Fields without rules are not checked
+    await db.auth.updateUserWithFiles(
+      { files: big },
+      { rules: { cover: rules.avatar } }
+    );
+    assertEqual(requests.length, 1, "sent");
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runFileValidationTests();
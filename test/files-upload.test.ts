@@ -0,0 +1,216 @@
+/**
+ * Test Suite for db.files.upload
+ *
+ * Run with: npx tsx test/files-upload.test.ts
+ *
+ * Uses a fake fetch so no network requests are made.
+ */
+
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  Cocobase,
+  MemoryStorageAdapter,
+  AuthError,
+  CocobaseError,
+  ValidationError,
+  uploadFile,
+} from "../src/index";
+import { readFile } from "../src/node";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+async function expectError<E>(
+  promise: Promise<unknown>,
+  type: new (...args: any[]) => E
+): Promise<E> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof type) return error;
+    throw new Error(`expected ${type.name}, got ${error}`);
+  }
+  throw new Error(`expected ${type.name}, but nothing was thrown`);
+}
+
+interface Received {
+  url: string;
+  headers: Record<string, string>;
+  file: File;
+}
+
+/**
+ * Client whose fetch records the uploaded file. With `status`, the server
+ * rejects the upload.
+ */
+function setup(status = 200) {
+  const received: Received[] = [];
+  const fakeFetch = (async (url: any, init: any) => {
+    const form = await new Response(init.body).formData();
+    received.push({
+      url: String(url),
+      headers: init.headers,
+      file: form.get("file") as File,
+    });
+    return status === 200
+      ? new Response(JSON.stringify({ url: "https://files.test/f" }))
+      : new Response(JSON.stringify({ detail: "Rejected" }), { status });
+  }) as typeof fetch;
+  const db = new Cocobase({
+    apiKey: "key",
+    baseURL: "https://custom.test",
+    fetch: fakeFetch,
+    retry: false,
+    storage: new MemoryStorageAdapter(),
+    readFile,
+  });
+  return { db, received };
+}
+
+async function describe(file: File) {
+  return [file.name, file.type, await file.text()];
+}
+
+async function runFilesUploadTests() {
+  console.log("🧪 Testing db.files.upload...\n");
+
+  await test("Uses the configured baseURL and auth headers", async () => {
+    const { db, received } = setup();
+    db.auth.setToken("tok");
+    const result = await db.files.upload(
+      new File(["hi"], "a.txt", { type: "text/plain" })
+    );
+    assertEqual(result.url, "https://files.test/f", "response");
+    assertEqual(received[0].url, "https://custom.test/collections/file", "url");
+    assertEqual(received[0].headers["x-api-key"], "key", "api key");
+    assertEqual(received[0].headers["Authorization"], "Bearer tok", "token");
+    assertEqual(await describe(received[0].file), ["a.txt", "text/plain", "hi"], "file");
+  });
+
+  await test("Accepts Buffers, Uint8Arrays, Blobs and streams", async () => {
+    const { db, received } = setup();
+    await db.files.upload(Buffer.from("buf"), { filename: "b.png" });
+    await db.files.upload(new TextEncoder().encode("u8"), {
+      filename: "data.bin",
+      contentType: "application/x-custom",
+    });
+    await db.files.upload(new Blob(["blob"]));
+    await db.files.upload(
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode("str"));
+          controller.enqueue(new TextEncoder().encode("eam"));
+          controller.close();
+        },
+      }),
+      { filename: "s.json" }
+    );
+
+    assertEqual(
+      await Promise.all(received.map((r) => describe(r.file))),
+      [
+        ["b.png", "image/png", "buf"],
+        ["data.bin", "application/x-custom", "u8"],
+        ["upload", "application/octet-stream", "blob"],
+        ["s.json", "application/json", "stream"],
+      ],
+      "files"
+    );
+  });
+
+  await test("Reads file paths in Node", async () => {
+    const { db, received } = setup();
+    const dir = await mkdtemp(join(tmpdir(), "cocobase-"));
+    try {
+      const path = join(dir, "report.pdf");
+      await writeFile(path, "%PDF");
+      await db.files.upload(path);
+      await db.files.upload(path, { filename: "renamed.txt" });
+      assertEqual(
+        await describe(received[0].file),
+        ["report.pdf", "application/pdf", "%PDF"],
+        "file"
+      );
+      assertEqual(
+        await describe(received[1].file),
+        ["renamed.txt", "text/plain", "%PDF"],
+        "renamed"
+      );
+
+      const error = await expectError(
+        db.files.upload(join(dir, "missing.pdf")),
+        CocobaseError
+      );
+      assertEqual(error.message.includes("missing.pdf"), true, "message");
+      assertEqual(received.length, 2, "nothing sent for a missing file");
+
+      // Without a reader, as in browsers
+      const browser = new Cocobase({
+        apiKey: "key",
+        fetch: async () => new Response(),
+      });
+      await expectError(browser.files.upload(path), ValidationError);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  await test("Throws the SDK's typed errors", async () => {
+    await expectError(setup().db.files.upload(42 as any), ValidationError);
+    await expectError(setup(401).db.files.upload(new Blob(["x"])), AuthError);
+    const error = await expectError(
+      setup(413).db.files.upload(new Blob(["x"])),
+      CocobaseError
+    );
+    assertEqual(
+      [error.statusCode, error.url],
+      [413, "https://custom.test/collections/file"],
+      "error fields"
+    );
+  });
+
+  await test("uploadFile delegates to db.files.upload", async () => {
+    const { db, received } = setup();
+    await uploadFile(db, new File(["x"], "x.gif"));
+    assertEqual(received[0].url, "https://custom.test/collections/file", "url");
+    assertEqual(received[0].file.type, "image/gif", "content type");
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runFilesUploadTests();
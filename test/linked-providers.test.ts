@@ -0,0 +1,206 @@
+/**
+ * Test Suite for linking and unlinking auth providers
+ *
+ * Run with: npx tsx test/linked-providers.test.ts
+ *
+ * Uses a fake fetch so no network requests are made.
+ */
+
+import {
+  Cocobase,
+  MemoryStorageAdapter,
+  AuthError,
+  ValidationError,
+} from "../src/index";
+import type { LinkedProvider } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+async function expectError<E>(
+  promise: Promise<unknown>,
+  type: new (...args: any[]) => E
+): Promise<E> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof type) return error;
+    throw new Error(`expected ${type.name}, got ${error}`);
+  }
+  throw new Error(`expected ${type.name}, but nothing was thrown`);
+}
+
+const redirectUri = "https://app.test/settings/link";
+
+/**
+ * Server that keeps the account's providers and refuses to remove the last one.
+ */
+function setup() {
+  const requests: { method: string; url: string; body: any }[] = [];
+  let linked: LinkedProvider[] = [{ provider: "password", email: "a@b.c" }];
+  const fakeFetch = (async (url: any, init: any) => {
+    const path = String(url).replace("https://example.test", "");
+    const body = init.body ? JSON.parse(init.body) : undefined;
+    requests.push({ method: init.method, url: path, body });
+    const json = (value: unknown, status = 200) =>
+      new Response(JSON.stringify(value), { status });
+
+    const provider = path.match(/^\/auth-collections\/providers\/(.+)$/)?.[1];
+    if (init.method === "POST" && provider) {
+      linked = [...linked, { provider, email: "a@b.c" }];
+    } else if (init.method === "DELETE" && provider) {
+      if (linked.length === 1) {
+        return json({ detail: "Cannot remove the last sign-in method" }, 400);
+      }
+      linked = linked.filter((p) => p.provider !== provider);
+    }
+    return json(linked);
+  }) as typeof fetch;
+  const db = new Cocobase({
+    apiKey: "key",
+    baseURL: "https://example.test",
+    fetch: fakeFetch,
+    retry: false,
+    storage: new MemoryStorageAdapter(),
+    oauth: { github: { clientId: "gh-id", redirectUri } },
+  });
+  return { db, requests };
+}
+
+const names = (providers: LinkedProvider[]) => providers.map((p) => p.provider);
+
+async function runLinkedProviderTests() {
+  console.log("🧪 Testing linked providers...\n");
+
+  await test("Requires a signed-in user", async () => {
+    const { db, requests } = setup();
+    await expectError(db.auth.listLinkedProviders(), AuthError);
+    await expectError(
+      db.auth.linkProvider("google", { idToken: "id" }),
+      AuthError
+    );
+    await expectError(db.auth.unlinkProvider("google"), AuthError);
+    assertEqual(requests.length, 0, "no requests");
+  });
+
+  await test("Links Google with an ID token", async () => {
+    const { db, requests } = setup();
+    db.auth.setToken("tok");
+    const providers = await db.auth.linkProvider("google", {
+      idToken: "google-id-token",
+    });
+    assertEqual(names(providers), ["password", "google"], "providers");
+    assertEqual(
+      requests[0],
+      {
+        method: "POST",
+        url: "/auth-collections/providers/google",
+        body: { id_token: "google-id-token" },
+      },
+      "request"
+    );
+    assertEqual(
+      names(await db.auth.listLinkedProviders()),
+      ["password", "google"],
+      "listed"
+    );
+  });
+
+  await test("Links GitHub with an authorization code", async () => {
+    const { db, requests } = setup();
+    db.auth.setToken("tok");
+    await db.auth.linkProvider("github", { code: "gh-code", redirectUri });
+    assertEqual(
+      requests[0].body,
+      { code: "gh-code", redirect_uri: redirectUri },
+      "body"
+    );
+  });
+
+  await test("Links through the OAuth redirect flow", async () => {
+    const { db, requests } = setup();
+    db.auth.setToken("tok");
+    const url = await db.auth.oauth.getAuthorizeUrl("github", {
+      intent: "link",
+    });
+    const state = new URL(url).searchParams.get("state");
+
+    const providers = await db.auth.oauth.handleLinkCallback(
+      `${redirectUri}?code=gh-code&state=${state}`
+    );
+    assertEqual(names(providers), ["password", "github"], "providers");
+    assertEqual(requests[0].url, "/auth-collections/providers/github", "url");
+    assertEqual(
+      typeof requests[0].body.code_verifier,
+      "string",
+      "pkce verifier sent"
+    );
+    assertEqual(db.auth.getToken(), "tok", "session unchanged");
+  });
+
+  await test("Callbacks must match the flow's intent", async () => {
+    const { db, requests } = setup();
+    db.auth.setToken("tok");
+    const callback = (url: string) =>
+      `${redirectUri}?code=gh-code&state=${new URL(url).searchParams.get("state")}`;
+
+    const login = await db.auth.oauth.getAuthorizeUrl("github");
+    await expectError(
+      db.auth.oauth.handleLinkCallback(callback(login)),
+      AuthError
+    );
+    const link = await db.auth.oauth.getAuthorizeUrl("github", {
+      intent: "link",
+    });
+    await expectError(db.auth.oauth.handleCallback(callback(link)), AuthError);
+    assertEqual(requests.length, 0, "nothing sent");
+    assertEqual(db.auth.getToken(), "tok", "session unchanged");
+  });
+
+  await test("Unlinks providers but not the last one", async () => {
+    const { db } = setup();
+    db.auth.setToken("tok");
+    await db.auth.linkProvider("github", { code: "c", redirectUri });
+
+    const remaining = await db.auth.unlinkProvider("password");
+    assertEqual(names(remaining), ["github"], "remaining");
+    await expectError(db.auth.unlinkProvider("github"), ValidationError);
+    assertEqual(db.auth.isAuthenticated(), true, "still signed in");
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runLinkedProviderTests();
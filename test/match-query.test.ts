@@ -0,0 +1,148 @@
+/**
+ * Test Suite for the local query evaluator
+ *
+ * Run with: npx tsx test/match-query.test.ts
+ */
+
+import { applyQuery, matchesQuery } from "../src/utils/match";
+import type { Document } from "../src/types/types";
+
+interface Post {
+  title: string;
+  views: number;
+  status: string;
+  published: boolean;
+  tags: string[];
+  deletedAt: string | null;
+  author: { name: string; role: string };
+  publishedAt?: string;
+}
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, actual: unknown, expected: unknown) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a === e) {
+    passed++;
+    console.log(`✓ ${name}`);
+  } else {
+    failed++;
+    console.log(`✗ ${name}`);
+    console.log(`  Expected: ${e}`);
+    console.log(`  Actual:   ${a}`);
+  }
+}
+
+function doc(id: string, created_at: string, data: Post): Document<Post> {
+  return {
+    id,
+    created_at,
+    collection_id: "posts",
+    collection: {} as Document<Post>["collection"],
+    data,
+  };
+}
+
+const docs = [
+  doc("1", "2024-01-01T00:00:00Z", {
+    title: "Hello World",
+    views: 10,
+    status: "published",
+    published: true,
+    tags: ["js", "intro"],
+    deletedAt: null,
+    author: { name: "Ann", role: "admin" },
+    publishedAt: "2024-01-02T00:00:00Z",
+  }),
+  doc("2", "2024-02-01T00:00:00Z", {
+    title: "Advanced TypeScript",
+    views: 250,
+    status: "draft",
+    published: false,
+    tags: ["ts"],
+    deletedAt: null,
+    author: { name: "Bob", role: "editor" },
+  }),
+  doc("3", "2024-03-01T00:00:00Z", {
+    title: "Archived notes",
+    views: 1000,
+    status: "archived",
+    published: true,
+    tags: [],
+    deletedAt: "2024-04-01T00:00:00Z",
+    author: { name: "Cid", role: "admin" },
+    publishedAt: "2024-03-05T00:00:00Z",
+  }),
+];
+
+const ids = (query: Parameters<typeof applyQuery>[1]) =>
+  applyQuery(docs, query).map((d) => d.id);
+
+console.log("\n=== Operators ===\n");
+
+test("eq", ids({ filters: { status: "draft" } }), ["2"]);
+test("ne", ids({ filters: { status_ne: "draft" } }), ["1", "3"]);
+test("gt / lte", ids({ filters: { views_gt: 10, views_lte: 250 } }), ["2"]);
+test("gte on numeric strings", ids("views_gte=250"), ["2", "3"]);
+test("lt on ISO dates", ids({ filters: { publishedAt_lt: "2024-02-01" } }), ["1"]);
+test("contains is case-insensitive", ids({ filters: { title_contains: "WORLD" } }), ["1"]);
+test("startswith / endswith", ids({ filters: { title_startswith: "adv", title_endswith: "script" } }), ["2"]);
+test("in", ids({ filters: { status_in: "draft,archived" } }), ["2", "3"]);
+test("notin", ids({ filters: { status_notin: "draft,archived" } }), ["1"]);
+test("isnull true", ids({ filters: { deletedAt_isnull: true } }), ["1", "2"]);
+test("isnull false", ids({ filters: { publishedAt_isnull: false } }), ["1", "3"]);
+test("Boolean from query string", ids("published=false"), ["2"]);
+test("Array fields match any element", ids({ filters: { tags: "ts" } }), ["2"]);
+test("Document fields", ids({ filters: { id_in: "1,3", created_at_gte: "2024-02-15" } }), ["3"]);
+
+console.log("\n=== OR logic ===\n");
+
+test("Multi-field OR", ids({ filters: { title__or__status_contains: "arch" } }), ["3"]);
+test(
+  "Default OR group",
+  ids({ filters: { "[or]status": "draft", "[or]views_gte": 1000 } }),
+  ["2", "3"]
+);
+test(
+  "Named OR groups are AND'ed",
+  ids({
+    filters: {
+      "[or:a]status": "draft",
+      "[or:a]author.role": "admin",
+      "[or:b]views_lt": 100,
+      "[or:b]deletedAt_isnull": false,
+    },
+  }),
+  ["1", "3"]
+);
+test("Dotted relationship paths", ids({ filters: { "author.role": "admin", "author.name_startswith": "c" } }), ["3"]);
+test("matchesQuery", matchesQuery(docs[0], "%5Bor%5Dstatus=draft&%5Bor%5Dtags=intro"), true);
+
+console.log("\n=== Sort, pagination and select ===\n");
+
+test("Sort desc by default", ids({ sort: "views" }), ["3", "2", "1"]);
+test("Sort asc by document field", ids({ sort: "created_at", order: "asc" }), ["1", "2", "3"]);
+test("Missing values sort last", ids({ sort: "publishedAt", order: "asc" }), ["1", "3", "2"]);
+test("Limit and offset", ids({ sort: "views", order: "asc", limit: 1, offset: 1 }), ["2"]);
+test(
+  "Select",
+  applyQuery(docs, { filters: { id: "1" }, select: ["title", "author.name"] })[0].data,
+  { title: "Hello World", author: { name: "Ann" } }
+);
+
+// Summary
+console.log("\n=== Test Summary ===\n");
+console.log(`Passed: ${passed}`);
+console.log(`Failed: ${failed}`);
+console.log(`Total:  ${passed + failed}`);
+
+if (failed === 0) {
+  console.log("\n🎉 All tests passed!\n");
+  process.exit(0);
+} else {
+  console.log(`\n❌ ${failed} test(s) failed\n`);
+  process.exit(1);
+}
@@ -0,0 +1,260 @@
+/**
+ * Test Suite for the OAuth provider registry and redirect flow
+ *
+ * Run with: npx tsx test/oauth.test.ts
+ *
+ * Uses a fake fetch so no network requests are made.
+ */
+
+import { createHash } from "node:crypto";
+import {
+  Cocobase,
+  MemoryStorageAdapter,
+  AuthError,
+  ValidationError,
+} from "../src/index";
+import type { AppUser, CocobaseConfig } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+async function expectError<E>(
+  promise: Promise<unknown>,
+  type: new (...args: any[]) => E
+): Promise<E> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof type) return error;
+    throw new Error(`expected ${type.name}, got ${error}`);
+  }
+  throw new Error(`expected ${type.name}, but nothing was thrown`);
+}
+
+const user = { id: "u1", email: "a@b.c", roles: [] } as unknown as AppUser;
+const redirectUri = "https://app.test/callback";
+
+function setup(config: Partial<CocobaseConfig> = {}) {
+  const requests: { url: string; body: any }[] = [];
+  const fakeFetch = (async (url: any, init: any) => {
+    const path = String(url).replace("https://example.test", "");
+    requests.push({ url: path, body: JSON.parse(init.body) });
+    return new Response(JSON.stringify({ access_token: "tok", user }));
+  }) as typeof fetch;
+  const storage = new MemoryStorageAdapter();
+  const db = new Cocobase({
+    apiKey: "key",
+    baseURL: "https://example.test",
+    fetch: fakeFetch,
+    retry: false,
+    storage,
+    oauth: {
+      github: { clientId: "gh-id", redirectUri },
+      google: { clientId: "g-id", redirectUri },
+    },
+    ...config,
+  });
+  return { db, requests, storage };
+}
+
+/**
+ * Simulates the provider approving the sign-in and redirecting back.
+ */
+function callbackFor(authorizeUrl: string, code = "the-code"): string {
+  const state = new URL(authorizeUrl).searchParams.get("state");
+  return `${redirectUri}?code=${code}&state=${state}`;
+}
+
+async function runOAuthTests() {
+  console.log("🧪 Testing OAuth providers...\n");
+
+  await test("Builds authorization URLs from presets", async () => {
+    const { db } = setup();
+    const url = new URL(await db.auth.oauth.getAuthorizeUrl("github"));
+    assertEqual(
+      url.origin + url.pathname,
+      "https://github.com/login/oauth/authorize",
+      "endpoint"
+    );
+    assertEqual(url.searchParams.get("client_id"), "gh-id", "client id");
+    assertEqual(url.searchParams.get("redirect_uri"), redirectUri, "redirect");
+    assertEqual(url.searchParams.get("response_type"), "code", "response type");
+    assertEqual(url.searchParams.get("scope"), "read:user user:email", "scope");
+    assertEqual(url.searchParams.get("code_challenge_method"), "S256", "pkce");
+    assertEqual(
+      db.auth.oauth.listProviders(),
+      ["github", "google"],
+      "providers"
+    );
+
+    const other = new URL(await db.auth.oauth.getAuthorizeUrl("github"));
+    assertEqual(
+      url.searchParams.get("state") === other.searchParams.get("state"),
+      false,
+      "state is random"
+    );
+  });
+
+  await test("Completes the callback with the PKCE verifier", async () => {
+    const { db, requests, storage } = setup();
+    const url = await db.auth.oauth.getAuthorizeUrl("github");
+    const challenge = new URL(url).searchParams.get("code_challenge");
+
+    const signedIn = await db.auth.oauth.handleCallback(callbackFor(url));
+    assertEqual(signedIn.id, "u1", "user");
+    assertEqual(db.auth.getToken(), "tok", "token");
+    assertEqual(requests[0].url, "/auth-collections/github-verify", "endpoint");
+    assertEqual(requests[0].body.code, "the-code", "code");
+    assertEqual(requests[0].body.redirect_uri, redirectUri, "redirect");
+    const expected = createHash("sha256")
+      .update(requests[0].body.code_verifier)
+      .digest("base64url");
+    assertEqual(challenge, expected, "challenge matches verifier");
+    assertEqual(storage.get("cocobase-oauth"), null, "flow cleared");
+  });
+
+  await test("Rejects unknown and replayed state", async () => {
+    const { db, requests } = setup();
+    const url = await db.auth.oauth.getAuthorizeUrl("github");
+
+    await expectError(
+      db.auth.oauth.handleCallback(`${redirectUri}?code=x&state=forged`),
+      AuthError
+    );
+    await expectError(
+      db.auth.oauth.handleCallback(`${redirectUri}?code=x`),
+      AuthError
+    );
+    assertEqual(requests.length, 0, "no request sent");
+
+    await db.auth.oauth.handleCallback(callbackFor(url));
+    await expectError(
+      db.auth.oauth.handleCallback(callbackFor(url)),
+      AuthError
+    );
+    assertEqual(requests.length, 1, "one exchange");
+  });
+
+  await test("Surfaces provider errors", async () => {
+    const { db } = setup();
+    const error = await expectError(
+      db.auth.oauth.handleCallback({
+        error: "access_denied",
+        error_description: "The user denied access",
+      }),
+      AuthError
+    );
+    assertEqual(
+      error.message,
+      "OAuth sign-in failed: The user denied access",
+      "message"
+    );
+  });
+
+  await test("Registers custom OIDC providers", async () => {
+    const { db, requests } = setup();
+    await expectError(db.auth.oauth.getAuthorizeUrl("okta"), ValidationError);
+    let threw = false;
+    try {
+      db.auth.oauth.register("okta", { clientId: "o", redirectUri });
+    } catch (error) {
+      threw = error instanceof ValidationError;
+    }
+    assertEqual(threw, true, "authorizeUrl required");
+
+    db.auth.oauth.register("okta", {
+      authorizeUrl: "https://example.okta.test/authorize?tenant=1",
+      clientId: "okta-id",
+      redirectUri,
+      scopes: ["openid", "email"],
+      verifyPath: "/auth-collections/oidc-verify",
+      pkce: false,
+      params: { prompt: "login" },
+    });
+    const url = await db.auth.oauth.getAuthorizeUrl("okta", {
+      params: { login_hint: "a@b.c" },
+    });
+    const params = new URL(url).searchParams;
+    assertEqual(params.get("tenant"), "1", "existing query kept");
+    assertEqual(params.get("prompt"), "login", "provider params");
+    assertEqual(params.get("login_hint"), "a@b.c", "call params");
+    assertEqual(params.get("code_challenge"), null, "no pkce");
+
+    await db.auth.oauth.handleCallback(new URL(callbackFor(url)));
+    assertEqual(requests[0].url, "/auth-collections/oidc-verify", "endpoint");
+    assertEqual(requests[0].body.code_verifier, undefined, "no verifier");
+  });
+
+  await test("Apple callbacks can come from a form post", async () => {
+    const { db, requests } = setup({
+      oauth: { apple: { clientId: "com.app.web", redirectUri } },
+    });
+    const url = await db.auth.oauth.getAuthorizeUrl("apple");
+    const state = new URL(url).searchParams.get("state")!;
+    assertEqual(
+      new URL(url).searchParams.get("response_mode"),
+      "form_post",
+      "mode"
+    );
+
+    await db.auth.oauth.handleCallback(
+      new URLSearchParams({ code: "apple-code", state })
+    );
+    assertEqual(requests[0].url, "/auth-collections/apple-verify", "endpoint");
+  });
+
+  await test("Google sign-in needs a verifyPath", async () => {
+    const { db, requests } = setup();
+    await expectError(
+      db.auth.oauth.getAuthorizeUrl("google"),
+      ValidationError
+    );
+    await db.auth.oauth.getAuthorizeUrl("google", { intent: "link" });
+
+    db.auth.oauth.register("google", {
+      clientId: "g-id",
+      redirectUri,
+      verifyPath: "/auth-collections/google-code",
+    });
+    const url = await db.auth.oauth.getAuthorizeUrl("google");
+    await db.auth.oauth.handleCallback(callbackFor(url));
+    assertEqual(requests[0].url, "/auth-collections/google-code", "endpoint");
+    assertEqual(requests[0].body.id_token, undefined, "no id token");
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runOAuthTests();
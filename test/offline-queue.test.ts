@@ -0,0 +1,345 @@
+/**
+ * Test Suite for the offline mutation queue
+ *
+ * Run with: npx tsx test/offline-queue.test.ts
+ *
+ * Uses a fake fetch so no network requests are made.
+ */
+
+import {
+  Cocobase,
+  MemoryOfflineStore,
+  MemoryStorageAdapter,
+  NotFoundError,
+} from "../src/index";
+import type { OfflineOptions, QueuedMutation } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+interface Server {
+  online: boolean;
+  requests: { method: string; url: string; body?: any }[];
+  status?: number;
+  nextId: number;
+}
+
+/**
+ * A fake server that fails with a network error while `online` is false.
+ */
+function serverFetch(server: Server): typeof fetch {
+  return (async (url: any, init: any) => {
+    if (!server.online) {
+      throw new TypeError("fetch failed");
+    }
+    const body = init.body ? JSON.parse(init.body) : undefined;
+    server.requests.push({
+      method: init.method,
+      url: String(url).replace("https://example.test", ""),
+      body,
+    });
+    if (server.status) {
+      return new Response(JSON.stringify({ detail: "rejected" }), {
+        status: server.status,
+      });
+    }
+    if (init.method === "POST") {
+      const id = `doc${server.nextId++}`;
+      return new Response(JSON.stringify({ id, data: body.data }));
+    }
+    return new Response(JSON.stringify({ id: "x", data: body?.data }));
+  }) as typeof fetch;
+}
+
+function setup(
+  store = new MemoryOfflineStore(),
+  options: OfflineOptions = {}
+) {
+  const server: Server = { online: true, requests: [], nextId: 1 };
+  const db = new Cocobase({
+    apiKey: "key",
+    baseURL: "https://example.test",
+    fetch: serverFetch(server),
+    retry: false,
+    offline: { store, ...options },
+  });
+  return { server, db, queue: db.offline! };
+}
+
+const tick = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function runOfflineTests() {
+  console.log("🧪 Testing offline queue...\n");
+
+  await test("Writes go straight to the server while online", async () => {
+    const { server, db, queue } = setup();
+    const doc = await db.createDocument("notes", { text: "a" });
+    assertEqual(doc.id, "doc1", "server id");
+    assertEqual(queue.pending.length, 0, "queue");
+    assertEqual(server.requests.length, 1, "requests");
+  });
+
+  await test("Queues writes and returns optimistic results while offline", async () => {
+    const { server, db, queue } = setup();
+    const events: string[] = [];
+    queue.on("queued", ({ mutation }) => events.push(mutation.type));
+    server.online = false;
+
+    const created = await db.createDocument("notes", { text: "a" });
+    const updated = await db.updateDocument("notes", "abc", { text: "b" });
+    const deleted = await db.deleteDocument("notes", "abc");
+
+    assertEqual(queue.isTemporaryId(created.id), true, "temp id");
+    assertEqual(created.data, { text: "a" }, "optimistic data");
+    assertEqual(updated.id, "abc", "update id");
+    assertEqual(deleted, { success: true }, "delete result");
+    assertEqual(events, ["create", "update", "delete"], "events");
+    assertEqual(queue.pending.length, 3, "queue");
+  });
+
+  await test("Replays in order and remaps temporary ids", async () => {
+    const { server, db, queue } = setup();
+    const synced: string[] = [];
+    queue.on("synced", ({ mutation }) => synced.push(mutation.type));
+    server.online = false;
+
+    const note = await db.createDocument("notes", { text: "a" });
+    await db.createDocument("comments", { noteId: note.id, text: "hi" });
+    await db.updateDocument("notes", note.id, { text: "b" });
+    await db.deleteDocument("notes", note.id);
+
+    server.online = true;
+    await queue.sync();
+
+    assertEqual(
+      server.requests.map((r) => `${r.method} ${r.url}`),
+      [
+        "POST /collections/documents?collection=notes",
+        "POST /collections/documents?collection=comments",
+        "PATCH /collections/notes/documents/doc1",
+        "DELETE /collections/notes/documents/doc1",
+      ],
+      "requests"
+    );
+    assertEqual(server.requests[1].body.data.noteId, "doc1", "remapped reference");
+    assertEqual(synced, ["create", "create", "update", "delete"], "synced events");
+    assertEqual(queue.resolveId(note.id), "doc1", "resolveId");
+    assertEqual(queue.pending.length, 0, "queue");
+  });
+
+  await test("Later writes queue behind pending ones even when online", async () => {
+    const { server, db, queue } = setup();
+    server.online = false;
+    await db.createDocument("notes", { text: "a" });
+    server.online = true;
+    await db.createDocument("notes", { text: "b" });
+    assertEqual(server.requests.length, 0, "nothing sent out of order");
+    assertEqual(queue.pending.length, 2, "queue");
+  });
+
+  await test("Sync stops on network errors and keeps the queue", async () => {
+    const { server, db, queue } = setup();
+    server.online = false;
+    await db.createDocument("notes", { text: "a" });
+    let threw = false;
+    try {
+      await queue.sync();
+    } catch {
+      threw = true;
+    }
+    assertEqual(threw, true, "sync rejects");
+    assertEqual(queue.pending.length, 1, "queue kept");
+    assertEqual(queue.pending[0].attempts, 1, "attempts");
+  });
+
+  await test("Conflicts and failures are reported and dropped", async () => {
+    const { server, db, queue } = setup();
+    const results: string[] = [];
+    queue.on("conflict", ({ error }) => results.push(`conflict ${error.statusCode}`));
+    queue.on("failed", () => results.push("failed"));
+    server.online = false;
+    await db.updateDocument("notes", "gone", { text: "a" });
+    server.online = true;
+    server.status = 409;
+    await queue.sync();
+    server.online = false;
+    await db.updateDocument("notes", "bad", { text: "b" });
+    server.online = true;
+    server.status = 400;
+    await queue.sync();
+    assertEqual(results, ["conflict 409", "failed"], "events");
+    assertEqual(queue.pending.length, 0, "queue");
+  });
+
+  await test("Queued writes persist in the store", async () => {
+    const store = new MemoryOfflineStore();
+    const first = setup(store);
+    first.server.online = false;
+    await first.db.createDocument("notes", { text: "a" });
+
+    const second = setup(store);
+    await second.queue.sync();
+    assertEqual(second.server.requests.length, 1, "replayed from store");
+    assertEqual((store.load() as QueuedMutation[]).length, 0, "store emptied");
+  });
+
+  await test("A saved queue is replayed on load", async () => {
+    const store = new MemoryOfflineStore();
+    const first = setup(store);
+    first.server.online = false;
+    await first.db.createDocument("notes", { text: "a" });
+
+    // No `online` event and no sync() call
+    const second = setup(store);
+    await tick(10);
+    assertEqual(second.server.requests.length, 1, "replayed");
+    assertEqual(second.queue.pending.length, 0, "queue");
+  });
+
+  await test("Writes queued on 503 are retried with backoff", async () => {
+    const { server, db, queue } = setup(undefined, { retryDelayMs: 20 });
+    server.status = 503;
+    await db.createDocument("notes", { text: "a" });
+    assertEqual(queue.pending.length, 1, "queued");
+
+    // Still unavailable on the first retry
+    await tick(30);
+    assertEqual(queue.pending.length, 1, "still queued");
+    server.status = undefined;
+    await tick(60);
+    assertEqual(queue.pending.length, 0, "replayed");
+    assertEqual(server.requests.length > 1, true, "retried");
+  });
+
+  await test("Writes to a rejected create are dropped", async () => {
+    const { server, db, queue } = setup();
+    const events: string[] = [];
+    queue.on("failed", ({ mutation }) => events.push(`failed ${mutation.type}`));
+    queue.on("dropped", ({ mutation }) =>
+      events.push(`dropped ${mutation.type}`)
+    );
+    server.online = false;
+    const note = await db.createDocument("notes", { text: "a" });
+    await db.updateDocument("notes", note.id, { text: "b" });
+    await db.deleteDocument("notes", note.id);
+
+    server.online = true;
+    server.status = 400;
+    await queue.sync();
+    assertEqual(
+      events,
+      ["failed create", "dropped update", "dropped delete"],
+      "events"
+    );
+    assertEqual(server.requests.length, 1, "only the create was sent");
+
+    let error: unknown;
+    await db.updateDocument("notes", note.id, { text: "c" }).catch((e) => {
+      error = e;
+    });
+    assertEqual(error instanceof NotFoundError, true, "later writes throw");
+  });
+
+  await test("Temporary ids resolve after a reload", async () => {
+    const store = new MemoryOfflineStore();
+    const first = setup(store);
+    first.server.online = false;
+    const note = await first.db.createDocument("notes", { text: "a" });
+    first.server.online = true;
+    await first.queue.sync();
+
+    // The app still holds the temporary id after reloading
+    const second = setup(store);
+    await second.db.updateDocument("notes", note.id, { text: "b" });
+    assertEqual(second.queue.resolveId(note.id), "doc1", "resolved");
+    assertEqual(
+      second.server.requests.map((r) => r.url),
+      ["/collections/notes/documents/doc1"],
+      "sent with the real id"
+    );
+  });
+
+  await test("The default store uses storageKeyPrefix", async () => {
+    const values = new Map<string, string>();
+    const localStorage = {
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: (key: string, value: string) => values.set(key, value),
+      removeItem: (key: string) => values.delete(key),
+    };
+    (globalThis as any).window = { localStorage };
+    (globalThis as any).localStorage = localStorage;
+    try {
+      const clients = ["app-a-", "app-b-"].map((prefix) => {
+        const server: Server = { online: false, requests: [], nextId: 1 };
+        return new Cocobase({
+          apiKey: "key",
+          baseURL: "https://example.test",
+          fetch: serverFetch(server),
+          retry: false,
+          storage: new MemoryStorageAdapter(),
+          syncTabs: false,
+          storageKeyPrefix: prefix,
+          offline: true,
+        });
+      });
+      await clients[0].createDocument("notes", { text: "a" });
+      await clients[1].createDocument("notes", { text: "b" });
+      const queued = (key: string) =>
+        JSON.parse(values.get(key) ?? "[]").map((m: any) => m.data.text);
+      assertEqual(queued("app-a-offline-queue"), ["a"], "first client");
+      assertEqual(queued("app-b-offline-queue"), ["b"], "second client");
+    } finally {
+      delete (globalThis as any).window;
+      delete (globalThis as any).localStorage;
+    }
+  });
+
+  await test("Other errors are thrown while online", async () => {
+    const { server, db, queue } = setup();
+    server.status = 400;
+    let threw = false;
+    try {
+      await db.createDocument("notes", { text: "a" });
+    } catch {
+      threw = true;
+    }
+    assertEqual(threw, true, "throws");
+    assertEqual(queue.pending.length, 0, "not queued");
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runOfflineTests();
@@ -0,0 +1,180 @@
+/**
+ * Test Suite for async iterator pagination
+ *
+ * Run with: npx tsx test/pagination.test.ts
+ *
+ * Uses a fake fetch so no network requests are made.
+ */
+
+import { Cocobase } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+/**
+ * A fetch serving `total` documents (or users) from offset/limit params.
+ */
+function pagedFetch(total: number, urls: string[], users = false): typeof fetch {
+  return (async (url: any) => {
+    urls.push(String(url));
+    const params = new URL(String(url)).searchParams;
+    const limit = Number(params.get("limit"));
+    const offset = Number(params.get("offset"));
+    const items = [];
+    for (let i = offset; i < Math.min(offset + limit, total); i++) {
+      items.push({ id: String(i), data: { n: i } });
+    }
+    const body = users
+      ? { data: items, total, limit, offset, has_more: offset + limit < total }
+      : items;
+    return new Response(JSON.stringify(body), { status: 200 });
+  }) as typeof fetch;
+}
+
+function client(fetchImpl: typeof fetch) {
+  return new Cocobase({
+    apiKey: "key",
+    baseURL: "https://example.test",
+    fetch: fetchImpl,
+  });
+}
+
+async function runPaginationTests() {
+  console.log("🧪 Testing pagination...\n");
+
+  await test("Iterates every document and stops on a short page", async () => {
+    const urls: string[] = [];
+    const db = client(pagedFetch(5, urls));
+    const ids: string[] = [];
+    for await (const doc of db.iterateDocuments("posts", {}, { pageSize: 2 })) {
+      ids.push(doc.id);
+    }
+    assertEqual(ids, ["0", "1", "2", "3", "4"], "ids");
+    assertEqual(urls.length, 3, "request count");
+  });
+
+  await test("Stops after an empty page when the total divides evenly", async () => {
+    const urls: string[] = [];
+    const db = client(pagedFetch(4, urls));
+    const docs = await db.iterateDocuments("posts", {}, { pageSize: 2 }).toArray();
+    assertEqual(docs.length, 4, "count");
+    assertEqual(urls.length, 3, "request count");
+  });
+
+  await test("Yields pages and keeps query filters and offset", async () => {
+    const urls: string[] = [];
+    const db = client(pagedFetch(7, urls));
+    const pages = [];
+    for await (const page of db
+      .iterateDocuments("posts", { filters: { status: "active" }, offset: 3, limit: 2 })
+      .pages()) {
+      pages.push([page.index, page.offset, page.items.length, page.hasMore]);
+    }
+    assertEqual(pages, [[0, 3, 2, true], [1, 5, 2, true]], "pages");
+    const first = new URL(urls[0]).searchParams;
+    assertEqual(first.get("status"), "active", "filter kept");
+  });
+
+  await test("maxItems caps items and requests", async () => {
+    const urls: string[] = [];
+    const db = client(pagedFetch(100, urls));
+    const docs = await db
+      .iterateDocuments("posts", {}, { pageSize: 10, maxItems: 25, concurrency: 5 })
+      .toArray();
+    assertEqual(docs.length, 25, "count");
+    assertEqual(urls.length, 3, "request count");
+  });
+
+  await test("Concurrency prefetches pages in order", async () => {
+    const urls: string[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const inner = pagedFetch(9, urls);
+    const slowFetch = (async (url: any, init: any) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((r) => setTimeout(r, 5));
+      inFlight--;
+      return inner(url, init);
+    }) as typeof fetch;
+    const db = client(slowFetch);
+    const docs = await db
+      .iterateDocuments("posts", {}, { pageSize: 3, concurrency: 3 })
+      .toArray();
+    assertEqual(docs.map((d) => d.id).join(","), "0,1,2,3,4,5,6,7,8", "order");
+    assertEqual(maxInFlight, 3, "max in flight");
+  });
+
+  await test("Breaking early aborts prefetched requests", async () => {
+    const aborted: string[] = [];
+    const fetchImpl = ((url: any, init: any) =>
+      new Promise((resolve, reject) => {
+        const offset = new URL(String(url)).searchParams.get("offset");
+        if (offset === "0") {
+          resolve(new Response(JSON.stringify([{ id: "0" }, { id: "1" }])));
+          return;
+        }
+        init.signal?.addEventListener("abort", () => {
+          aborted.push(offset!);
+          reject(init.signal.reason);
+        });
+      })) as typeof fetch;
+    const db = client(fetchImpl);
+    for await (const doc of db.iterateDocuments("posts", {}, { pageSize: 2, concurrency: 3 })) {
+      if (doc.id === "0") break;
+    }
+    assertEqual(aborted.sort(), ["2", "4"], "aborted offsets");
+  });
+
+  await test("iterateUsers follows has_more", async () => {
+    const urls: string[] = [];
+    const db = client(pagedFetch(6, urls, true));
+    const users = await db.auth.iterateUsers({}, { pageSize: 3 }).toArray();
+    assertEqual(users.length, 6, "count");
+    assertEqual(urls.length, 2, "request count");
+  });
+
+  await test("Collection handles iterate", async () => {
+    const urls: string[] = [];
+    const db = client(pagedFetch(3, urls));
+    const docs = await db.collection("posts").iterate({}, { pageSize: 5 }).toArray();
+    assertEqual(docs.length, 3, "count");
+    assertEqual(urls.length, 1, "request count");
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runPaginationTests();
@@ -0,0 +1,182 @@
+/**
+ * Test Suite for magic link and email code login
+ *
+ * Run with: npx tsx test/passwordless.test.ts
+ *
+ * Uses a fake fetch so no network requests are made.
+ */
+
+import { Cocobase, MemoryStorageAdapter, AuthError } from "../src/index";
+import type { AppUser } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+async function expectError<E>(
+  promise: Promise<unknown>,
+  type: new (...args: any[]) => E
+): Promise<E> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof type) return error;
+    throw new Error(`expected ${type.name}, got ${error}`);
+  }
+  throw new Error(`expected ${type.name}, but nothing was thrown`);
+}
+
+const user = { id: "u1", email: "a@b.c", roles: [] } as unknown as AppUser;
+
+/**
+ * Server that accepts the magic link token "link-token" and the code "123456".
+ * With `omitUser`, token responses leave out the user.
+ */
+function setup(omitUser = false) {
+  const requests: { url: string; body: any }[] = [];
+  const storage = new MemoryStorageAdapter();
+  const fakeFetch = (async (url: any, init: any) => {
+    const path = String(url).replace("https://example.test", "");
+    const body = init.body ? JSON.parse(init.body) : undefined;
+    requests.push({ url: path, body });
+    const json = (value: unknown, status = 200) =>
+      new Response(JSON.stringify(value), { status });
+    const session = omitUser
+      ? { access_token: "tok" }
+      : { access_token: "tok", user };
+
+    switch (path) {
+      case "/auth-collections/magic-link/send":
+      case "/auth-collections/email-code/send":
+        return json({ message: "sent" });
+      case "/auth-collections/magic-link/verify":
+        return body.token === "link-token"
+          ? json(session)
+          : json({ detail: "Invalid or expired link" }, 401);
+      case "/auth-collections/email-code/verify":
+        return body.code === "123456"
+          ? json(session)
+          : json({ detail: "Invalid code" }, 401);
+      case "/auth-collections/user":
+        return json(user);
+      default:
+        return json({ detail: "Not found" }, 404);
+    }
+  }) as typeof fetch;
+  const db = new Cocobase({
+    apiKey: "key",
+    baseURL: "https://example.test",
+    fetch: fakeFetch,
+    retry: false,
+    storage,
+  });
+  const logins: string[] = [];
+  db.auth.onAuthEvent({
+    onLogin: (u, token) => logins.push(`${u.id}:${token}`),
+  });
+  return { db, requests, storage, logins };
+}
+
+async function runPasswordlessTests() {
+  console.log("🧪 Testing passwordless login...\n");
+
+  await test("Sends a magic link", async () => {
+    const { db, requests } = setup();
+    await db.auth.sendMagicLink("a@b.c", "https://app.test/magic");
+    assertEqual(
+      requests[0],
+      {
+        url: "/auth-collections/magic-link/send",
+        body: { email: "a@b.c", redirect_url: "https://app.test/magic" },
+      },
+      "request"
+    );
+  });
+
+  await test("Completes a magic link like a login", async () => {
+    const { db, storage, logins } = setup();
+    const signedIn = await db.auth.completeMagicLink(
+      "https://app.test/magic?token=link-token"
+    );
+    assertEqual(signedIn.id, "u1", "user");
+    assertEqual(db.auth.getToken(), "tok", "token");
+    assertEqual(db.auth.status, "authenticated", "status");
+    assertEqual(storage.get("cocobase-token"), "tok", "persisted");
+    assertEqual(logins, ["u1:tok"], "onLogin");
+  });
+
+  await test("Rejects links without a valid token", async () => {
+    const { db, requests } = setup();
+    await expectError(
+      db.auth.completeMagicLink(new URL("https://app.test/magic")),
+      AuthError
+    );
+    assertEqual(requests.length, 0, "no request without a token");
+    await expectError(
+      db.auth.completeMagicLink(new URLSearchParams({ token: "stale" })),
+      AuthError
+    );
+    assertEqual(db.auth.isAuthenticated(), false, "signed out");
+  });
+
+  await test("Logs in with an emailed code", async () => {
+    const { db, requests, logins } = setup();
+    await db.auth.loginWithEmailCode("a@b.c");
+    assertEqual(requests[0].url, "/auth-collections/email-code/send", "send");
+
+    await expectError(db.auth.verifyEmailCode("a@b.c", "000000"), AuthError);
+    assertEqual(logins, [], "no login on a wrong code");
+
+    const signedIn = await db.auth.verifyEmailCode("a@b.c", "123456");
+    assertEqual(signedIn.id, "u1", "user");
+    assertEqual(
+      requests[requests.length - 1].body,
+      { email: "a@b.c", code: "123456" },
+      "verify body"
+    );
+    assertEqual(logins, ["u1:tok"], "onLogin");
+  });
+
+  await test("Fetches the user when the response has none", async () => {
+    const { db, requests, logins } = setup(true);
+    const signedIn = await db.auth.verifyEmailCode("a@b.c", "123456");
+    assertEqual(signedIn.id, "u1", "user");
+    assertEqual(requests[1].url, "/auth-collections/user", "user request");
+    assertEqual(logins, ["u1:tok"], "onLogin");
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runPasswordlessTests();
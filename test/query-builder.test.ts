@@ -0,0 +1,266 @@
+/**
+ * Test Suite for the fluent query builder
+ *
+ * Run with: npx tsx test/query-builder.test.ts
+ */
+
+import { q } from "../src/utils/query";
+import { buildFilterQuery } from "../src/utils/utils";
+import { ValidationError } from "../src/core/errors";
+
+interface Author {
+  name: string;
+  role: string;
+}
+
+interface Post {
+  title: string;
+  name: string;
+  email: string;
+  age: number;
+  status: string;
+  author: Author;
+  deletedAt: string | null;
+}
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, actual: string, expected: string) {
+  if (actual === expected) {
+    passed++;
+    console.log(`✓ ${name}`);
+  } else {
+    failed++;
+    console.log(`✗ ${name}`);
+    console.log(`  Expected: ${expected}`);
+    console.log(`  Actual:   ${actual}`);
+  }
+}
+
+function testThrows(
+  name: string,
+  fn: () => unknown,
+  type: new (...args: any[]) => Error = Error
+) {
+  try {
+    fn();
+    failed++;
+    console.log(`✗ ${name} (did not throw)`);
+  } catch (error) {
+    if (error instanceof type) {
+      passed++;
+      console.log(`✓ ${name}`);
+    } else {
+      failed++;
+      console.log(`✗ ${name} (expected ${type.name}, got ${error})`);
+    }
+  }
+}
+
+console.log("\n=== Query Builder ===\n");
+
+test(
+  "Simple AND conditions",
+  JSON.stringify(q<Post>().where("status").eq("active").where("age").gte(18).build()),
+  JSON.stringify({ filters: { status: "active", age_gte: 18 } })
+);
+
+test(
+  "Every operator",
+  JSON.stringify(
+    q<Post>()
+      .where("status").eq("a")
+      .where("title").ne("b")
+      .where("age").gt(1)
+      .where("age").gte(2)
+      .where("age").lt(3)
+      .where("age").lte(4)
+      .where("name").contains("c")
+      .where("email").startsWith("d")
+      .where("email").endsWith("e")
+      .where("status").in(["x", "y"])
+      .where("title").notIn(["z"])
+      .where("deletedAt").isNull()
+      .build().filters
+  ),
+  JSON.stringify({
+    status: "a",
+    title_ne: "b",
+    age_gt: 1,
+    age_gte: 2,
+    age_lt: 3,
+    age_lte: 4,
+    name_contains: "c",
+    email_startswith: "d",
+    email_endswith: "e",
+    status_in: "x,y",
+    title_notin: "z",
+    deletedAt_isnull: true,
+  })
+);
+
+test(
+  "Multi-field OR",
+  q<Post>().whereAny(["name", "email"]).contains("john").toString(),
+  "name__or__email_contains=john&limit=100&offset=0"
+);
+
+test(
+  "Default OR group",
+  q<Post>()
+    .where("age")
+    .gte(18)
+    .or((w) => w.where("name").contains("x").orWhere("email").contains("x"))
+    .toString(),
+  "age_gte=18&%5Bor%5Dname_contains=x&%5Bor%5Demail_contains=x&limit=100&offset=0"
+);
+
+test(
+  "Named OR groups",
+  JSON.stringify(
+    q<Post>()
+      .or("age", (w) => w.where("age").lt(18).orWhere("age").gt(65))
+      .or("status", (w) => w.where("status").eq("vip").orWhere("title").contains("vip"))
+      .build().filters
+  ),
+  JSON.stringify({
+    "[or:age]age_lt": 18,
+    "[or:age]age_gt": 65,
+    "[or:status]status": "vip",
+    "[or:status]title_contains": "vip",
+  })
+);
+
+test(
+  "Unnamed OR groups stay separate",
+  JSON.stringify(
+    q<Post>()
+      .or((w) => w.where("status").eq("a").orWhere("title").eq("b"))
+      .or((w) => w.where("age").lt(1).orWhere("age").gt(9))
+      .build().filters
+  ),
+  JSON.stringify({
+    "[or]status": "a",
+    "[or]title": "b",
+    "[or:__auto2]age_lt": 1,
+    "[or:__auto2]age_gt": 9,
+  })
+);
+
+test(
+  "Unnamed OR groups don't merge with a group named or2",
+  JSON.stringify(
+    q<Post>()
+      .or((w) => w.where("status").eq("a").orWhere("title").eq("b"))
+      .or("or2", (w) => w.where("age").lt(1).orWhere("age").gt(9))
+      .or((w) => w.where("age").lt(2).orWhere("age").gt(8))
+      .build().filters
+  ),
+  JSON.stringify({
+    "[or]status": "a",
+    "[or]title": "b",
+    "[or:or2]age_lt": 1,
+    "[or:or2]age_gt": 9,
+    "[or:__auto2]age_lt": 2,
+    "[or:__auto2]age_gt": 8,
+  })
+);
+
+test(
+  "Multi-field OR inside a named group",
+  JSON.stringify(
+    q<Post>()
+      .or("search", (w) => w.whereAny(["name", "email"]).contains("x").orWhere("title").contains("x"))
+      .build().filters
+  ),
+  JSON.stringify({
+    "[or:search]name__or__email_contains": "x",
+    "[or:search]title_contains": "x",
+  })
+);
+
+test(
+  "Relationship paths",
+  q<Post>().where("author.role").eq("admin").populate("author").toString(),
+  "author.role=admin&populate=author&limit=100&offset=0"
+);
+
+test(
+  "Sort, populate, select and pagination",
+  q<Post>()
+    .where("age")
+    .gte(18)
+    .sort("created_at", "asc")
+    .populate("author")
+    .select("title", "author.name")
+    .limit(20)
+    .offset(40)
+    .toString(),
+  buildFilterQuery({
+    filters: { age_gte: 18 },
+    sort: "created_at",
+    order: "asc",
+    populate: ["author"],
+    select: ["title", "author.name"],
+    limit: 20,
+    offset: 40,
+  })
+);
+
+test(
+  "Dates are serialized as ISO strings",
+  JSON.stringify(
+    q<Post>().where("created_at").gte(new Date("2024-01-01T00:00:00Z")).build()
+  ),
+  JSON.stringify({ filters: { created_at_gte: "2024-01-01T00:00:00.000Z" } })
+);
+
+test(
+  "Raw filter escape hatch",
+  JSON.stringify(q().filter("[or:x]custom_gte", 5).build()),
+  JSON.stringify({ filters: { "[or:x]custom_gte": 5 } })
+);
+
+testThrows(
+  "Duplicate keys throw",
+  () => q<Post>().where("status").eq("a").where("status").eq("b"),
+  ValidationError
+);
+
+testThrows(
+  "Two values for one field in an OR group throw",
+  () => q<Post>().or((w) => w.where("status").eq("a").orWhere("status").eq("b")),
+  ValidationError
+);
+
+test(
+  "in() matches several values for one field in an OR group",
+  JSON.stringify(
+    q<Post>()
+      .or((w) => w.where("status").in(["a", "b"]).orWhere("title").eq("c"))
+      .build().filters
+  ),
+  JSON.stringify({ "[or]status_in": "a,b", "[or]title": "c" })
+);
+
+testThrows(
+  "Reserved OR group names throw",
+  () => q<Post>().or("__auto2", (w) => w.where("age").lt(1)),
+  ValidationError
+);
+
+// Summary
+console.log("\n=== Test Summary ===\n");
+console.log(`Passed: ${passed}`);
+console.log(`Failed: ${failed}`);
+console.log(`Total:  ${passed + failed}`);
+
+if (failed === 0) {
+  console.log("\n🎉 All tests passed!\n");
+  process.exit(0);
+} else {
+  console.log(`\n❌ ${failed} test(s) failed\n`);
+  process.exit(1);
+}
@@ -0,0 +1,250 @@
+/**
+ * Test Suite for the client-side query cache
+ *
+ * Run with: npx tsx test/query-cache.test.ts
+ *
+ * Uses a fake fetch so no network requests are made.
+ */
+
+import { Cocobase } from "../src/index";
+import type { CocobaseConfig } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * A fetch that counts GETs and answers each with an increasing version.
+ */
+function countingFetch(counter: { gets: number }): typeof fetch {
+  return (async (_url: any, init: any) => {
+    if (init.method === "GET") {
+      counter.gets++;
+      return new Response(JSON.stringify({ count: counter.gets }));
+    }
+    return new Response(JSON.stringify({ id: "1" }));
+  }) as typeof fetch;
+}
+
+function client(counter: { gets: number }, cache: CocobaseConfig["cache"]) {
+  return new Cocobase({
+    apiKey: "key",
+    baseURL: "https://example.test",
+    fetch: countingFetch(counter),
+    cache,
+  });
+}
+
+async function runCacheTests() {
+  console.log("🧪 Testing query cache...\n");
+
+  await test("Disabled by default", async () => {
+    const counter = { gets: 0 };
+    const db = client(counter, undefined);
+    await db.countDocuments("posts");
+    await db.countDocuments("posts");
+    assertEqual(counter.gets, 2, "requests");
+    assertEqual(db.cache, undefined, "cache");
+  });
+
+  await test("Serves repeated queries from the cache", async () => {
+    const counter = { gets: 0 };
+    const db = client(counter, true);
+    const a = await db.countDocuments("posts", { filters: { status: "a" } });
+    const b = await db.countDocuments("posts", { filters: { status: "a" } });
+    await db.countDocuments("posts", { filters: { status: "b" } });
+    await db.listDocuments("posts", { filters: { status: "a" } });
+    assertEqual([a, b], [{ count: 1 }, { count: 1 }], "results");
+    assertEqual(counter.gets, 3, "requests");
+    assertEqual(db.cache!.stats().hits, 1, "hits");
+    assertEqual(db.cache!.stats().misses, 3, "misses");
+  });
+
+  await test("Concurrent misses share one request", async () => {
+    const counter = { gets: 0 };
+    const db = client(counter, true);
+    await Promise.all([
+      db.countDocuments("posts"),
+      db.countDocuments("posts"),
+      db.countDocuments("posts"),
+    ]);
+    assertEqual(counter.gets, 1, "requests");
+  });
+
+  await test("Expires after ttlMs", async () => {
+    const counter = { gets: 0 };
+    const db = client(counter, { ttlMs: 10 });
+    await db.countDocuments("posts");
+    await sleep(20);
+    const result = await db.countDocuments("posts");
+    assertEqual(result, { count: 2 }, "fresh result");
+  });
+
+  await test("Serves stale results while revalidating", async () => {
+    const counter = { gets: 0 };
+    const db = client(counter, { ttlMs: 10, staleWhileRevalidateMs: 1000 });
+    await db.countDocuments("posts");
+    await sleep(20);
+    const stale = await db.countDocuments("posts");
+    await sleep(5);
+    const fresh = await db.countDocuments("posts");
+    assertEqual([stale, fresh], [{ count: 1 }, { count: 2 }], "results");
+    assertEqual(db.cache!.stats().revalidations, 1, "revalidations");
+  });
+
+  await test("Evicts the least recently used entry", async () => {
+    const counter = { gets: 0 };
+    const db = client(counter, { maxEntries: 2 });
+    await db.countDocuments("a");
+    await db.countDocuments("b");
+    await db.countDocuments("a"); // a is now most recently used
+    await db.countDocuments("c"); // evicts b
+    await db.countDocuments("a");
+    await db.countDocuments("b");
+    assertEqual(counter.gets, 4, "requests");
+    assertEqual(db.cache!.stats().evictions, 2, "evictions");
+    assertEqual(db.cache!.stats().size, 2, "size");
+  });
+
+  await test("Mutations invalidate only their collection", async () => {
+    const counter = { gets: 0 };
+    const db = client(counter, true);
+    await db.countDocuments("posts");
+    await db.countDocuments("users");
+    await db.createDocument("posts", { title: "x" });
+    await db.countDocuments("posts");
+    await db.countDocuments("users");
+    assertEqual(counter.gets, 3, "requests");
+
+    for (const write of [
+      () => db.updateDocument("posts", "1", {}),
+      () => db.deleteDocument("posts", "1"),
+      () => db.createDocuments("posts", [{}]),
+      () => db.updateDocuments("posts", { "1": {} }),
+      () => db.deleteDocuments("posts", ["1"]),
+    ]) {
+      const before = counter.gets;
+      await write();
+      await db.countDocuments("posts");
+      assertEqual(counter.gets, before + 1, "refetch after write");
+    }
+  });
+
+  await test("Results in flight during a mutation are not cached", async () => {
+    const counter = { gets: 0 };
+    const db = client(counter, true);
+    const pending = db.countDocuments("posts");
+    await db.deleteDocument("posts", "1");
+    await pending;
+    await db.countDocuments("posts");
+    assertEqual(counter.gets, 2, "requests");
+  });
+
+  await test("cache: false skips the cached result", async () => {
+    const counter = { gets: 0 };
+    const db = client(counter, true);
+    await db.countDocuments("posts");
+    const fresh = await db.countDocuments("posts", undefined, { cache: false });
+    const cached = await db.countDocuments("posts");
+    assertEqual([fresh, cached], [{ count: 2 }, { count: 2 }], "results");
+  });
+
+  await test("Aggregates are keyed by field and operation", async () => {
+    const counter = { gets: 0 };
+    const db = client(counter, true);
+    await db.aggregateDocuments("posts", { field: "views", operation: "sum" });
+    await db.aggregateDocuments("posts", { field: "views", operation: "avg" });
+    await db.aggregateDocuments("posts", { field: "views", operation: "sum" });
+    assertEqual(counter.gets, 2, "requests");
+  });
+
+  await test("clear() drops entries and resets stats", async () => {
+    const counter = { gets: 0 };
+    const db = client(counter, true);
+    await db.countDocuments("posts");
+    await db.countDocuments("posts");
+    db.cache!.clear();
+    assertEqual(db.cache!.stats(), {
+      hits: 0,
+      staleHits: 0,
+      misses: 0,
+      evictions: 0,
+      invalidations: 0,
+      revalidations: 0,
+      size: 0,
+      hitRate: 0,
+    }, "stats");
+  });
+
+  await test("Results are not shared between sessions", async () => {
+    const counter = { gets: 0 };
+    const db = client(counter, true);
+    db.auth.setToken("alice");
+    const alice = await db.countDocuments("posts");
+    db.auth.setToken("bob");
+    const bob = await db.countDocuments("posts");
+    assertEqual([alice, bob], [{ count: 1 }, { count: 2 }], "results");
+
+    // The switch also drops the previous session's entries
+    await sleep(0);
+    assertEqual(db.cache!.stats().size, 0, "cleared on token change");
+    await db.countDocuments("posts");
+    await db.auth.logout();
+    await sleep(0);
+    assertEqual(db.cache!.stats().size, 0, "cleared on logout");
+  });
+
+  await test("Aborting one caller leaves the shared load running", async () => {
+    const counter = { gets: 0 };
+    const db = client(counter, true);
+    const controller = new AbortController();
+    const first = db.countDocuments("posts", undefined, {
+      signal: controller.signal,
+    });
+    const second = db.countDocuments("posts");
+    controller.abort(new Error("stop"));
+
+    let message = "";
+    await first.catch((e) => (message = e.message));
+    assertEqual(message, "stop", "aborted caller");
+    assertEqual(await second, { count: 1 }, "other caller");
+    assertEqual(counter.gets, 1, "requests");
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runCacheTests();
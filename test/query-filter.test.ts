@@ -4,7 +4,12 @@
  * Run with: npm test or npx ts-node test/query-filter.test.ts
  */
 
-import { buildFilterQuery, parseFilterKey } from "../src/utils/utils";
+import {
+  buildFilterQuery,
+  parseFilterKey,
+  parseQuery,
+  parsedQueryToQuery,
+} from "../src/utils/utils";
 import type { Query } from "../src/types/types";
 
 // Test counter
@@ -426,6 +431,125 @@ testParseKey("Parse isnull operator", "deletedAt_isnull", {
   isOrFields: false,
 });
 
+console.log("\n=== Testing parseQuery ===\n");
+
+test(
+  "Parse AND, OR and named OR groups",
+  JSON.stringify(
+    parseQuery(
+      "status=active&age_gte=18&%5Bor%5Drole=admin&%5Bor%5Dverified=true&%5Bor%3Aage%5Dage_lt=18&sort=name&order=asc&limit=10&offset=20"
+    )
+  ),
+  JSON.stringify({
+    andConditions: [
+      { field: "status", operator: "eq", value: "active" },
+      { field: "age", operator: "gte", value: 18 },
+    ],
+    orConditions: [
+      { field: "role", operator: "eq", value: "admin" },
+      { field: "verified", operator: "eq", value: true },
+    ],
+    namedOrGroups: [
+      {
+        groupName: "age",
+        conditions: [{ field: "age", operator: "lt", value: 18 }],
+      },
+    ],
+    limit: 10,
+    offset: 20,
+    sort: "name",
+    order: "asc",
+  })
+);
+
+test(
+  "Parse full URL with multi-field OR and populate",
+  JSON.stringify(
+    parseQuery(
+      "https://app.test/posts?name__or__email_contains=john&populate=author&populate=category#top"
+    )
+  ),
+  JSON.stringify({
+    andConditions: [
+      {
+        field: "name",
+        operator: "contains",
+        value: "john",
+        fields: ["name", "email"],
+      },
+    ],
+    orConditions: [],
+    namedOrGroups: [],
+    populate: ["author", "category"],
+  })
+);
+
+test(
+  "Keep non round-tripping numbers and in lists as strings",
+  JSON.stringify(parseQuery("?zip=00123&id_in=1%2C2&price_gt=1.5").andConditions),
+  JSON.stringify([
+    { field: "zip", operator: "eq", value: "00123" },
+    { field: "id", operator: "in", value: "1,2" },
+    { field: "price", operator: "gt", value: 1.5 },
+  ])
+);
+
+const roundTripQuery: Query = {
+  filters: {
+    status: "published",
+    "author.role_in": "admin,editor",
+    title__or__content_contains: "js",
+    "[or]featured": true,
+    "[or]views_gte": 1000,
+    "[or:age]age_lt": 18,
+    "[or:age]age_gt": 65,
+  },
+  populate: ["author"],
+  select: ["title"],
+  sort: "created_at",
+  order: "asc",
+  limit: 20,
+  offset: 40,
+};
+
+test(
+  "Round-trip buildFilterQuery -> parseQuery -> buildFilterQuery",
+  buildFilterQuery(
+    parsedQueryToQuery(parseQuery(buildFilterQuery(roundTripQuery)))
+  ),
+  buildFilterQuery(roundTripQuery)
+);
+
+test(
+  "Parse Query object",
+  buildFilterQuery(parsedQueryToQuery(parseQuery(roundTripQuery))),
+  buildFilterQuery(roundTripQuery)
+);
+
+test(
+  "Invalid parameters are dropped",
+  JSON.stringify(parseQuery("limit=abc&offset=-1&order=up")),
+  JSON.stringify({ andConditions: [], orConditions: [], namedOrGroups: [] })
+);
+
+let strictError: any;
+try {
+  parseQuery("limit=abc&order=up", { strict: true });
+} catch (error) {
+  strictError = error;
+}
+test(
+  "Strict mode throws ValidationError listing problems",
+  JSON.stringify([strictError?.name, strictError?.detail]),
+  JSON.stringify([
+    "ValidationError",
+    [
+      'limit must be a non-negative integer, got "abc"',
+      'order must be "asc" or "desc", got "up"',
+    ],
+  ])
+);
+
 // Summary
 console.log("\n=== Test Summary ===\n");
 console.log(`Passed: ${passed}`);
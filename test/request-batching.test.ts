@@ -0,0 +1,217 @@
+/**
+ * Test Suite for request deduplication and getDocument batching
+ *
+ * Run with: npx tsx test/request-batching.test.ts
+ *
+ * Uses a fake fetch so no network requests are made.
+ */
+
+import { Cocobase, NotFoundError } from "../src/index";
+import type { CocobaseConfig } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+const EXISTING = ["a", "b", "c"];
+
+/**
+ * A fetch backed by documents "a", "b" and "c", answering single-document
+ * and `id_in` list requests.
+ */
+function documentsFetch(urls: string[]): typeof fetch {
+  return (async (url: any) => {
+    urls.push(String(url));
+    await new Promise((r) => setTimeout(r, 5));
+    const { pathname, searchParams } = new URL(String(url));
+    const single = pathname.match(/^\/collections\/[^/]+\/documents\/([^/]+)$/);
+    if (single) {
+      return EXISTING.includes(single[1])
+        ? new Response(JSON.stringify({ id: single[1], data: {} }))
+        : new Response(JSON.stringify({ detail: "Not found" }), { status: 404 });
+    }
+    const ids = (searchParams.get("id_in") ?? "").split(",");
+    const docs = ids
+      .filter((id) => EXISTING.includes(id))
+      .map((id) => ({ id, data: {} }));
+    return new Response(JSON.stringify(docs));
+  }) as typeof fetch;
+}
+
+function client(urls: string[], config: Partial<CocobaseConfig> = {}) {
+  return new Cocobase({
+    apiKey: "key",
+    baseURL: "https://example.test",
+    fetch: documentsFetch(urls),
+    dedupeRequests: true,
+    batchGetDocument: true,
+    ...config,
+  });
+}
+
+async function runBatchingTests() {
+  console.log("🧪 Testing request deduplication and batching...\n");
+
+  await test("Identical concurrent GETs share one request", async () => {
+    const urls: string[] = [];
+    const db = client(urls);
+    const results = await Promise.all([
+      db.listDocuments("posts", { filters: { status: "a" } }),
+      db.listDocuments("posts", { filters: { status: "a" } }),
+      db.countDocuments("posts"),
+    ]);
+    assertEqual(urls.length, 2, "requests");
+    assertEqual(results[0] === results[1], true, "same result");
+  });
+
+  await test("Sequential GETs are not shared", async () => {
+    const urls: string[] = [];
+    const db = client(urls);
+    await db.listDocuments("posts");
+    await db.listDocuments("posts");
+    assertEqual(urls.length, 2, "requests");
+  });
+
+  await test("GETs made with different tokens are not shared", async () => {
+    const urls: string[] = [];
+    const db = client(urls);
+    db.auth.setToken("alice");
+    const alice = db.listDocuments("posts");
+    db.auth.setToken("bob");
+    const bob = db.listDocuments("posts");
+    await Promise.all([alice, bob]);
+    assertEqual(urls.length, 2, "requests");
+  });
+
+  await test("Deduplication can be disabled", async () => {
+    const urls: string[] = [];
+    const db = client(urls, { dedupeRequests: false });
+    await Promise.all([db.listDocuments("posts"), db.listDocuments("posts")]);
+    assertEqual(urls.length, 2, "requests");
+  });
+
+  await test("GETs with a timeout or retry policy are not shared", async () => {
+    const urls: string[] = [];
+    const db = client(urls);
+    await Promise.all([
+      db.listDocuments("posts"),
+      db.listDocuments("posts", undefined, { timeoutMs: 1000 }),
+      db.listDocuments("posts", undefined, { retry: false }),
+    ]);
+    assertEqual(urls.length, 3, "requests");
+  });
+
+  await test("Deduplication and batching are off by default", async () => {
+    const urls: string[] = [];
+    const db = client(urls, {
+      dedupeRequests: undefined,
+      batchGetDocument: undefined,
+    });
+    await Promise.all([
+      db.listDocuments("posts"),
+      db.listDocuments("posts"),
+      db.getDocument("users", "a"),
+      db.getDocument("users", "b"),
+    ]);
+    assertEqual(urls.length, 4, "requests");
+    assertEqual(urls.some((u) => u.includes("id_in")), false, "no batch");
+  });
+
+  await test("getDocument calls in one tick become one id_in request", async () => {
+    const urls: string[] = [];
+    const db = client(urls);
+    const docs = await Promise.all([
+      db.getDocument("users", "a"),
+      db.getDocument("users", "b"),
+      db.getDocument("users", "a"),
+      db.getDocument("posts", "c"),
+    ]);
+    assertEqual(docs.map((d) => d.id), ["a", "b", "a", "c"], "ids");
+    assertEqual(urls.length, 2, "requests");
+    const batch = new URL(urls.find((u) => u.includes("/users/"))!);
+    assertEqual(batch.searchParams.get("id_in"), "a,b", "id_in");
+    assertEqual(batch.searchParams.get("limit"), "2", "limit");
+  });
+
+  await test("Missing ids reject with NotFoundError per caller", async () => {
+    const urls: string[] = [];
+    const db = client(urls);
+    const [found, missing] = await Promise.allSettled([
+      db.getDocument("users", "a"),
+      db.getDocument("users", "zzz"),
+    ]);
+    assertEqual(found.status, "fulfilled", "found");
+    if (missing.status !== "rejected" || !(missing.reason instanceof NotFoundError)) {
+      throw new Error("expected NotFoundError for missing id");
+    }
+    assertEqual(missing.reason.statusCode, 404, "status code");
+  });
+
+  await test("A single id uses the single-document endpoint", async () => {
+    const urls: string[] = [];
+    const db = client(urls);
+    await db.getDocument("users", "a");
+    assertEqual(urls, ["https://example.test/collections/users/documents/a"], "url");
+  });
+
+  await test("Batches are split by maxBatchSize", async () => {
+    const urls: string[] = [];
+    const db = client(urls, { batchGetDocument: { maxBatchSize: 2 } });
+    await Promise.all(EXISTING.map((id) => db.getDocument("users", id)));
+    assertEqual(urls.length, 2, "requests");
+  });
+
+  await test("Batching can be disabled", async () => {
+    const urls: string[] = [];
+    const db = client(urls, { batchGetDocument: false });
+    await Promise.all(EXISTING.map((id) => db.getDocument("users", id)));
+    assertEqual(urls.length, 3, "requests");
+  });
+
+  await test("Calls with options are sent on their own", async () => {
+    const urls: string[] = [];
+    const db = client(urls);
+    const controller = new AbortController();
+    await Promise.all([
+      db.getDocument("users", "a", { signal: controller.signal }),
+      db.getDocument("users", "b", { signal: controller.signal }),
+    ]);
+    assertEqual(urls.length, 2, "requests");
+    assertEqual(urls.some((u) => u.includes("id_in")), false, "no batch");
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runBatchingTests();
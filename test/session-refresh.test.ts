@@ -0,0 +1,290 @@
+/**
+ * Test Suite for token expiry handling and session refresh
+ *
+ * Run with: npx tsx test/session-refresh.test.ts
+ *
+ * Uses a fake fetch so no network requests are made.
+ */
+
+import { Cocobase, MemoryStorageAdapter, AuthError } from "../src/index";
+import type { SessionOptions } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+/**
+ * Builds an unsigned JWT that expires `expiresInMs` from now.
+ */
+function jwt(expiresInMs: number, sub = "u1"): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const exp = Math.floor((Date.now() + expiresInMs) / 1000);
+  return `${encode({ alg: "none" })}.${encode({ sub, exp })}.sig`;
+}
+
+interface Server {
+  requests: { method: string; url: string; token?: string }[];
+  /** Tokens the server accepts */
+  valid: Set<string>;
+  /** Token handed out by the refresh endpoint, or a status to fail with */
+  refresh: string | number;
+  /** Reject every request but refreshes, like a revoked API key */
+  rejectAll?: boolean;
+}
+
+function serverFetch(server: Server): typeof fetch {
+  return (async (url: any, init: any) => {
+    const path = String(url).replace("https://example.test", "");
+    const token = init.headers?.Authorization?.replace("Bearer ", "");
+    server.requests.push({ method: init.method, url: path, token });
+
+    if (path === "/auth-collections/refresh-token") {
+      if (typeof server.refresh === "number") {
+        return new Response("{}", { status: server.refresh });
+      }
+      server.valid.add(server.refresh);
+      return new Response(JSON.stringify({ access_token: server.refresh }));
+    }
+    if (path === "/auth-collections/login") {
+      return new Response(JSON.stringify({ detail: "Invalid credentials" }), {
+        status: 401,
+      });
+    }
+    if (server.rejectAll || !token || !server.valid.has(token)) {
+      return new Response(JSON.stringify({ detail: "Token expired" }), {
+        status: 401,
+      });
+    }
+    return new Response(JSON.stringify({ id: "doc1", data: {} }));
+  }) as typeof fetch;
+}
+
+function setup(session?: SessionOptions) {
+  const server: Server = {
+    requests: [],
+    valid: new Set(),
+    refresh: jwt(3600_000, "fresh"),
+  };
+  const db = new Cocobase({
+    apiKey: "key",
+    baseURL: "https://example.test",
+    fetch: serverFetch(server),
+    retry: false,
+    storage: new MemoryStorageAdapter(),
+    session,
+  });
+  const events: string[] = [];
+  db.auth.onAuthEvent({
+    onSessionExpiring: () => events.push("expiring"),
+    onSessionExpired: () => events.push("expired"),
+  });
+  return { db, server, events };
+}
+
+const tick = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function runSessionTests() {
+  console.log("🧪 Testing session expiry and refresh...\n");
+
+  await test("Reads the expiry from the token", () => {
+    const { db } = setup();
+    assertEqual(db.auth.getTokenExpiry(), undefined, "no token");
+    assertEqual(db.auth.isTokenExpired(), false, "no token is not expired");
+
+    const token = jwt(120_000);
+    db.auth.setToken(token);
+    const exp = JSON.parse(
+      Buffer.from(token.split(".")[1], "base64url").toString()
+    ).exp;
+    assertEqual(db.auth.getTokenExpiry()?.getTime(), exp * 1000, "expiry");
+    assertEqual(db.auth.isTokenExpired(), false, "valid");
+    assertEqual(db.auth.isTokenExpired(300_000), true, "within leeway");
+    db.auth.logout();
+  });
+
+  await test("Tokens without exp never expire", () => {
+    const { db } = setup();
+    db.auth.setToken("opaque-token");
+    assertEqual(db.auth.getTokenExpiry(), undefined, "expiry");
+    assertEqual(db.auth.isTokenExpired(), false, "expired");
+  });
+
+  await test("Refreshes and retries once on 401", async () => {
+    const { db, server, events } = setup();
+    db.auth.setToken(jwt(3600_000, "stale"));
+
+    const doc = await db.getDocument("posts", "doc1");
+    assertEqual(doc.id, "doc1", "document");
+    assertEqual(
+      server.requests.map((r) => r.url),
+      [
+        "/collections/posts/documents/doc1",
+        "/auth-collections/refresh-token",
+        "/collections/posts/documents/doc1",
+      ],
+      "requests"
+    );
+    assertEqual(server.requests[2].token, server.refresh, "retried with");
+    assertEqual(db.auth.getToken(), server.refresh, "new token");
+    assertEqual(events, [], "events");
+    db.auth.logout();
+  });
+
+  await test("Concurrent 401s share one refresh", async () => {
+    const { db, server } = setup();
+    db.auth.setToken(jwt(3600_000, "stale"));
+
+    await Promise.all([
+      db.listDocuments("posts"),
+      db.countDocuments("posts"),
+    ]);
+    const refreshes = server.requests.filter(
+      (r) => r.url === "/auth-collections/refresh-token"
+    );
+    assertEqual(refreshes.length, 1, "refreshes");
+    db.auth.logout();
+  });
+
+  await test("Clears the session when the refresh is rejected", async () => {
+    const { db, server, events } = setup();
+    server.refresh = 401;
+    db.auth.setToken(jwt(3600_000, "stale"));
+
+    let thrown: unknown;
+    try {
+      await db.getDocument("posts", "doc1");
+    } catch (error) {
+      thrown = error;
+    }
+    if (!(thrown instanceof AuthError)) {
+      throw new Error(`expected an AuthError, got ${thrown}`);
+    }
+    assertEqual(db.auth.isAuthenticated(), false, "authenticated");
+    assertEqual(events, ["expired"], "events");
+  });
+
+  await test("Stops calling a missing refresh endpoint", async () => {
+    const { db, server } = setup();
+    server.refresh = 404;
+    db.auth.setToken(jwt(3600_000, "stale"));
+    await db.getDocument("posts", "doc1").catch(() => {});
+
+    db.auth.setToken(jwt(3600_000, "stale-again"));
+    await db.getDocument("posts", "doc1").catch(() => {});
+    const refreshes = server.requests.filter(
+      (r) => r.url === "/auth-collections/refresh-token"
+    );
+    assertEqual(refreshes.length, 1, "refreshes");
+    assertEqual(db.auth.isAuthenticated(), true, "authenticated");
+    db.auth.logout();
+  });
+
+  await test("Keeps the session when the retry is rejected", async () => {
+    const { db, server, events } = setup();
+    server.rejectAll = true;
+    db.auth.setToken(jwt(3600_000, "stale"));
+
+    let thrown: unknown;
+    try {
+      await db.getDocument("posts", "doc1");
+    } catch (error) {
+      thrown = error;
+    }
+    if (!(thrown instanceof AuthError)) {
+      throw new Error(`expected an AuthError, got ${thrown}`);
+    }
+    assertEqual(db.auth.getToken(), server.refresh, "refreshed token kept");
+    assertEqual(events, [], "events");
+    db.auth.logout();
+  });
+
+  await test("Does not refresh when credentials are rejected", async () => {
+    const { db, server } = setup();
+    const token = jwt(3600_000);
+    server.valid.add(token);
+    db.auth.setToken(token);
+
+    await db.auth
+      .login({ email: "a@b.c", password: "wrong" })
+      .catch(() => {});
+    assertEqual(server.requests.length, 1, "requests");
+    assertEqual(db.auth.getToken(), token, "session kept");
+    db.auth.logout();
+  });
+
+  await test("Refreshes ahead of expiry", async () => {
+    const { db, server, events } = setup({ refreshBeforeMs: 60_000 });
+    db.auth.setToken(jwt(30_000, "expiring"));
+    await tick(10);
+
+    assertEqual(events, ["expiring"], "events");
+    assertEqual(db.auth.getToken(), server.refresh, "refreshed token");
+    db.auth.logout();
+  });
+
+  await test("Expires the session when auto refresh is off", async () => {
+    const { db, server, events } = setup({
+      autoRefresh: false,
+      refreshBeforeMs: 1_500,
+    });
+    db.auth.setToken(jwt(1_000));
+    await tick(1_100);
+
+    assertEqual(events, ["expiring", "expired"], "events");
+    assertEqual(db.auth.isAuthenticated(), false, "authenticated");
+    assertEqual(server.requests.length, 0, "requests");
+  });
+
+  await test("initAuth drops an expired stored session", async () => {
+    const storage = new MemoryStorageAdapter();
+    storage.set("cocobase-token", jwt(-60_000));
+    storage.set("cocobase-user", JSON.stringify({ id: "u1" }));
+    const db = new Cocobase({ apiKey: "key", storage });
+    const events: string[] = [];
+    db.auth.onAuthEvent({
+      onSessionExpired: () => events.push("expired"),
+      onAuthStateChange: (user) => events.push(`state:${user?.id}`),
+    });
+
+    await db.auth.initAuth();
+    assertEqual(db.auth.isAuthenticated(), false, "authenticated");
+    assertEqual(storage.get("cocobase-token"), null, "stored token");
+    assertEqual(events, ["expired", "state:undefined"], "events");
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runSessionTests();
@@ -0,0 +1,180 @@
+/**
+ * Test Suite for pluggable session storage
+ *
+ * Run with: npx tsx test/storage.test.ts
+ */
+
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  Cocobase,
+  MemoryStorageAdapter,
+  CookieStorageAdapter,
+} from "../src/index";
+import { FileStorageAdapter } from "../src/node";
+import type { AppUser, StorageAdapter } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+const user = { id: "u1", email: "a@b.c", roles: [] } as unknown as AppUser;
+
+function client(storage: StorageAdapter, storageKeyPrefix?: string) {
+  return new Cocobase({ apiKey: "key", storage, storageKeyPrefix });
+}
+
+async function runStorageTests() {
+  console.log("🧪 Testing session storage...\n");
+
+  await test("Persists and restores the session", async () => {
+    const storage = new MemoryStorageAdapter();
+    const db = client(storage);
+    db.auth.setToken("tok");
+    db.auth.setUser(user);
+    assertEqual(storage.get("cocobase-token"), "tok", "token key");
+
+    const restored = client(storage);
+    await restored.auth.initAuth();
+    assertEqual(restored.auth.getToken(), "tok", "restored token");
+    assertEqual(restored.auth.getUser()?.id, "u1", "restored user");
+  });
+
+  await test("Logout clears the configured storage", async () => {
+    const storage = new MemoryStorageAdapter();
+    const db = client(storage);
+    db.auth.setToken("tok");
+    db.auth.setUser(user);
+    db.auth.logout();
+    assertEqual(storage.get("cocobase-token"), null, "token");
+    assertEqual(storage.get("cocobase-user"), null, "user");
+  });
+
+  await test("Key prefix keeps projects apart", async () => {
+    const storage = new MemoryStorageAdapter();
+    const a = client(storage, "app-a-");
+    const b = client(storage, "app-b-");
+    a.auth.setToken("token-a");
+    b.auth.setToken("token-b");
+    b.auth.logout();
+    assertEqual(storage.get("app-a-token"), "token-a", "project a");
+    assertEqual(storage.get("app-b-token"), null, "project b");
+  });
+
+  await test("Async adapters are awaited on init", async () => {
+    const values = new Map<string, string>([["cocobase-token", "async-tok"]]);
+    const storage: StorageAdapter = {
+      get: async (key) => values.get(key) ?? null,
+      set: async (key, value) => void values.set(key, value),
+      remove: async (key) => void values.delete(key),
+    };
+    values.set("cocobase-user", JSON.stringify(user));
+    const db = client(storage);
+    await db.auth.initAuth();
+    assertEqual(db.auth.getToken(), "async-tok", "token");
+  });
+
+  await test("Storage errors are logged, not thrown", async () => {
+    const storage: StorageAdapter = {
+      get: () => null,
+      set: () => {
+        throw new Error("quota exceeded");
+      },
+      remove: async () => {
+        throw new Error("boom");
+      },
+    };
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      const db = client(storage);
+      db.auth.setToken("tok");
+      db.auth.logout();
+      await new Promise((r) => setTimeout(r, 0));
+    } finally {
+      console.warn = warn;
+    }
+  });
+
+  await test("FileStorageAdapter writes JSON to disk", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cocobase-"));
+    try {
+      const path = join(dir, "session.json");
+      const storage = new FileStorageAdapter(path);
+      await storage.set("a", "1");
+      await storage.set("b", "2");
+      await storage.remove("a");
+      assertEqual(JSON.parse(await readFile(path, "utf8")), { b: "2" }, "file");
+      assertEqual(await new FileStorageAdapter(path).get("b"), "2", "reload");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  await test("CookieStorageAdapter reads and writes document.cookie", async () => {
+    const jar = new Map<string, string>();
+    const written: string[] = [];
+    (globalThis as any).document = {
+      get cookie() {
+        return [...jar].map(([k, v]) => `${k}=${v}`).join("; ");
+      },
+      set cookie(value: string) {
+        written.push(value);
+        const [pair] = value.split("; ");
+        const [k, v] = pair.split("=");
+        if (value.includes("max-age=0")) jar.delete(k);
+        else jar.set(k, v);
+      },
+    };
+    try {
+      const storage = new CookieStorageAdapter({ maxAge: 60, secure: true });
+      storage.set("cocobase-token", "a b");
+      assertEqual(storage.get("cocobase-token"), "a b", "value");
+      assertEqual(
+        written[0],
+        "cocobase-token=a%20b; path=/; SameSite=Lax; max-age=60; secure",
+        "attributes"
+      );
+      storage.remove("cocobase-token");
+      assertEqual(storage.get("cocobase-token"), null, "removed");
+    } finally {
+      delete (globalThis as any).document;
+    }
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runStorageTests();
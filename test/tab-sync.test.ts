@@ -0,0 +1,180 @@
+/**
+ * Test Suite for cross-tab session synchronisation
+ *
+ * Run with: npx tsx test/tab-sync.test.ts
+ *
+ * Each "tab" is a separate client in this process; they talk through Node's
+ * BroadcastChannel, or through a fake window for the storage-event fallback.
+ */
+
+import { Cocobase, MemoryStorageAdapter } from "../src/index";
+import type { AppUser, CocobaseConfig } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+const user = { id: "u1", email: "a@b.c", roles: [] } as unknown as AppUser;
+
+let prefixes = 0;
+
+/**
+ * Two clients sharing storage, like two tabs of the same app.
+ */
+function tabs(config: Partial<CocobaseConfig> = {}) {
+  const storage = new MemoryStorageAdapter();
+  const storageKeyPrefix = `tabs${prefixes++}-`;
+  const open = () =>
+    new Cocobase({
+      apiKey: "key",
+      storage,
+      storageKeyPrefix,
+      syncTabs: true,
+      ...config,
+    });
+  const a = open();
+  const b = open();
+  const events: string[] = [];
+  b.auth.onAuthEvent({
+    onLogin: (u) => events.push(`login:${u.id}`),
+    onLogout: () => events.push("logout"),
+    onTokenChange: (token) => events.push(`token:${token}`),
+    onUserUpdate: (u) => events.push(`user:${u.id}`),
+  });
+  return { a, b, storage, storageKeyPrefix, events };
+}
+
+const tick = (ms = 20) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function runTabSyncTests() {
+  console.log("🧪 Testing cross-tab session sync...\n");
+
+  await test("Token and user changes reach other tabs", async () => {
+    const { a, b, events } = tabs();
+    a.auth.setToken("tok");
+    a.auth.setUser(user);
+    await tick();
+
+    assertEqual(b.auth.getToken(), "tok", "token");
+    assertEqual(b.auth.getUser()?.id, "u1", "user");
+    assertEqual(events, ["token:tok", "user:u1"], "events");
+  });
+
+  await test("Logout in one tab logs out the others", async () => {
+    const { a, b, storage, storageKeyPrefix, events } = tabs();
+    a.auth.setToken("tok");
+    a.auth.setUser(user);
+    await tick();
+    events.length = 0;
+
+    a.auth.logout();
+    await tick();
+    assertEqual(b.auth.isAuthenticated(), false, "authenticated");
+    assertEqual(b.auth.getUser(), undefined, "user");
+    assertEqual(events, ["logout", "token:undefined"], "events");
+    assertEqual(storage.get(`${storageKeyPrefix}token`), null, "storage");
+  });
+
+  await test("Login is announced once with the user", async () => {
+    const fetchLogin = (async () =>
+      new Response(
+        JSON.stringify({ access_token: "tok", user })
+      )) as unknown as typeof fetch;
+    const { a, b, events } = tabs({ fetch: fetchLogin, retry: false });
+
+    await a.auth.login({ email: "a@b.c", password: "secret" });
+    await tick();
+    assertEqual(b.auth.getToken(), "tok", "token");
+    assertEqual(events, ["login:u1", "token:tok"], "events");
+  });
+
+  await test("Receiving tabs don't echo changes back", async () => {
+    const { a, b } = tabs();
+    const seen: string[] = [];
+    a.auth.onAuthEvent({
+      onTokenChange: (token) => seen.push(`token:${token}`),
+    });
+    b.auth.setToken("from-b");
+    await tick();
+    assertEqual(a.auth.getToken(), "from-b", "token");
+    assertEqual(seen, ["token:from-b"], "events in a");
+  });
+
+  await test("syncTabs: false keeps tabs independent", async () => {
+    const { a, b, events } = tabs({ syncTabs: false });
+    a.auth.setToken("tok");
+    await tick();
+    assertEqual(b.auth.getToken(), undefined, "token");
+    assertEqual(events, [], "events");
+  });
+
+  await test("Falls back to storage events", async () => {
+    const channel = (globalThis as any).BroadcastChannel;
+    const listeners: ((event: any) => void)[] = [];
+    const values = new Map<string, string>();
+    (globalThis as any).BroadcastChannel = undefined;
+    (globalThis as any).window = {
+      addEventListener: (type: string, fn: any) => {
+        if (type === "storage") listeners.push(fn);
+      },
+      removeEventListener: () => {},
+      localStorage: {
+        getItem: (key: string) => values.get(key) ?? null,
+        setItem: (key: string, newValue: string) => {
+          values.set(key, newValue);
+          listeners.forEach((fn) => fn({ key, newValue }));
+        },
+        removeItem: (key: string) => {
+          values.delete(key);
+          listeners.forEach((fn) => fn({ key, newValue: null }));
+        },
+      },
+    };
+    try {
+      const { a, b, storageKeyPrefix, events } = tabs();
+      a.auth.setToken("tok");
+      await tick();
+      assertEqual(b.auth.getToken(), "tok", "token");
+      assertEqual(events, ["token:tok"], "events");
+      assertEqual(values.has(`${storageKeyPrefix}session`), false, "cleaned");
+    } finally {
+      (globalThis as any).BroadcastChannel = channel;
+      delete (globalThis as any).window;
+    }
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runTabSyncTests();
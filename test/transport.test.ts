@@ -0,0 +1,479 @@
+/**
+ * Test Suite for the shared HTTP transport and interceptors
+ *
+ * Run with: npx tsx test/transport.test.ts
+ *
+ * Uses a fake fetch so no network requests are made.
+ */
+
+import {
+  Cocobase,
+  HttpTransport,
+  CocobaseError,
+  NotFoundError,
+  AuthError,
+  RateLimitError,
+  ValidationError,
+  NetworkError,
+  TimeoutError,
+} from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+interface Call {
+  url: string;
+  init: RequestInit;
+}
+
+function fakeFetch(
+  calls: Call[],
+  respond: (url: string) => Response = () =>
+    new Response(JSON.stringify({ ok: true }), { status: 200 })
+): typeof fetch {
+  return (async (url: any, init: any) => {
+    calls.push({ url: String(url), init });
+    return respond(String(url));
+  }) as typeof fetch;
+}
+
+/**
+ * A fetch that never responds until its signal is aborted.
+ */
+function hangingFetch(): typeof fetch {
+  return ((_url: any, init: any) =>
+    new Promise((_resolve, reject) => {
+      init.signal?.addEventListener("abort", () =>
+        reject(init.signal.reason ?? new Error("aborted"))
+      );
+    })) as typeof fetch;
+}
+
+async function runTransportTests() {
+  console.log("🧪 Testing HTTP transport...\n");
+
+  await test("Adds API key and JSON body to CRUD requests", async () => {
+    const calls: Call[] = [];
+    const db = new Cocobase({
+      apiKey: "key",
+      baseURL: "https://example.test",
+      fetch: fakeFetch(calls),
+    });
+
+    await db.createDocument("posts", { title: "Hello" });
+
+    assertEqual(calls.length, 1, "call count");
+    assertEqual(
+      calls[0].url,
+      "https://example.test/collections/documents?collection=posts",
+      "url"
+    );
+    const headers = calls[0].init.headers as Record<string, string>;
+    assertEqual(headers["x-api-key"], "key", "api key header");
+    assertEqual(headers["Content-Type"], "application/json", "content type");
+    assertEqual(calls[0].init.body, '{"data":{"title":"Hello"}}', "body");
+  });
+
+  await test("Request interceptors can add headers and rewrite URLs", async () => {
+    const calls: Call[] = [];
+    const db = new Cocobase({
+      apiKey: "key",
+      baseURL: "https://example.test",
+      fetch: fakeFetch(calls),
+    });
+
+    db.transport.interceptors.request.use((req) => ({
+      ...req,
+      url: req.url.replace("example.test", "proxy.test"),
+      headers: { ...req.headers, "x-trace-id": "trace-1" },
+    }));
+
+    await db.getDocument("posts", "1");
+
+    assertEqual(
+      calls[0].url,
+      "https://proxy.test/collections/posts/documents/1",
+      "url"
+    );
+    const headers = calls[0].init.headers as Record<string, string>;
+    assertEqual(headers["x-trace-id"], "trace-1", "trace header");
+  });
+
+  await test("Interceptors from config apply to file uploads", async () => {
+    const calls: Call[] = [];
+    const db = new Cocobase({
+      apiKey: "key",
+      baseURL: "https://example.test",
+      fetch: fakeFetch(calls),
+      interceptors: {
+        request: [
+          (req) => ({ ...req, headers: { ...req.headers, "x-trace-id": "t" } }),
+        ],
+      },
+    });
+
+    await db.createDocumentWithFiles(
+      "posts",
+      { title: "Hello" },
+      { image: new File(["abc"], "a.txt") }
+    );
+
+    const headers = calls[0].init.headers as Record<string, string>;
+    assertEqual(headers["x-trace-id"], "t", "trace header");
+    assertEqual(headers["Content-Type"], undefined, "no JSON content type");
+    if (!(calls[0].init.body instanceof FormData)) {
+      throw new Error("body should be FormData");
+    }
+  });
+
+  await test("Eject function removes an interceptor", async () => {
+    const calls: Call[] = [];
+    const transport = new HttpTransport({
+      baseURL: "https://example.test",
+      fetch: fakeFetch(calls),
+    });
+    const eject = transport.interceptors.request.use((req) => ({
+      ...req,
+      headers: { ...req.headers, "x-once": "1" },
+    }));
+    eject();
+
+    await transport.request({ method: "GET", url: "/ping", headers: {} });
+
+    const headers = calls[0].init.headers as Record<string, string>;
+    assertEqual(headers["x-once"], undefined, "ejected header");
+  });
+
+  await test("Response interceptors can transform bodies", async () => {
+    const transport = new HttpTransport({
+      baseURL: "https://example.test",
+      fetch: fakeFetch([]),
+    });
+    transport.interceptors.response.use(async (res) => {
+      const body = await res.json();
+      return new Response(JSON.stringify({ ...body, intercepted: true }));
+    });
+
+    const result = await transport.request({
+      method: "GET",
+      url: "/ping",
+      headers: {},
+    });
+
+    assertEqual(result, { ok: true, intercepted: true }, "body");
+  });
+
+  await test("Error interceptors can recover from HTTP errors", async () => {
+    const transport = new HttpTransport({
+      baseURL: "https://example.test",
+      fetch: fakeFetch([], () => new Response("nope", { status: 500 })),
+    });
+    const seen: unknown[] = [];
+    transport.interceptors.error.use((error) => {
+      seen.push(error);
+      return new Response(JSON.stringify({ fallback: true }));
+    });
+
+    const result = await transport.request({
+      method: "GET",
+      url: "/ping",
+      headers: {},
+    });
+
+    assertEqual(result, { fallback: true }, "body");
+    assertEqual(seen.length, 1, "error interceptor calls");
+  });
+
+  await test("Unrecovered errors propagate", async () => {
+    const transport = new HttpTransport({
+      baseURL: "https://example.test",
+      fetch: fakeFetch([], () => new Response("nope", { status: 404 })),
+    });
+
+    let thrown: unknown;
+    try {
+      await transport.request({ method: "GET", url: "/ping", headers: {} });
+    } catch (error) {
+      thrown = error;
+    }
+    if (!(thrown instanceof NotFoundError)) {
+      throw new Error(`expected a NotFoundError, got ${thrown}`);
+    }
+    assertEqual(thrown.statusCode, 404, "status code");
+    assertEqual(thrown.url, "https://example.test/ping", "url");
+    assertEqual(thrown.method, "GET", "method");
+  });
+
+  await test("HTTP errors map to typed error classes", async () => {
+    const cases: [number, Function][] = [
+      [400, ValidationError],
+      [401, AuthError],
+      [403, AuthError],
+      [422, ValidationError],
+      [429, RateLimitError],
+      [500, CocobaseError],
+    ];
+    for (const [status, expected] of cases) {
+      const transport = new HttpTransport({
+        baseURL: "https://example.test",
+        retry: false,
+        fetch: fakeFetch(
+          [],
+          () =>
+            new Response(JSON.stringify({ detail: "Bad things" }), { status })
+        ),
+      });
+      try {
+        await transport.request({ method: "GET", url: "/ping", headers: {} });
+        throw new Error(`status ${status} should throw`);
+      } catch (error) {
+        if (!(error instanceof expected)) {
+          throw new Error(`status ${status} threw ${error}`);
+        }
+        const err = error as CocobaseError;
+        assertEqual(err.detail, "Bad things", "detail");
+        if (!err.suggestion) {
+          throw new Error("suggestion should be set");
+        }
+      }
+    }
+  });
+
+  await test("Network failures throw NetworkError", async () => {
+    const transport = new HttpTransport({
+      baseURL: "https://example.test",
+      retry: false,
+      fetch: (async () => {
+        throw new TypeError("fetch failed");
+      }) as typeof fetch,
+    });
+    try {
+      await transport.request({ method: "GET", url: "/ping", headers: {} });
+      throw new Error("should throw");
+    } catch (error) {
+      if (!(error instanceof NetworkError)) {
+        throw new Error(`expected NetworkError, got ${error}`);
+      }
+      assertEqual(error.method, "GET", "method");
+    }
+  });
+
+  await test("Cloud functions go through the shared transport", async () => {
+    const calls: Call[] = [];
+    const db = new Cocobase({
+      apiKey: "key",
+      projectId: "project",
+      fetch: fakeFetch(calls, () =>
+        new Response(JSON.stringify({ result: 1, success: true }))
+      ),
+    });
+    db.transport.interceptors.request.use((req) => ({
+      ...req,
+      headers: { ...req.headers, "x-trace-id": "fn" },
+    }));
+
+    const res = await db.functions.execute<number>("stats");
+
+    assertEqual(res.result, 1, "result");
+    assertEqual(
+      calls[0].url,
+      "https://cloud.cocobase.buzz/functions/project/func/stats",
+      "url"
+    );
+    const headers = calls[0].init.headers as Record<string, string>;
+    assertEqual(headers["x-trace-id"], "fn", "trace header");
+  });
+
+  await test("Retries 503 responses with backoff", async () => {
+    const calls: Call[] = [];
+    let attempt = 0;
+    const transport = new HttpTransport({
+      baseURL: "https://example.test",
+      retry: { baseDelayMs: 1, jitter: false },
+      fetch: fakeFetch(calls, () =>
+        ++attempt < 3
+          ? new Response("busy", { status: 503 })
+          : new Response(JSON.stringify({ ok: true }))
+      ),
+    });
+
+    const result = await transport.request({
+      method: "GET",
+      url: "/ping",
+      headers: {},
+    });
+
+    assertEqual(result, { ok: true }, "body");
+    assertEqual(calls.length, 3, "attempts");
+  });
+
+  await test("Honours Retry-After on 429 for POST requests", async () => {
+    const calls: Call[] = [];
+    const transport = new HttpTransport({
+      baseURL: "https://example.test",
+      retry: { baseDelayMs: 5000, maxDelayMs: 5000, jitter: false },
+      fetch: fakeFetch(calls, () =>
+        calls.length === 1
+          ? new Response("slow down", {
+              status: 429,
+              headers: { "Retry-After": "0" },
+            })
+          : new Response(JSON.stringify({ ok: true }))
+      ),
+    });
+
+    const started = Date.now();
+    await transport.request({
+      method: "POST",
+      url: "/ping",
+      headers: {},
+      body: {},
+    });
+
+    assertEqual(calls.length, 2, "attempts");
+    if (Date.now() - started > 1000) {
+      throw new Error("Retry-After should override the backoff delay");
+    }
+  });
+
+  await test("Does not retry non-idempotent methods on 503", async () => {
+    const calls: Call[] = [];
+    const transport = new HttpTransport({
+      baseURL: "https://example.test",
+      retry: { baseDelayMs: 1 },
+      fetch: fakeFetch(calls, () => new Response("busy", { status: 503 })),
+    });
+
+    try {
+      await transport.request({
+        method: "POST",
+        url: "/ping",
+        headers: {},
+        body: {},
+      });
+    } catch {
+      // expected
+    }
+
+    assertEqual(calls.length, 1, "attempts");
+  });
+
+  await test("Retries network errors and honours per-call overrides", async () => {
+    const calls: Call[] = [];
+    const db = new Cocobase({
+      apiKey: "key",
+      baseURL: "https://example.test",
+      retry: false,
+      fetch: (async (url: any, init: any) => {
+        calls.push({ url: String(url), init });
+        if (calls.length < 2) {
+          throw new TypeError("fetch failed");
+        }
+        return new Response(JSON.stringify([]));
+      }) as typeof fetch,
+    });
+
+    await db.listDocuments("posts", undefined, {
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+    });
+
+    assertEqual(calls.length, 2, "attempts");
+  });
+
+  await test("Times out slow requests with TimeoutError", async () => {
+    const db = new Cocobase({
+      apiKey: "key",
+      baseURL: "https://example.test",
+      timeoutMs: 20,
+      fetch: hangingFetch(),
+    });
+
+    try {
+      await db.listDocuments("posts");
+      throw new Error("should time out");
+    } catch (error) {
+      if (!(error instanceof TimeoutError)) {
+        throw new Error(`expected TimeoutError, got ${error}`);
+      }
+      assertEqual(error.timeoutMs, 20, "timeoutMs");
+    }
+  });
+
+  await test("Per-call timeoutMs overrides the client default", async () => {
+    const db = new Cocobase({
+      apiKey: "key",
+      baseURL: "https://example.test",
+      fetch: hangingFetch(),
+    });
+
+    try {
+      await db.getDocument("posts", "1", { timeoutMs: 10 });
+      throw new Error("should time out");
+    } catch (error) {
+      if (!(error instanceof TimeoutError)) {
+        throw new Error(`expected TimeoutError, got ${error}`);
+      }
+    }
+  });
+
+  await test("Aborting the signal cancels the request", async () => {
+    const db = new Cocobase({
+      apiKey: "key",
+      baseURL: "https://example.test",
+      fetch: hangingFetch(),
+    });
+    const controller = new AbortController();
+    const pending = db.listDocuments("posts", { filters: { q: "a" } }, {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    try {
+      await pending;
+      throw new Error("should be aborted");
+    } catch (error) {
+      if (!(error instanceof Error) || error.name !== "AbortError") {
+        throw new Error(`expected AbortError, got ${error}`);
+      }
+      if (error instanceof CocobaseError) {
+        throw new Error("aborts should not be wrapped");
+      }
+    }
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runTransportTests();
@@ -0,0 +1,286 @@
+/**
+ * Test Suite for 2FA challenges and TOTP enrollment
+ *
+ * Run with: npx tsx test/two-factor.test.ts
+ *
+ * Uses a fake fetch so no network requests are made.
+ */
+
+import {
+  Cocobase,
+  MemoryStorageAdapter,
+  AuthError,
+  TwoFactorError,
+} from "../src/index";
+import type { AppUser, TwoFactorChallenge } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+async function expectError<E>(
+  promise: Promise<unknown>,
+  type: new (...args: any[]) => E
+): Promise<E> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof type) return error;
+    throw new Error(`expected ${type.name}, got ${error}`);
+  }
+  throw new Error(`expected ${type.name}, but nothing was thrown`);
+}
+
+const user = { id: "u1", email: "a@b.c", roles: [] } as unknown as AppUser;
+
+interface Server {
+  requests: { url: string; body: any }[];
+  /** The code the server accepts */
+  code: string;
+  /** Fail with a network error */
+  offline?: boolean;
+  login: Record<string, unknown>;
+}
+
+function setup() {
+  const server: Server = {
+    requests: [],
+    code: "123456",
+    login: { requires_2fa: true, message: "2FA code sent to your email" },
+  };
+  const fakeFetch = (async (url: any, init: any) => {
+    if (server.offline) throw new TypeError("fetch failed");
+    const path = String(url).replace("https://example.test", "");
+    const body = init.body ? JSON.parse(init.body) : undefined;
+    server.requests.push({ url: path, body });
+    const json = (value: unknown, status = 200) =>
+      new Response(JSON.stringify(value), { status });
+
+    switch (path) {
+      case "/auth-collections/login":
+        return json(server.login);
+      case "/auth-collections/2fa/verify":
+        return body.code === server.code
+          ? json({ access_token: "tok", user, message: "ok" })
+          : json({ detail: "Invalid code" }, 401);
+      case "/auth-collections/2fa/send-code":
+        return json({ message: "sent" });
+      case "/auth-collections/2fa/totp/enroll":
+        return json({
+          secret: "JBSWY3DPEHPK3PXP",
+          otpauth_uri: "otpauth://totp/App:a@b.c?secret=JBSWY3DPEHPK3PXP",
+        });
+      case "/auth-collections/2fa/totp/confirm":
+        return json({ recovery_codes: ["aaaa-bbbb", "cccc-dddd"] });
+      default:
+        return json({ detail: "Not found" }, 404);
+    }
+  }) as typeof fetch;
+  const db = new Cocobase({
+    apiKey: "key",
+    baseURL: "https://example.test",
+    fetch: fakeFetch,
+    retry: false,
+    storage: new MemoryStorageAdapter(),
+  });
+  return { db, server };
+}
+
+async function startLogin(db: Cocobase): Promise<TwoFactorChallenge> {
+  const result = await db.auth.login({ email: "a@b.c", password: "secret" });
+  if (!result.requires_2fa) {
+    throw new Error("expected a 2FA challenge");
+  }
+  return result.challenge;
+}
+
+const tick = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function runTwoFactorTests() {
+  console.log("🧪 Testing 2FA challenges...\n");
+
+  await test("Login returns a challenge describing the 2FA step", async () => {
+    const { db, server } = setup();
+    server.login = { ...server.login, expires_in: 300, max_attempts: 3 };
+    const before = Date.now();
+    const challenge = await startLogin(db);
+
+    assertEqual(challenge.email, "a@b.c", "email");
+    assertEqual(challenge.message, "2FA code sent to your email", "message");
+    assertEqual(challenge.maxAttempts, 3, "max attempts");
+    assertEqual(challenge.remainingAttempts, 3, "remaining");
+    const expiresIn = challenge.expiresAt.getTime() - before;
+    assertEqual(expiresIn >= 300_000 && expiresIn < 301_000, true, "expiry");
+    assertEqual(db.auth.status, "awaiting_2fa", "status");
+  });
+
+  await test("verify() completes the login", async () => {
+    const { db, server } = setup();
+    const challenge = await startLogin(db);
+
+    const signedIn = await challenge.verify("123456");
+    assertEqual(signedIn.id, "u1", "user");
+    assertEqual(db.auth.getToken(), "tok", "token");
+    assertEqual(db.auth.status, "authenticated", "status");
+    assertEqual(
+      server.requests[1],
+      {
+        url: "/auth-collections/2fa/verify",
+        body: { email: "a@b.c", code: "123456" },
+      },
+      "verify request"
+    );
+    await expectError(challenge.verify("123456"), AuthError);
+  });
+
+  await test("Counts wrong codes and stops at the limit", async () => {
+    const { db, server } = setup();
+    server.login = { ...server.login, max_attempts: 2 };
+    const challenge = await startLogin(db);
+
+    const first = await expectError(challenge.verify("000000"), TwoFactorError);
+    assertEqual(first.reason, "invalid_code", "first reason");
+    assertEqual(first.statusCode, 401, "status code");
+    assertEqual(challenge.attempts, 1, "attempts");
+    assertEqual(challenge.remainingAttempts, 1, "remaining");
+
+    const second = await expectError(
+      challenge.verify("111111"),
+      TwoFactorError
+    );
+    assertEqual(second.reason, "too_many_attempts", "second reason");
+
+    const requests = server.requests.length;
+    const third = await expectError(challenge.verify("123456"), TwoFactorError);
+    assertEqual(third.reason, "too_many_attempts", "third reason");
+    assertEqual(server.requests.length, requests, "no request sent");
+  });
+
+  await test("Network failures don't use up attempts", async () => {
+    const { db, server } = setup();
+    const challenge = await startLogin(db);
+    server.offline = true;
+    await challenge.verify("000000").catch(() => {});
+    assertEqual(challenge.attempts, 0, "attempts");
+  });
+
+  await test("Expired codes are refused and resend() sends a new one", async () => {
+    const { db, server } = setup();
+    server.login = { ...server.login, expires_in: 0 };
+    const challenge = await startLogin(db);
+    assertEqual(challenge.isExpired, true, "expired");
+
+    const error = await expectError(challenge.verify("123456"), TwoFactorError);
+    assertEqual(error.reason, "expired", "reason");
+
+    server.login = { ...server.login, expires_in: 60 };
+    const fresh = await startLogin(db);
+    await fresh.resend();
+    assertEqual(
+      server.requests[server.requests.length - 1],
+      { url: "/auth-collections/2fa/send-code", body: { email: "a@b.c" } },
+      "resend request"
+    );
+    assertEqual(fresh.isExpired, false, "fresh");
+  });
+
+  await test("The status leaves awaiting_2fa when the code expires", async () => {
+    const { db, server } = setup();
+    server.login = { ...server.login, expires_in: 0.05 };
+    const statuses: string[] = [];
+    db.auth.subscribe(({ status }) => statuses.push(status));
+    const challenge = await startLogin(db);
+    assertEqual(db.auth.status, "awaiting_2fa", "after login");
+
+    await tick(80);
+    assertEqual(db.auth.status, "unauthenticated", "after expiry");
+    assertEqual(
+      statuses.slice(-2),
+      ["awaiting_2fa", "unauthenticated"],
+      "notified"
+    );
+
+    await challenge.resend();
+    assertEqual(db.auth.status, "awaiting_2fa", "after resend");
+  });
+
+  await test("The status leaves awaiting_2fa when attempts run out", async () => {
+    const { db, server } = setup();
+    server.login = { ...server.login, max_attempts: 1 };
+    const statuses: string[] = [];
+    db.auth.subscribe(({ status }) => statuses.push(status));
+    const challenge = await startLogin(db);
+
+    await expectError(challenge.verify("000000"), TwoFactorError);
+    await tick();
+    assertEqual(db.auth.status, "unauthenticated", "status");
+    assertEqual(
+      statuses.slice(-2),
+      ["awaiting_2fa", "unauthenticated"],
+      "notified"
+    );
+
+    // An older challenge doesn't touch the status of a newer login
+    const newer = await startLogin(db);
+    await expectError(challenge.verify("000000"), TwoFactorError);
+    assertEqual(db.auth.status, "awaiting_2fa", "newer login");
+    await newer.verify("123456");
+  });
+
+  await test("Enrolls an authenticator app", async () => {
+    const { db, server } = setup();
+    await expectError(db.auth.enrollTOTP(), AuthError);
+
+    db.auth.setToken("tok");
+    const enrollment = await db.auth.enrollTOTP();
+    assertEqual(enrollment.secret, "JBSWY3DPEHPK3PXP", "secret");
+    assertEqual(
+      enrollment.otpauth_uri.startsWith("otpauth://totp/"),
+      true,
+      "otpauth uri"
+    );
+
+    const confirmation = await db.auth.confirmTOTP("654321");
+    assertEqual(confirmation.recovery_codes.length, 2, "recovery codes");
+    assertEqual(
+      server.requests[1],
+      { url: "/auth-collections/2fa/totp/confirm", body: { code: "654321" } },
+      "confirm request"
+    );
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runTwoFactorTests();
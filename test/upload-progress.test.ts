@@ -0,0 +1,347 @@
+/**
+ * Test Suite for upload progress and cancellable uploads
+ *
+ * Run with: npx tsx test/upload-progress.test.ts
+ *
+ * Node uploads are checked with a fake fetch that reads the streamed body;
+ * browser uploads with a fake XMLHttpRequest.
+ */
+
+import { Cocobase, MemoryStorageAdapter, uploadFile } from "../src/index";
+import type { UploadProgress } from "../src/index";
+
+// Test counter
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void | Promise<void>) {
+  return (async () => {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`✗ ${name}`);
+      console.error(`   Error: ${error}`);
+      failed++;
+    }
+  })();
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+function file(name: string, size: number, type = "image/png"): File {
+  return new File([new Uint8Array(size).fill(7)], name, { type });
+}
+
+interface Received {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  form: FormData;
+}
+
+/**
+ * Client whose fetch reads the whole request body, like a real upload.
+ */
+function setup() {
+  const received: Received[] = [];
+  const fakeFetch = (async (url: any, init: any) => {
+    const body = new Response(init.body, {
+      headers: { "Content-Type": init.headers["Content-Type"] },
+    });
+    received.push({
+      url: String(url),
+      method: init.method,
+      headers: init.headers,
+      form: await body.formData(),
+    });
+    return new Response(JSON.stringify({ id: "doc1", url: "https://f/x" }));
+  }) as typeof fetch;
+  const db = new Cocobase({
+    apiKey: "key",
+    baseURL: "https://example.test",
+    fetch: fakeFetch,
+    retry: false,
+    storage: new MemoryStorageAdapter(),
+  });
+  return { db, received };
+}
+
+async function runUploadProgressTests() {
+  console.log("🧪 Testing upload progress...\n");
+
+  await test("Reports progress while streaming the body", async () => {
+    const { db, received } = setup();
+    const events: UploadProgress[] = [];
+    await db.createDocumentWithFiles(
+      "posts",
+      { title: "Hello" },
+      { cover: file("cover.png", 200_000) },
+      { onProgress: (p) => events.push(p) }
+    );
+
+    const last = events[events.length - 1];
+    assertEqual(events.length > 2, true, "several events");
+    assertEqual(last.loaded, last.total, "completes");
+    assertEqual(last.total > 200_000, true, "total covers the body");
+    assertEqual(
+      events.every((e, i) => i === 0 || e.loaded >= events[i - 1].loaded),
+      true,
+      "monotonic"
+    );
+    assertEqual(last.file?.field, "cover", "file field");
+    assertEqual(last.file?.loaded, 200_000, "file completes");
+
+    // The server still receives regular multipart form data
+    const form = received[0].form;
+    assertEqual(form.get("data"), JSON.stringify({ title: "Hello" }), "data");
+    assertEqual((form.get("cover") as File).size, 200_000, "file size");
+    assertEqual(received[0].headers["x-api-key"], "key", "auth headers kept");
+  });
+
+  await test("Reports each file of an array field", async () => {
+    const { db } = setup();
+    const latest = new Map<string, number>();
+    await db.updateDocumentWithFiles(
+      "products",
+      "p1",
+      undefined,
+      {
+        gallery: [file("a.png", 100_000), file("b.png", 100_000)],
+        main: file("main.png", 50_000),
+      },
+      {
+        onProgress: ({ file }) => {
+          if (file) latest.set(`${file.field}[${file.index}]`, file.loaded);
+        },
+      }
+    );
+    assertEqual(
+      [...latest.entries()],
+      [
+        ["gallery[0]", 100_000],
+        ["gallery[1]", 100_000],
+        ["main[0]", 50_000],
+      ],
+      "per-file totals"
+    );
+  });
+
+  await test("Files are read only as the body is sent", async () => {
+    const read: number[] = [];
+    class TrackedFile extends File {
+      slice(start?: number, end?: number, type?: string): Blob {
+        read.push(start ?? 0);
+        return super.slice(start, end, type);
+      }
+      stream(): ReturnType<File["stream"]> {
+        read.push(-1);
+        return super.stream();
+      }
+    }
+    let readBeforeFetch: number[] = [];
+    let form: FormData | undefined;
+    const fakeFetch = (async (_url: any, init: any) => {
+      readBeforeFetch = [...read];
+      const body = new Response(init.body, {
+        headers: { "Content-Type": init.headers["Content-Type"] },
+      });
+      form = await body.formData();
+      return new Response(JSON.stringify({ id: "doc1" }));
+    }) as typeof fetch;
+    const db = new Cocobase({ apiKey: "key", fetch: fakeFetch, retry: false });
+
+    await db.createDocumentWithFiles(
+      "posts",
+      { title: "Hello" },
+      {
+        cover: new TrackedFile([new Uint8Array(200_000).fill(7)], "c.png", {
+          type: "image/png",
+        }),
+      },
+      { onProgress: () => {} }
+    );
+    assertEqual(readBeforeFetch, [], "nothing read before fetch");
+    assertEqual(read, [0, 65_536, 131_072, 196_608], "read in slices");
+    assertEqual((form?.get("cover") as File).size, 200_000, "file size");
+    assertEqual((form?.get("cover") as File).name, "c.png", "file name");
+    assertEqual(form?.get("data"), JSON.stringify({ title: "Hello" }), "data");
+  });
+
+  await test("Upload helpers accept onProgress", async () => {
+    const { db, received } = setup();
+    const seen: string[] = [];
+    const track = (label: string) => ({
+      onProgress: (p: UploadProgress) => {
+        if (p.loaded === p.total && !seen.includes(label)) seen.push(label);
+      },
+    });
+
+    await uploadFile(db, file("f.png", 10), track("uploadFile"));
+    await db.auth.registerWithFiles(
+      { email: "a@b.c", password: "pw", files: { avatar: file("a.png", 10) } },
+      track("registerWithFiles")
+    );
+    db.auth.setToken("tok");
+    await db.auth.updateUserWithFiles(
+      { files: { avatar: file("b.png", 10) } },
+      track("updateUserWithFiles")
+    );
+    assertEqual(
+      seen,
+      ["uploadFile", "registerWithFiles", "updateUserWithFiles"],
+      "completed"
+    );
+    assertEqual(received.length, 3, "requests");
+  });
+
+  await test("Aborting the signal cancels the upload", async () => {
+    const controller = new AbortController();
+    const reason = new Error("cancelled by user");
+    const fakeFetch = ((_url: any, init: any) =>
+      new Promise((_resolve, reject) => {
+        init.signal.addEventListener("abort", () => reject(init.signal.reason));
+        // Start reading so progress is reported, then stall
+        init.body.getReader().read();
+      })) as unknown as typeof fetch;
+    const db = new Cocobase({ apiKey: "key", fetch: fakeFetch, retry: false });
+
+    let error: unknown;
+    await db
+      .createDocumentWithFiles(
+        "posts",
+        {},
+        { cover: file("c.png", 500_000) },
+        {
+          signal: controller.signal,
+          onProgress: () => controller.abort(reason),
+        }
+      )
+      .catch((e) => (error = e));
+    assertEqual(error === reason, true, "rejects with the abort reason");
+  });
+
+  await test("Uses XMLHttpRequest in browsers", async () => {
+    const instances: FakeXhr[] = [];
+    class FakeXhr {
+      upload: {
+        onprogress?: (e: {
+          loaded: number;
+          total: number;
+          lengthComputable: boolean;
+        }) => void;
+      } = {};
+      headers: Record<string, string> = {};
+      body: unknown;
+      method = "";
+      url = "";
+      status = 0;
+      statusText = "";
+      responseType = "";
+      response: unknown;
+      onload?: () => void;
+      onerror?: () => void;
+      onabort?: () => void;
+      onloadend?: () => void;
+      ontimeout?: () => void;
+      constructor() {
+        instances.push(this);
+      }
+      open(method: string, url: string) {
+        this.method = method;
+        this.url = url;
+      }
+      setRequestHeader(name: string, value: string) {
+        this.headers[name] = value;
+      }
+      getAllResponseHeaders() {
+        return "content-type: application/json\r\nx-request-id: r1\r\n";
+      }
+      abort() {
+        this.onabort?.();
+        this.onloadend?.();
+      }
+      send(body: FormData | Blob) {
+        this.body = body;
+        setTimeout(async () => {
+          // The browser encodes the body itself
+          const total = (await new Response(body).blob()).size;
+          const progress = (loaded: number) =>
+            this.upload.onprogress?.({ loaded, total, lengthComputable: true });
+          progress(Math.floor(total / 2));
+          progress(total);
+          this.status = 201;
+          this.response = new Blob([JSON.stringify({ id: "doc1" })]);
+          this.onload?.();
+          this.onloadend?.();
+        }, 0);
+      }
+    }
+    (globalThis as any).XMLHttpRequest = FakeXhr;
+    try {
+      const db = new Cocobase({ apiKey: "key", baseURL: "https://x.test" });
+      const events: number[] = [];
+      const doc = await db.createDocumentWithFiles(
+        "posts",
+        {},
+        { cover: file("c.png", 1000) },
+        {
+          onProgress: (p) =>
+            events.push(Math.round((p.loaded / p.total) * 100)),
+        }
+      );
+      assertEqual(doc.id, "doc1", "response body");
+      assertEqual(events, [50, 100], "progress");
+      assertEqual(instances[0].method, "POST", "method");
+      assertEqual(
+        instances[0].url,
+        "https://x.test/collections/documents?collection=posts",
+        "url"
+      );
+      assertEqual(
+        instances[0].body instanceof FormData,
+        true,
+        "form data sent as is"
+      );
+      assertEqual(
+        instances[0].headers["Content-Type"],
+        undefined,
+        "boundary left to the browser"
+      );
+
+      const controller = new AbortController();
+      const pending = db.createDocumentWithFiles(
+        "posts",
+        {},
+        { cover: file("c.png", 10) },
+        { signal: controller.signal, onProgress: () => {} }
+      );
+      controller.abort(new Error("stop"));
+      let message = "";
+      await pending.catch((e) => (message = e.message));
+      assertEqual(message, "stop", "abort");
+    } finally {
+      delete (globalThis as any).XMLHttpRequest;
+    }
+  });
+
+  // Print results
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+  console.log(`📊 Total: ${passed + failed}`);
+  console.log(`${"=".repeat(50)}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runUploadProgressTests();